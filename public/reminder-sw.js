@@ -0,0 +1,153 @@
+// Service worker for strand reminders. It delivers the batches the app left
+// in each profile's outbox (see src/reminderService.ts, which owns the
+// database layout), records snoozes, and routes notification clicks back to
+// the app.
+// Production builds load it into sw.js; the dev server registers it alone.
+
+const DB_NAME = 'strand-friends-reminders';
+const STORE_NAME = 'state';
+const OUTBOX_KEY = 'outbox';
+const SNOOZES_KEY = 'snoozes';
+const LAST_DELIVERED_KEY = 'lastDeliveredAt';
+const PERIODIC_SYNC_TAG = 'strand-reminders';
+const DEFAULT_PROFILE_ID = 'default';
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+const getProfileKey = (key, profileId) =>
+  profileId === DEFAULT_PROFILE_ID ? key : `${key}:${profileId}`;
+
+const isOutboxKey = key =>
+  typeof key === 'string' && (key === OUTBOX_KEY || key.startsWith(`${OUTBOX_KEY}:`));
+
+const openDatabase = () => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+      request.result.createObjectStore(STORE_NAME);
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Read a key and optionally update the store, all in one transaction
+const updateValue = async (key, update) => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.get(key);
+    request.onsuccess = () => update(store, request.result);
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Mirrors isQuietTime in src/reminders.ts
+const isQuietTime = (date, { quietStart, quietEnd }) => {
+  const hour = date.getHours() + date.getMinutes() / 60;
+  if (quietStart === quietEnd) return false;
+  return quietStart < quietEnd
+    ? hour >= quietStart && hour < quietEnd
+    : hour >= quietStart || hour < quietEnd;
+};
+
+// Mirrors isBatchDue in src/reminders.ts
+const isBatchDue = (batch, now) =>
+  new Date(batch.deliverAt).getTime() <= now.getTime() && !isQuietTime(now, batch);
+
+// Claim every due outbox in one transaction, so the app can't repeat them.
+// A batch found late, during its quiet hours, waits for them to end, and
+// connections snoozed after it was planned are left out.
+const claimDueBatches = async now => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const due = [];
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const keys = store.getAllKeys();
+    keys.onsuccess = () => keys.result.filter(isOutboxKey).forEach(key => {
+      const request = store.get(key);
+      request.onsuccess = () => {
+        const batch = request.result;
+        if (!batch || !isBatchDue(batch, now)) return;
+        store.delete(key);
+        store.put(now.toISOString(), getProfileKey(LAST_DELIVERED_KEY, batch.profileId));
+        // Drop connections snoozed since the batch was planned
+        const snoozes = store.get(getProfileKey(SNOOZES_KEY, batch.profileId));
+        snoozes.onsuccess = () => {
+          const isSnoozed = id => id !== null && new Date((snoozes.result || {})[id] || 0).getTime() > now.getTime();
+          due.push({ ...batch, notifications: batch.notifications.filter(notification => !isSnoozed(notification.connectionId)) });
+        };
+      };
+    });
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(due);
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Show every profile's pending batch that is due
+const deliverDueReminders = async () => {
+  const batches = await claimDueBatches(new Date());
+  await Promise.all(batches.flatMap(batch => batch.notifications.map(notification =>
+    self.registration.showNotification(notification.title, {
+      body: notification.body,
+      tag: notification.tag,
+      data: { profileId: batch.profileId, connectionId: notification.connectionId, snoozeDays: batch.snoozeDays },
+      actions: notification.connectionId === null ? [] : [
+        { action: 'log', title: 'Log interaction' },
+        { action: 'snooze', title: `Snooze ${batch.snoozeDays}d` }
+      ]
+    })
+  )));
+};
+
+const snoozeConnection = (profileId, connectionId, days) => {
+  const key = getProfileKey(SNOOZES_KEY, profileId);
+  return updateValue(key, (store, value) => {
+    const snoozes = value || {};
+    snoozes[connectionId] = new Date(Date.now() + days * MS_PER_DAY).toISOString();
+    store.put(snoozes, key);
+  });
+};
+
+// Hand the action to an open tab, or open the app with it in the URL
+const openApp = async (action, profileId, connectionId) => {
+  const target = profileId && connectionId !== null;
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  if (windows.length > 0) {
+    const client = windows[0];
+    await client.focus();
+    if (target) client.postMessage({ type: 'reminder-action', action, profileId, connectionId });
+    return;
+  }
+  const url = new URL(self.registration.scope);
+  if (target) {
+    url.searchParams.set('reminder', action);
+    url.searchParams.set('profile', profileId);
+    url.searchParams.set('connection', String(connectionId));
+  }
+  await self.clients.openWindow(url.href);
+};
+
+self.addEventListener('activate', event => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === PERIODIC_SYNC_TAG) event.waitUntil(deliverDueReminders());
+});
+
+self.addEventListener('notificationclick', event => {
+  const { profileId, connectionId, snoozeDays } = event.notification.data || {};
+  event.notification.close();
+  if (event.action === 'snooze' && profileId && connectionId !== null && connectionId !== undefined) {
+    event.waitUntil(snoozeConnection(profileId, connectionId, snoozeDays));
+    return;
+  }
+  event.waitUntil(openApp(event.action === 'log' ? 'log' : 'open', profileId, connectionId ?? null));
+});
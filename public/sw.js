@@ -0,0 +1,42 @@
+// App shell service worker for production builds. The build emits
+// precache-manifest.js with every hashed asset, so a new build changes that
+// script and the browser installs a fresh worker, which waits until the app
+// accepts the update. Reminder handlers come from reminder-sw.js.
+
+importScripts('precache-manifest.js', 'reminder-sw.js');
+
+const CACHE_PREFIX = 'strand-friends-shell-';
+const CACHE_NAME = CACHE_PREFIX + self.PRECACHE_VERSION;
+const SHELL_URL = new URL('./', self.registration.scope).href;
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(self.PRECACHE_URLS)));
+});
+
+// Drop the shells of earlier builds
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys
+        .filter(key => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+        .map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Cache first: the shell never waits on a bad connection, and the data lives
+// in IndexedDB, so nothing the app needs goes over the network
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+  if (request.mode === 'navigate') {
+    event.respondWith(caches.match(SHELL_URL).then(cached => cached || fetch(request)));
+    return;
+  }
+  event.respondWith(caches.match(request).then(cached => cached || fetch(request)));
+});
+
+// Sent by the update prompt
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'skip-waiting') self.skipWaiting();
+});
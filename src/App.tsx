@@ -1,39 +1,156 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import _ from 'lodash';
 import * as d3 from 'd3';
-
-// Define interfaces for type safety
-interface ConnectionScores {
-  communication: number;
-  reliability: number;
-  emotional: number;
-  shared: number;
-  support: number;
-}
-
-interface ConnectionType {
-  id: number;
-  name: string;
-  strength: number;
-  lastContact: Date;
-  halfLife: number;
-  scores: ConnectionScores;
-}
-
-interface ActivityType {
-  id: number;
-  connectionId: number;
-  type: string;
-  points: number;
-  date: Date;
-  notes: string;
-}
-
-interface ConnectionLevel {
-  level: number;
-  label: string;
-  badge: string;
-}
+import type {
+  ConnectionType,
+  ActivityType,
+  AppSettings,
+  ConnectionScores,
+  DecayCurveType,
+  GainModel,
+  HalfLifeMode,
+  InteractionPlan,
+  InteractionTypeDefinition,
+  LevelDefinition,
+  MaintenanceBudget,
+  MaintenanceItem,
+  MaintenancePlan,
+  PlannedInteraction,
+  Profile,
+  RelationshipKind,
+  RelationshipType,
+  ReminderSettings,
+  TagDefinition
+} from './types';
+import {
+  loadData,
+  saveData,
+  serializeData,
+  deserializeData,
+  requestPersistentStorage,
+  loadProfileIndex,
+  saveProfileIndex,
+  copyProfileData,
+  deleteProfileData,
+  createEmptyData,
+  loadEncryptionHeader,
+  isStorageUnlocked,
+  unlockStorage,
+  lockStorage,
+  enableEncryption,
+  changePassphrase,
+  disableEncryption,
+  saveIdleLockMinutes,
+  DEFAULT_IDLE_LOCK_MINUTES,
+  DEFAULT_PROFILE_ID,
+  DEFAULT_SETTINGS
+} from './storage';
+import type { PersistedData } from './storage';
+import { MAX_PROFILE_NAME_LENGTH, createProfileId, getOwnerLabel, getUniqueProfileName } from './profiles';
+import { createBackup, createEncryptedBackup, decryptBackup, isEncryptedBackup, parseBackup, mergeData } from './backup';
+import { MIN_PASSPHRASE_LENGTH, isCryptoSupported } from './crypto';
+import type { ParsedBackup, ImportMode } from './backup';
+import { downloadFile, readFileAsText, getFileDateStamp, slugify } from './fileUtils';
+import { getNextId } from './ids';
+import { parseVCards } from './vcard';
+import type { VCardContact } from './vcard';
+import { createDormancyCalendar, createPlanCalendar } from './ics';
+import { emptyHistory, pushHistory, undoHistory, redoHistory, loadSessionHistory, saveSessionHistory, clearSessionHistory } from './history';
+import type { HistoryStack } from './history';
+import {
+  ADVISORY_DAYS,
+  AT_RISK_DAYS,
+  DECAY_CURVE_TYPES,
+  DEFAULT_GAIN_MODEL,
+  DEFAULT_LEVELS,
+  decayCurves,
+  explainGain,
+  fixedClock,
+  getConnectionAt,
+  getConnectionLevel,
+  getCurrentStrength,
+  getDaysSinceContact,
+  getDaysUntilThreshold,
+  getDecayCurve,
+  getDormantThreshold,
+  getGainBreakdowns,
+  getLadderProblems,
+  getLevelFloor,
+  getLiveScores,
+  getScoresAt,
+  getStrengthHistory,
+  getTargetStrength,
+  isAtRisk,
+  moveBaselineBefore,
+  MS_PER_DAY,
+  rebuildConnection,
+  rebuildConnections,
+  systemClock
+} from './strandEngine';
+import type { Clock } from './strandEngine';
+import { getSampleConnections, getSampleActivities, getSampleRelationships } from './sampleData';
+import { DEFAULT_TAGS, TAG_COLORS, createTagId, getNextTagColor, getPrimaryTag, getTag, getTagStats, hasTag } from './tags';
+import { HALF_LIFE_MODES, applyAdaptiveHalfLife, estimateHalfLife } from './adaptiveHalfLife';
+import {
+  DEFAULT_RELATIONSHIP_STRENGTH,
+  RELATIONSHIP_KINDS,
+  findBridges,
+  findClusters,
+  getNeighbourIds,
+  getOtherId,
+  getRelationshipKind,
+  getRelationshipsOf
+} from './relationships';
+import {
+  DEFAULT_INTERACTION_TYPES,
+  createInteractionTypeId,
+  getActiveInteractionTypes,
+  getInteractionDisplay,
+  getInteractionType
+} from './interactionTypes';
+import {
+  MAX_PLAN_WEEKS,
+  generateMaintenancePlan,
+  getMaintenanceCoverage,
+  getMaintenanceTarget,
+  getPendingActivities,
+  getPlanDivergence
+} from './maintenance';
+import {
+  DEFAULT_FORECAST_HORIZON,
+  FORECAST_HORIZONS,
+  describePlannedInteraction,
+  expandPlan,
+  getDayBelow,
+  getForecastCurve
+} from './whatIf';
+import type { ForecastPoint } from './whatIf';
+import {
+  COMPARE_COLORS,
+  MAX_COMPARED,
+  SCORE_DIMENSIONS,
+  averageScores,
+  getRadarPath,
+  getRadarPoint,
+  getScoreDiffs,
+  rankByScore
+} from './scoreComparison';
+import { DEFAULT_REMINDER_SETTINGS, planReminderBatch, redactReminderBatch } from './reminders';
+import {
+  clearReminderState,
+  deliverDueReminders,
+  getReminderPermission,
+  isReminderActionMessage,
+  isReminderSupported,
+  readLastDelivered,
+  readSnoozes,
+  registerReminderWorker,
+  requestReminderPermission,
+  scheduleReminderBatch,
+  takeReminderActionFromUrl
+} from './reminderService';
+import type { ReminderActionMessage } from './reminderService';
+import { registerServiceWorker, watchForUpdates } from './serviceWorker';
 
 interface NodeType extends d3.SimulationNodeDatum {
   id: string;
@@ -43,6 +160,7 @@ interface NodeType extends d3.SimulationNodeDatum {
   original?: ConnectionType;
   halfLife?: number;
   lastContact?: number;
+  tagId?: string;
   fixed?: boolean;
   x?: number;
   y?: number;
@@ -57,36 +175,84 @@ interface LinkType extends d3.SimulationLinkDatum<NodeType> {
   source: string | NodeType;
   target: string | NodeType;
   strength: number;
+  kind?: RelationshipKind;
 }
 
+// Angular node outline (octagon path)
+const createOctagonPath = (radius: number): string => {
+  const points: [number, number][] = [];
+  for (let i = 0; i < 8; i++) {
+    const angle = (i * Math.PI) / 4;
+    points.push([radius * Math.cos(angle), radius * Math.sin(angle)]);
+  }
+  return d3.line<[number, number]>()(points) + "Z";
+};
+
+// Top, right, bottom, left corner markers around each node
+const CORNER_DIRECTIONS: [number, number][] = [[0, -1], [1, 0], [0, 1], [-1, 0]];
+
 // Network graph visualization component
 const NetworkGraph = ({ 
   connections, 
+  relationships,
+  tags,
+  levels,
+  ownerName,
+  showBridges,
+  clock = systemClock,
   selectedConnectionId, 
-  setSelectedConnection, 
-  getCurrentStrength, 
-  getConnectionLevel 
+  setSelectedConnection 
 }: { 
   connections: ConnectionType[]; 
+  relationships: RelationshipType[];
+  tags: TagDefinition[];
+  levels: LevelDefinition[];
+  // Label of the center node
+  ownerName: string;
+  showBridges: boolean;
+  // Moment the graph shows; the time scrubber moves it into the past or future
+  clock?: Clock;
   selectedConnectionId: number | null; 
   setSelectedConnection: (connection: ConnectionType) => void; 
-  getCurrentStrength: (connection: ConnectionType) => number; 
-  getConnectionLevel: (strength: number) => ConnectionLevel;
 }) => {
-  // Function to calculate days since last contact
-  const getDaysSinceContact = (lastContact: Date): number => {
-    const now = new Date();
-    const diffTime = Math.abs(now.getTime() - lastContact.getTime());
-    return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  };
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [focusMode, setFocusMode] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchMiss, setSearchMiss] = useState(false);
+  const [centerRequest, setCenterRequest] = useState(0);
+  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  // Node offsets from the center, kept so rebuilds and resizes don't scatter the layout
+  const positionsRef = useRef(new Map<string, { x: number; y: number }>());
+  const pendingCenterRef = useRef<string | null>(null);
+  
+  // Latest strengths for the build effect, which only reruns on topology changes
+  const latestRef = useRef({ connections, clock });
+  latestRef.current = { connections, clock };
+  const topologyKey = connections.map(conn => `${conn.id}:${conn.name}:${getPrimaryTag(conn, tags)?.id || ''}`).join('|');
+  
+  // Re-layout whenever the container changes size, not only on state changes
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver(entries => {
+      const { width, height } = entries[0].contentRect;
+      setSize({ width: Math.round(width), height: Math.round(height) });
+    });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
   
+  // Build the graph once per topology; strengths and selection only restyle it
   useEffect(() => {
-    if (!svgRef.current || !containerRef.current) return;
+    if (!svgRef.current || size.width === 0 || size.height === 0) return;
     
-    const width = containerRef.current.clientWidth;
-    const height = containerRef.current.clientHeight;
+    const { width, height } = size;
+    const { connections, clock } = latestRef.current;
+    const positions = positionsRef.current;
+    [...positions.keys()].forEach(id => {
+      if (!connections.some(conn => conn.id.toString() === id)) positions.delete(id);
+    });
     
     // Clear previous SVG content
     d3.select(svgRef.current).selectAll("*").remove();
@@ -115,14 +281,12 @@ const NetworkGraph = ({
       .attr("stop-color", "#006688")
       .attr("stop-opacity", 0.5);
       
-    // Generate gradients for each connection strength level
-    const levelColors = [
-      { id: "dormant-gradient", inner: "#883333", outer: "#551111" },
-      { id: "acquaintance-gradient", inner: "#6666FF", outer: "#333399" },
-      { id: "friend-gradient", inner: "#33AAFF", outer: "#0077CC" },
-      { id: "close-friend-gradient", inner: "#00DDFF", outer: "#00AADD" },
-      { id: "inner-circle-gradient", inner: "#00FFFF", outer: "#00CCDD" }
-    ];
+    // Generate gradients for each rung of the level ladder
+    const levelColors = levels.map((rung, i) => ({
+      id: `level-${i}-gradient`,
+      inner: rung.color,
+      outer: d3.color(rung.color)?.darker(1).formatHex() || rung.color
+    }));
     
     levelColors.forEach(color => {
       const gradient = defs.append("radialGradient")
@@ -160,19 +324,20 @@ const NetworkGraph = ({
     
     // Prepare graph data
     const nodes: NodeType[] = [
-      { id: 'center', name: 'YOU', fixed: true, x: width / 2, y: height / 2 },
+      { id: 'center', name: ownerName, fixed: true, x: width / 2, y: height / 2 },
       ...connections.map((conn: ConnectionType) => {
-        const strength = getCurrentStrength(conn);
+        const strength = getCurrentStrength(conn, clock);
         return {
           id: conn.id.toString(),
           name: conn.name,
           strength: strength,
-          level: getConnectionLevel(strength).level,
+          level: getConnectionLevel(strength, levels).level,
           original: conn,
           halfLife: conn.halfLife,
-          lastContact: getDaysSinceContact(conn.lastContact),
-          x: 0,
-          y: 0,
+          lastContact: getDaysSinceContact(conn.lastContact, clock),
+          tagId: getPrimaryTag(conn, tags)?.id,
+          x: positions.has(conn.id.toString()) ? width / 2 + positions.get(conn.id.toString())!.x : 0,
+          y: positions.has(conn.id.toString()) ? height / 2 + positions.get(conn.id.toString())!.y : 0,
           fx: null,
           fy: null
         };
@@ -180,7 +345,7 @@ const NetworkGraph = ({
     ];
     
     const links = connections.map((conn: ConnectionType) => {
-      const strength = getCurrentStrength(conn);
+      const strength = getCurrentStrength(conn, clock);
       return {
         source: 'center',
         target: conn.id.toString(),
@@ -188,13 +353,48 @@ const NetworkGraph = ({
       };
     });
     
+    // Relationships between connections; stronger ones pull their clusters closer
+    const knownIds = new Set(connections.map(conn => conn.id));
+    const peerLinks: LinkType[] = relationships
+      .filter(r => knownIds.has(r.sourceId) && knownIds.has(r.targetId))
+      .map(r => ({
+        source: r.sourceId.toString(),
+        target: r.targetId.toString(),
+        strength: r.strength ?? DEFAULT_RELATIONSHIP_STRENGTH,
+        kind: r.kind
+      }));
+    
+    const bridgeIds = showBridges
+      ? new Set(findBridges(connections, relationships).map(bridge => bridge.connectionId.toString()))
+      : new Set<string>();
+    
+    // Each group gets its own sector around YOU, keyed by the connection's first tag
+    const sectorTags = tags.filter(tag => nodes.some(node => node.tagId === tag.id));
+    const sectorRadius = Math.min(width, height) * 0.3;
+    const getSectorPoint = (tagId: string): [number, number] => {
+      const angle = (sectorTags.findIndex(tag => tag.id === tagId) / sectorTags.length) * Math.PI * 2 - Math.PI / 2;
+      return [width / 2 + Math.cos(angle) * sectorRadius, height / 2 + Math.sin(angle) * sectorRadius];
+    };
+    
     // Create simulation
     const simulation = d3.forceSimulation<NodeType, LinkType>(nodes)
       .force("link", d3.forceLink<NodeType, LinkType>(links).id(d => d.id).distance(d => 200 - (d.strength || 0)))
+      .force("peers", d3.forceLink<NodeType, LinkType>(peerLinks).id(d => d.id)
+        .distance(d => 150 - d.strength * 0.6)
+        .strength(d => 0.1 + d.strength / 250))
+      .force("sectorX", d3.forceX<NodeType>(d => d.tagId ? getSectorPoint(d.tagId)[0] : width / 2)
+        .strength(d => d.tagId && sectorTags.length > 1 ? 0.08 : 0))
+      .force("sectorY", d3.forceY<NodeType>(d => d.tagId ? getSectorPoint(d.tagId)[1] : height / 2)
+        .strength(d => d.tagId && sectorTags.length > 1 ? 0.08 : 0))
       .force("charge", d3.forceManyBody().strength(-300))
       .force("center", d3.forceCenter(width / 2, height / 2))
       .force("collision", d3.forceCollide().radius(40));
     
+    // Settle gently from the previous layout instead of starting over
+    if (connections.length > 0 && connections.every(conn => positions.has(conn.id.toString()))) {
+      simulation.alpha(0.3);
+    }
+    
     // Draw grid pattern background
     const gridSize = 30;
     const gridGroup = svg.append("g").attr("class", "grid")
@@ -235,42 +435,77 @@ const NetworkGraph = ({
         .attr("stroke-width", 0.5);
     }
     
+    // Everything below pans and zooms together; the grid stays put
+    const viewport = svg.append("g").attr("class", "viewport");
+    
+    const zoom = zoomRef.current || d3.zoom<SVGSVGElement, unknown>().scaleExtent([0.3, 4]);
+    zoomRef.current = zoom;
+    zoom.on("zoom", event => viewport.attr("transform", event.transform.toString()));
+    svg.call(zoom).on("dblclick.zoom", null);
+    viewport.attr("transform", d3.zoomTransform(svgRef.current).toString());
+    
+    // Subtle hull behind each group
+    const hulls = viewport.append("g")
+      .attr("class", "group-hulls")
+      .selectAll("path")
+      .data(sectorTags)
+      .enter()
+      .append("path")
+      .attr("fill", tag => tag.color)
+      .attr("fill-opacity", 0.06)
+      .attr("stroke", tag => tag.color)
+      .attr("stroke-opacity", 0.25)
+      .attr("stroke-dasharray", "2,4")
+      .attr("stroke-linejoin", "round");
+    
+    // Padded outline around a group's nodes; works for one or two nodes too
+    const HULL_PADDING = 32;
+    const getHullPath = (tagId: string): string => {
+      const points: [number, number][] = nodes
+        .filter(node => node.tagId === tagId)
+        .flatMap(node => [0, 1, 2, 3, 4, 5, 6, 7].map(i => [
+          (node.x || 0) + Math.cos(i * Math.PI / 4) * HULL_PADDING,
+          (node.y || 0) + Math.sin(i * Math.PI / 4) * HULL_PADDING
+        ] as [number, number]));
+      const hull = d3.polygonHull(points);
+      return hull ? `M${hull.join('L')}Z` : '';
+    };
+    
+    // Relationship strands between connections
+    const peerLink = viewport.append("g")
+      .attr("class", "peer-links")
+      .selectAll("line")
+      .data(peerLinks)
+      .enter()
+      .append("line")
+      .attr("stroke", (d: LinkType) => getRelationshipKind(d.kind || 'other').color)
+      .attr("stroke-width", (d: LinkType) => 0.5 + d.strength / 40)
+      .attr("stroke-dasharray", "3,3");
+    
     // Create links with varying thicknesses
-    const link = svg.append("g")
+    const link = viewport.append("g")
       .attr("class", "links")
       .selectAll("line")
       .data(links)
       .enter()
       .append("line")
-      .attr("stroke", (d: LinkType) => {
-        const strength = d.strength;
-        if (strength < 15) return "rgba(136, 51, 51, 0.6)"; // Dormant
-        if (strength < 30) return "rgba(102, 102, 255, 0.6)"; // Acquaintance
-        if (strength < 60) return "rgba(51, 170, 255, 0.6)"; // Friend
-        if (strength < 100) return "rgba(0, 221, 255, 0.6)"; // Close Friend
-        return "rgba(0, 255, 255, 0.6)"; // Inner Circle
-      })
-      .attr("stroke-width", (d: LinkType) => Math.max(1, d.strength / 20))
-      .attr("stroke-opacity", 0.6)
-      .attr("stroke-dasharray", (d: LinkType) => d.strength < 15 ? "4,4" : "none")
       .attr("filter", "url(#glow)");
     
-    // Add link labels for stronger connections
-    const linkLabels = svg.append("g")
+    // Link labels; only the top two rungs show theirs
+    const linkLabels = viewport.append("g")
       .attr("class", "link-labels")
       .selectAll("text")
-      .data(links.filter((d: LinkType) => d.strength >= 60))
+      .data(links)
       .enter()
       .append("text")
       .attr("font-size", 9)
       .attr("fill", "rgba(0, 238, 255, 0.7)")
       .attr("text-anchor", "middle")
       .attr("dominant-baseline", "middle")
-      .attr("font-family", "monospace")
-      .text((d: LinkType) => Math.round(d.strength).toString());
+      .attr("font-family", "monospace");
     
     // Create the node container elements
-    const nodeGroups = svg.append("g")
+    const nodeGroups = viewport.append("g")
       .attr("class", "nodes")
       .selectAll("g")
       .data(nodes)
@@ -278,10 +513,6 @@ const NetworkGraph = ({
       .append("g")
       .attr("class", d => d.id === 'center' ? 'node center-node' : 'node connection-node')
       .attr("cursor", "pointer")
-      .attr("filter", d => {
-        if (d.id === selectedConnectionId?.toString()) return "url(#glow)";
-        return "none";
-      })
       .on("click", (_event, d: NodeType) => {
         if (d.id !== 'center' && d.original) {
           setSelectedConnection(d.original);
@@ -292,65 +523,37 @@ const NetworkGraph = ({
         .on("drag", dragged)
         .on("end", dragended));
     
-    // Function to create angular nodes (octagon path)
-    const createOctagonPath = (radius: number): string => {
-      const points = [];
-      for (let i = 0; i < 8; i++) {
-        const angle = (i * Math.PI) / 4;
-        const x = radius * Math.cos(angle);
-        const y = radius * Math.sin(angle);
-        points.push([x, y]);
-      }
-      return d3.line<[number, number]>()(points as Array<[number, number]>) + "Z";
-    };
-    
     // Add octagonal nodes with Death Stranding style
+    // Sizes, fills and labels are set by the restyle effect below
     nodeGroups.each(function(d: NodeType) {
       const nodeGroup = d3.select(this);
-      const radius = d.id === 'center' ? 30 : 20 + (d.level || 0) * 2;
-      const isSelected = d.id === selectedConnectionId?.toString();
-      
-      // Determine gradient ID based on connection level
-      let gradientId;
-      if (d.id === 'center') {
-        gradientId = 'you-gradient';
-      } else {
-        const level = d.level;
-        if (level === 0) gradientId = 'dormant-gradient';
-        else if (level === 1) gradientId = 'acquaintance-gradient';
-        else if (level === 2) gradientId = 'friend-gradient';
-        else if (level === 3) gradientId = 'close-friend-gradient';
-        else gradientId = 'inner-circle-gradient';
-      }
       
       // Draw octagon shape for node
-      nodeGroup.append("path")
-        .attr("d", createOctagonPath(radius))
-        .attr("fill", `url(#${gradientId})`)
-        .attr("stroke", isSelected ? "#00EEFF" : "#00AADD")
-        .attr("stroke-width", isSelected ? 2 : 1)
-        .attr("stroke-opacity", isSelected ? 0.9 : 0.7);
+      nodeGroup.append("path").attr("class", "node-shape");
+      
+      // Bridges between otherwise separate groups get an outer ring
+      if (bridgeIds.has(d.id)) {
+        nodeGroup.append("path")
+          .attr("class", "bridge-ring")
+          .attr("fill", "none")
+          .attr("stroke", "#FFCC33")
+          .attr("stroke-width", 1.5)
+          .attr("stroke-dasharray", "4,2")
+          .attr("stroke-opacity", 0.9);
+      }
       
       // Add inner octagon for DS style (smaller)
       nodeGroup.append("path")
-        .attr("d", createOctagonPath(radius * 0.7))
+        .attr("class", "node-core")
         .attr("fill", "none")
         .attr("stroke", "#FFFFFF")
         .attr("stroke-width", 0.5)
         .attr("stroke-opacity", 0.3);
       
       // Add corner markers (Death Stranding style)
-      // Top, right, bottom, left points
-      const cornerPoints = [
-        [0, -radius], [radius, 0], [0, radius], [-radius, 0]
-      ];
-      
-      cornerPoints.forEach(([x, y]) => {
+      CORNER_DIRECTIONS.forEach(() => {
         nodeGroup.append("line")
-          .attr("x1", x)
-          .attr("y1", y)
-          .attr("x2", x * 1.2)
-          .attr("y2", y * 1.2)
+          .attr("class", "node-corner")
           .attr("stroke", "#00EEFF")
           .attr("stroke-width", 1)
           .attr("stroke-opacity", 0.5);
@@ -358,7 +561,7 @@ const NetworkGraph = ({
       
       // Add node label
       nodeGroup.append("text")
-        .attr("dy", d.id === 'center' ? radius + 15 : radius + 12)
+        .attr("class", "node-name")
         .attr("text-anchor", "middle")
         .attr("fill", "#88CCFF")
         .attr("font-size", d.id === 'center' ? 12 : 10)
@@ -370,15 +573,14 @@ const NetworkGraph = ({
       // Add strength label for connections
       if (d.id !== 'center') {
         nodeGroup.append("text")
-          .attr("dy", -radius - 8)
+          .attr("class", "node-strength")
           .attr("text-anchor", "middle")
           .attr("fill", "#FFFFFF")
           .attr("font-size", 10)
           .attr("font-family", "monospace")
           .attr("letter-spacing", "0.05em")
           .attr("font-weight", "300")
-          .attr("fill-opacity", 0.9)
-          .text(Math.round(d.strength).toString().padStart(2, '0'));
+          .attr("fill-opacity", 0.9);
       }
     });
     
@@ -390,6 +592,14 @@ const NetworkGraph = ({
         nodes[0].y = height / 2;
       }
       
+      hulls.attr("d", tag => getHullPath(tag.id));
+      
+      peerLink
+        .attr("x1", (d: LinkType) => (d.source as NodeType).x || 0)
+        .attr("y1", (d: LinkType) => (d.source as NodeType).y || 0)
+        .attr("x2", (d: LinkType) => (d.target as NodeType).x || 0)
+        .attr("y2", (d: LinkType) => (d.target as NodeType).y || 0);
+      
       link
         .attr("x1", (d: any) => d.source.x || 0)
         .attr("y1", (d: any) => d.source.y || 0)
@@ -402,6 +612,10 @@ const NetworkGraph = ({
       
       nodeGroups
         .attr("transform", (d: any) => `translate(${d.x || 0},${d.y || 0})`);
+      
+      nodes.forEach(node => {
+        if (node.id !== 'center') positions.set(node.id, { x: (node.x || 0) - width / 2, y: (node.y || 0) - height / 2 });
+      });
     });
     
     // Drag functions
@@ -434,11 +648,181 @@ const NetworkGraph = ({
     return () => {
       simulation.stop();
     };
-  }, [connections, selectedConnectionId, setSelectedConnection, getCurrentStrength, getConnectionLevel]);
+  }, [size, topologyKey, relationships, tags, levels, ownerName, showBridges, setSelectedConnection]);
+  
+  // Restyle the built graph for the current strengths, selection and focus.
+  // Runs on every scrub frame, so it leaves the layout and simulation alone;
+  // the build's dependencies are repeated so a fresh build is styled too.
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const byId = new Map(connections.map(conn => [conn.id.toString(), conn]));
+    
+    // Selecting a node highlights it, its related connections and YOU
+    const neighbourhood = selectedConnectionId != null
+      ? new Set(['center', selectedConnectionId.toString(), ...[...getNeighbourIds(selectedConnectionId, relationships)].map(String)])
+      : null;
+    const isInNeighbourhood = (id: string) => !neighbourhood || neighbourhood.has(id);
+    // Focus mode all but hides everything outside the neighbourhood
+    const dimmedNode = focusMode ? 0.06 : 0.3;
+    const dimmedLink = focusMode ? 0.03 : 0.15;
+    const dimmedPeerLink = focusMode ? 0.02 : 0.1;
+    const touchesSelection = (d: LinkType) => selectedConnectionId == null ||
+      [d.source, d.target].some(end => (typeof end === 'string' ? end : end.id) === selectedConnectionId.toString());
+    
+    svg.selectAll<SVGGElement, NodeType>(".nodes .node").each(function(d) {
+      const conn = byId.get(d.id);
+      if (conn) {
+        d.strength = getCurrentStrength(conn, clock);
+        d.level = getConnectionLevel(d.strength, levels).level;
+        d.original = conn;
+        d.halfLife = conn.halfLife;
+        d.lastContact = getDaysSinceContact(conn.lastContact, clock);
+      }
+      const radius = d.id === 'center' ? 30 : 20 + (d.level || 0) * 2;
+      const isSelected = d.id === selectedConnectionId?.toString();
+      // Determine gradient ID based on connection level
+      const gradientId = d.id === 'center' ? 'you-gradient' : `level-${d.level || 0}-gradient`;
+      
+      const nodeGroup = d3.select(this)
+        .attr("opacity", isInNeighbourhood(d.id) ? 1 : dimmedNode)
+        .attr("filter", isSelected ? "url(#glow)" : "none");
+      nodeGroup.select(".node-shape")
+        .attr("d", createOctagonPath(radius))
+        .attr("fill", `url(#${gradientId})`)
+        .attr("stroke", isSelected ? "#00EEFF" : "#00AADD")
+        .attr("stroke-width", isSelected ? 2 : 1)
+        .attr("stroke-opacity", isSelected ? 0.9 : 0.7);
+      nodeGroup.select(".bridge-ring").attr("d", createOctagonPath(radius + 7));
+      nodeGroup.select(".node-core").attr("d", createOctagonPath(radius * 0.7));
+      nodeGroup.selectAll(".node-corner").each(function(_corner, i) {
+        const [x, y] = CORNER_DIRECTIONS[i].map(unit => unit * radius);
+        d3.select(this)
+          .attr("x1", x)
+          .attr("y1", y)
+          .attr("x2", x * 1.2)
+          .attr("y2", y * 1.2);
+      });
+      nodeGroup.select(".node-name").attr("dy", d.id === 'center' ? radius + 15 : radius + 12);
+      nodeGroup.select(".node-strength")
+        .attr("dy", -radius - 8)
+        .text(Math.round(d.strength || 0).toString().padStart(2, '0'));
+    });
+    
+    // Links to YOU follow their connection's strength
+    const dormantThreshold = getDormantThreshold(levels);
+    const labelFloor = getLevelFloor(levels.length - 2, levels);
+    svg.selectAll<SVGLineElement, LinkType>(".links line")
+      .each(d => {
+        const target = typeof d.target === 'string' ? d.target : d.target.id;
+        const conn = byId.get(target);
+        if (conn) d.strength = getCurrentStrength(conn, clock);
+      })
+      .attr("stroke", d => {
+        const color = d3.color(getConnectionLevel(d.strength, levels).color);
+        if (!color) return "rgba(0, 221, 255, 0.6)";
+        color.opacity = 0.6;
+        return color.toString();
+      })
+      .attr("stroke-width", d => Math.max(1, d.strength / 20))
+      .attr("stroke-opacity", d => isInNeighbourhood(typeof d.target === 'string' ? d.target : d.target.id) ? 0.6 : dimmedLink)
+      .attr("stroke-dasharray", d => d.strength < dormantThreshold ? "4,4" : "none");
+    svg.selectAll<SVGTextElement, LinkType>(".link-labels text")
+      .attr("display", d => d.strength >= labelFloor ? null : "none")
+      .text(d => Math.round(d.strength).toString());
+    svg.selectAll<SVGLineElement, LinkType>(".peer-links line")
+      .attr("stroke-opacity", d => touchesSelection(d) ? 0.7 : dimmedPeerLink);
+  }, [connections, clock, focusMode, selectedConnectionId, size, topologyKey, relationships, tags, levels, ownerName, showBridges, setSelectedConnection]);
+  
+  // Center a node found by search, or the selection when entering focus mode
+  useEffect(() => {
+    const id = pendingCenterRef.current;
+    const position = id ? positionsRef.current.get(id) : undefined;
+    if (!svgRef.current || !zoomRef.current || !position) return;
+    pendingCenterRef.current = null;
+    d3.select(svgRef.current)
+      .transition()
+      .duration(600)
+      .call(zoomRef.current.translateTo, size.width / 2 + position.x, size.height / 2 + position.y);
+  }, [centerRequest, size]);
+  
+  const centerOn = (connection: ConnectionType) => {
+    pendingCenterRef.current = connection.id.toString();
+    setCenterRequest(n => n + 1);
+  };
+  
+  const handleSearch = () => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return;
+    const match = connections.find(conn => conn.name.toLowerCase().startsWith(query)) ||
+      connections.find(conn => conn.name.toLowerCase().includes(query));
+    setSearchMiss(!match);
+    if (!match) return;
+    setSelectedConnection(match);
+    centerOn(match);
+  };
+  
+  const resetZoom = () => {
+    if (!svgRef.current || !zoomRef.current) return;
+    d3.select(svgRef.current)
+      .transition()
+      .duration(500)
+      .call(zoomRef.current.transform, d3.zoomIdentity);
+  };
+  
+  const toggleFocusMode = () => {
+    const selected = connections.find(conn => conn.id === selectedConnectionId);
+    if (!focusMode && selected) centerOn(selected);
+    setFocusMode(!focusMode);
+  };
   
   return (
     <div ref={containerRef} className="w-full h-full relative">
       <svg ref={svgRef} className="w-full h-full"></svg>
+      
+      {/* Zoom, search and focus controls */}
+      <div className="absolute left-4 top-4 flex items-center gap-1 text-xs">
+        <input
+          type="text"
+          list="network-search-names"
+          value={searchQuery}
+          onChange={(e) => {
+            setSearchQuery(e.target.value);
+            setSearchMiss(false);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSearch();
+          }}
+          placeholder="FIND NODE..."
+          className={`w-40 bg-black/60 border px-2 py-1 tracking-wider focus:outline-none ${searchMiss ? 'border-red-700/70' : 'border-cyan-900/50 focus:border-cyan-500/50'}`}
+        />
+        <datalist id="network-search-names">
+          {connections.map(conn => (
+            <option key={conn.id} value={conn.name} />
+          ))}
+        </datalist>
+        <button
+          onClick={handleSearch}
+          className="px-2 py-1 bg-cyan-900/20 hover:bg-cyan-900/40 tracking-wider"
+        >
+          FIND
+        </button>
+        <button
+          onClick={resetZoom}
+          className="px-2 py-1 bg-cyan-900/20 hover:bg-cyan-900/40 tracking-wider"
+        >
+          RESET ZOOM
+        </button>
+        <button
+          onClick={toggleFocusMode}
+          disabled={selectedConnectionId == null && !focusMode}
+          className={`px-2 py-1 tracking-wider disabled:opacity-40 ${focusMode ? 'bg-cyan-700/40 text-cyan-100' : 'bg-cyan-900/20 hover:bg-cyan-900/40'}`}
+          title="Dim everything outside the selected connection's neighbourhood"
+        >
+          FOCUS
+        </button>
+        {searchMiss && <span className="text-red-300/80 tracking-wider ml-1">NO MATCH</span>}
+      </div>
     </div>
   );
 };
@@ -529,34 +913,177 @@ const holographicAnimations = `
   }
 `;
 
+// Continuous strength forecast, with the what-if plan drawn over passive decay
+const ForecastChart = ({
+  base,
+  planned,
+  plannedDays,
+  horizon,
+  levels
+}: {
+  base: ForecastPoint[];
+  planned: ForecastPoint[] | null;
+  plannedDays: number[];
+  horizon: number;
+  levels: LevelDefinition[];
+}) => {
+  const width = 600;
+  const height = 120;
+  const maxStrength = Math.max(70, ...base.map(point => point.strength), ...(planned || []).map(point => point.strength));
+  const yMax = Math.ceil((maxStrength + 10) / 10) * 10;
+  const x = (day: number) => (day / horizon) * width;
+  const y = (strength: number) => height - (strength / yMax) * height;
+  const toPath = (curve: ForecastPoint[]) =>
+    curve.map((point, i) => `${i === 0 ? 'M' : 'L'}${x(point.day).toFixed(1)},${y(point.strength).toFixed(1)}`).join(' ');
+  
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full h-32 bg-gradient-to-r from-cyan-900/5 to-transparent">
+        {/* Threshold markers: every rung's lower bound in view */}
+        {levels.slice(1).filter(rung => rung.minStrength <= yMax).map(rung => (
+          <line
+            key={rung.minStrength}
+            x1="0"
+            x2={width}
+            y1={y(rung.minStrength)}
+            y2={y(rung.minStrength)}
+            stroke={rung.color}
+            strokeOpacity="0.5"
+            strokeDasharray="4,4"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        
+        {/* Passive decay, filled like falling timefall */}
+        <path d={`${toPath(base)} L${width},${height} L0,${height} Z`} fill="rgba(6, 182, 212, 0.08)" />
+        <path d={toPath(base)} fill="none" stroke="#00CCEE" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+        
+        {/* The same strand with the plan carried out */}
+        {planned && (
+          <path d={toPath(planned)} fill="none" stroke="#FACC15" strokeWidth="1.5" strokeDasharray="5,3" vectorEffect="non-scaling-stroke" />
+        )}
+        {plannedDays.map((day, i) => (
+          <line key={i} x1={x(day)} x2={x(day)} y1={height - 6} y2={height} stroke="#FACC15" strokeOpacity="0.8" vectorEffect="non-scaling-stroke" />
+        ))}
+      </svg>
+      
+      {/* Time markers */}
+      <div className="flex justify-between text-xs opacity-70 mt-1">
+        <div>Now</div>
+        {[0.25, 0.5, 0.75, 1].map(fraction => (
+          <div key={fraction}>+{Math.round(horizon * fraction)}d</div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+interface PlanItemDraft {
+  connectionId: string;
+  type: string;
+  date: string;
+  repeatDays: string;
+  error: string | null;
+}
+
 // Timefall Forecast component
 const TimefallForecast = ({ 
   connections, 
-  getCurrentStrength, 
-  getProjectedStrength, 
-  getDaysUntilThreshold, 
-  getConnectionLevel 
+  activities,
+  interactionTypes,
+  gainModel,
+  plans,
+  levels,
+  onSavePlan,
+  onDeletePlan,
+  onExportPlan,
+  onExportCalendar
 }: { 
   connections: ConnectionType[];
-  getCurrentStrength: (connection: ConnectionType) => number;
-  getProjectedStrength: (connection: ConnectionType, daysInFuture: number) => number;
-  getDaysUntilThreshold: (connection: ConnectionType, threshold: number) => number;
-  getConnectionLevel: (strength: number) => ConnectionLevel;
+  activities: ActivityType[];
+  interactionTypes: InteractionTypeDefinition[];
+  gainModel: GainModel;
+  levels: LevelDefinition[];
+  plans: InteractionPlan[];
+  onSavePlan: (plan: InteractionPlan) => void;
+  onDeletePlan: (plan: InteractionPlan) => void;
+  // Repeating items are exported up to the end of the forecast horizon
+  onExportPlan: (plan: InteractionPlan, horizonDays: number) => void;
+  onExportCalendar: () => void;
 }) => {
-  const forecastDays = [7, 14, 30, 60, 90]; // Forecast time periods
-  const thresholds = [
-    { value: 15, label: 'Dormant', color: '#FF5555' },
-    { value: 30, label: 'Acquaintance', color: '#AAAAFF' },
-    { value: 60, label: 'Friend', color: '#55AAFF' }
-  ];
-  
-  // Sort connections by days until dormancy
+  const [horizon, setHorizon] = useState(DEFAULT_FORECAST_HORIZON);
+  // The plan being edited; it only becomes a saved plan on SAVE
+  const [draftItems, setDraftItems] = useState<PlannedInteraction[]>([]);
+  const [draftName, setDraftName] = useState('');
+  const [draftPlanId, setDraftPlanId] = useState<number | null>(null);
+  const [itemDraft, setItemDraft] = useState<PlanItemDraft>({ connectionId: '', type: '', date: '', repeatDays: '', error: null });
+  
+  const now = new Date();
+  const activeTypes = getActiveInteractionTypes(interactionTypes);
+  // Forget the loaded plan once it has been deleted or undone
+  const activePlanId = draftPlanId !== null && plans.some(plan => plan.id === draftPlanId) ? draftPlanId : null;
+  
+  const dormantThreshold = getDormantThreshold(levels);
+  
+  // Each curve replays the whole history at every sample, so curves are only
+  // worked out again when the network, the horizon or the draft plan changes
+  const forecastCurves = useMemo(() => {
+    const from = new Date();
+    const plannedActivities = expandPlan(draftItems, interactionTypes, from, new Date(from.getTime() + horizon * MS_PER_DAY));
+    return new Map(connections.map(connection => {
+      const connectionPlan = plannedActivities.filter(activity => activity.connectionId === connection.id);
+      return [connection.id, {
+        base: getForecastCurve(connection, activities, from, horizon, gainModel),
+        planned: connectionPlan.length > 0
+          ? getForecastCurve(connection, [...activities, ...connectionPlan], from, horizon, gainModel)
+          : null,
+        plannedDays: connectionPlan.map(activity => (activity.date.getTime() - from.getTime()) / MS_PER_DAY)
+      }];
+    }));
+  }, [connections, activities, horizon, draftItems, interactionTypes, gainModel]);
+  
+  // Sort connections by days until they fall below target
   const sortedConnections = [...connections].sort((a, b) => {
-    const aDays = getDaysUntilThreshold(a, 15);
-    const bDays = getDaysUntilThreshold(b, 15);
+    const aDays = getDaysUntilThreshold(a, getTargetStrength(a, levels));
+    const bDays = getDaysUntilThreshold(b, getTargetStrength(b, levels));
     return aDays - bDays;
   });
   
+  const addPlanItem = (): void => {
+    const connectionId = Number(itemDraft.connectionId);
+    const type = itemDraft.type || activeTypes[0]?.id;
+    const date = new Date(`${itemDraft.date}T12:00`);
+    if (!connectionId || !type || isNaN(date.getTime())) return;
+    if (date.getTime() <= now.getTime()) {
+      setItemDraft({ ...itemDraft, error: 'Planned interactions have to be in the future.' });
+      return;
+    }
+    const repeatDays = parseInt(itemDraft.repeatDays) || undefined;
+    setDraftItems([...draftItems, { id: getNextId(draftItems), connectionId, type, date, repeatDays }]);
+    setItemDraft({ ...itemDraft, date: '', repeatDays: '', error: null });
+  };
+  
+  const savePlan = (): void => {
+    const name = draftName.trim() || `Plan ${plans.length + 1}`;
+    const id = activePlanId ?? getNextId(plans);
+    const existing = plans.find(plan => plan.id === id);
+    onSavePlan({ id, name, items: draftItems, createdAt: existing?.createdAt || new Date() });
+    setDraftPlanId(id);
+    setDraftName(name);
+  };
+  
+  const loadPlan = (plan: InteractionPlan): void => {
+    setDraftPlanId(plan.id);
+    setDraftName(plan.name);
+    setDraftItems(plan.items);
+  };
+  
+  const clearDraft = (): void => {
+    setDraftPlanId(null);
+    setDraftName('');
+    setDraftItems([]);
+  };
+  
   return (
     <div className="relative">
       <div className="absolute top-0 left-0 w-2 h-px bg-cyan-400"></div>
@@ -569,10 +1096,165 @@ const TimefallForecast = ({
         <div className="text-xs opacity-70">
           Connection strength decay prediction system
         </div>
+        <button
+          onClick={onExportCalendar}
+          className="ml-auto text-xs tracking-wider px-3 py-1 border border-cyan-800/50 text-cyan-300 hover:bg-cyan-900/30 hover:shadow-[0_0_8px_rgba(0,200,255,0.2)] transition-all duration-300 relative"
+          title="Download dormancy deadlines as an iCalendar file"
+        >
+          <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-400"></div>
+          <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-400"></div>
+          EXPORT .ICS
+        </button>
+      </div>
+      
+      <div className="flex items-center space-x-1 text-xs mb-4 px-4">
+        <span className="opacity-60 mr-1">HORIZON</span>
+        {FORECAST_HORIZONS.map(days => (
+          <button
+            key={days}
+            onClick={() => setHorizon(days)}
+            className={`px-2 py-0.5 tracking-wider ${horizon === days ? 'bg-cyan-900/50 text-cyan-100' : 'bg-cyan-900/10 hover:bg-cyan-900/30'}`}
+          >
+            {days}D
+          </button>
+        ))}
+      </div>
+      
+      {/* What-if planner */}
+      <div className="p-4 mb-6 bg-yellow-900/5 border border-yellow-900/30 relative">
+        <div className="absolute top-0 left-0 w-1 h-1 bg-yellow-400"></div>
+        <div className="absolute bottom-0 right-0 w-1 h-1 bg-yellow-400"></div>
+        
+        <div className="flex items-center mb-3">
+          <div className="text-sm tracking-wider text-yellow-200 mr-3">WHAT-IF PLANNER</div>
+          <div className="text-xs opacity-60">Hypothetical interactions, drawn as a dashed curve against passive decay</div>
+        </div>
+        
+        <div className="flex flex-wrap items-end gap-2 text-xs mb-3">
+          <select
+            value={itemDraft.connectionId}
+            onChange={(e) => setItemDraft({ ...itemDraft, connectionId: e.target.value })}
+            className="bg-black/50 border border-cyan-900/50 px-2 py-1"
+          >
+            <option value="">Connection...</option>
+            {connections.map(conn => (
+              <option key={conn.id} value={conn.id}>{conn.name}</option>
+            ))}
+          </select>
+          <select
+            value={itemDraft.type || activeTypes[0]?.id || ''}
+            onChange={(e) => setItemDraft({ ...itemDraft, type: e.target.value })}
+            className="bg-black/50 border border-cyan-900/50 px-2 py-1"
+          >
+            {activeTypes.map(type => (
+              <option key={type.id} value={type.id}>{type.emoji} {type.label}</option>
+            ))}
+          </select>
+          <label className="flex flex-col">
+            <span className="opacity-60 mb-0.5">{itemDraft.repeatDays ? 'STARTING' : 'ON'}</span>
+            <input
+              type="date"
+              value={itemDraft.date}
+              onChange={(e) => setItemDraft({ ...itemDraft, date: e.target.value, error: null })}
+              className="bg-black/50 border border-cyan-900/50 px-2 py-0.5"
+            />
+          </label>
+          <label className="flex flex-col">
+            <span className="opacity-60 mb-0.5">EVERY (DAYS)</span>
+            <input
+              type="number"
+              min="1"
+              value={itemDraft.repeatDays}
+              onChange={(e) => setItemDraft({ ...itemDraft, repeatDays: e.target.value })}
+              placeholder="once"
+              className="w-20 bg-black/50 border border-cyan-900/50 px-2 py-0.5"
+            />
+          </label>
+          <button
+            onClick={addPlanItem}
+            disabled={!itemDraft.connectionId || !itemDraft.date}
+            className="px-3 py-1 bg-yellow-900/30 hover:bg-yellow-900/50 text-yellow-100 tracking-wider disabled:opacity-40"
+          >
+            + ADD
+          </button>
+        </div>
+        {itemDraft.error && (
+          <div className="text-[10px] text-red-400 mb-2">{itemDraft.error}</div>
+        )}
+        
+        {draftItems.length > 0 && (
+          <div className="space-y-1 mb-3 text-xs">
+            {draftItems.map(item => (
+              <div key={item.id} className="flex items-center bg-black/20 px-2 py-1">
+                <span className="w-28 truncate">{connections.find(conn => conn.id === item.connectionId)?.name || 'Unknown'}</span>
+                <span className="opacity-80">{describePlannedInteraction(item, interactionTypes)}</span>
+                <button
+                  onClick={() => setDraftItems(draftItems.filter(other => other.id !== item.id))}
+                  className="ml-auto opacity-60 hover:opacity-100"
+                  title="Remove from plan"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        
+        <div className="flex items-center gap-2 text-xs">
+          <input
+            type="text"
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            placeholder="Plan name"
+            className="flex-1 bg-black/50 border border-cyan-900/50 px-2 py-1"
+          />
+          <button
+            onClick={savePlan}
+            disabled={draftItems.length === 0}
+            className="px-3 py-1 bg-cyan-900/20 hover:bg-cyan-900/40 tracking-wider disabled:opacity-40"
+          >
+            {activePlanId !== null ? 'SAVE CHANGES' : 'SAVE PLAN'}
+          </button>
+          <button
+            onClick={clearDraft}
+            disabled={draftItems.length === 0 && activePlanId === null}
+            className="px-3 py-1 bg-cyan-900/10 hover:bg-cyan-900/30 tracking-wider disabled:opacity-40"
+          >
+            CLEAR
+          </button>
+        </div>
+        
+        {plans.length > 0 && (
+          <div className="mt-3 pt-3 border-t border-dashed border-yellow-900/30 space-y-1 text-xs">
+            <div className="opacity-60 tracking-wider mb-1">SAVED PLANS</div>
+            {plans.map(plan => (
+              <div key={plan.id} className={`flex items-center px-2 py-1 ${plan.id === activePlanId ? 'bg-yellow-900/20' : 'bg-black/20'}`}>
+                <span className="tracking-wider">{plan.name}</span>
+                <span className="ml-2 opacity-50">{plan.items.length} planned</span>
+                <div className="ml-auto flex space-x-1">
+                  <button onClick={() => loadPlan(plan)} className="px-2 py-0.5 bg-cyan-900/20 hover:bg-cyan-900/40">LOAD</button>
+                  <button
+                    onClick={() => onExportPlan(plan, horizon)}
+                    className="px-2 py-0.5 bg-cyan-900/20 hover:bg-cyan-900/40"
+                    title="Download the plan as calendar reminders"
+                  >
+                    REMINDERS .ICS
+                  </button>
+                  <button
+                    onClick={() => onDeletePlan(plan)}
+                    className="px-2 py-0.5 bg-red-900/20 hover:bg-red-900/40"
+                  >
+                    DELETE
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
       
       <div className="grid grid-cols-5 gap-4 mb-6">
-        {thresholds.map(threshold => (
+        {levels.slice(1).map(rung => ({ value: rung.minStrength, label: rung.label, color: rung.color })).map(threshold => (
           <div key={threshold.value} className="col-span-5 sm:col-span-1 p-3 bg-gradient-to-b from-cyan-900/10 to-transparent relative">
             <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-400"></div>
             <div className="absolute top-0 right-0 w-1 h-1 bg-cyan-400"></div>
@@ -595,14 +1277,21 @@ const TimefallForecast = ({
       <div className="space-y-8">
         {sortedConnections.map(connection => {
           const currentStrength = getCurrentStrength(connection);
-          const daysUntilDormant = getDaysUntilThreshold(connection, 15);
-          const isAtRisk = daysUntilDormant <= 14 && currentStrength > 15;
-          const willExpireSoon = daysUntilDormant <= 7 && currentStrength > 15;
+          const daysUntilDormant = getDaysUntilThreshold(connection, dormantThreshold);
+          // Warnings follow the target level when one is set, dormancy otherwise
+          const target = getTargetStrength(connection, levels);
+          const targetLevel = connection.targetLevel !== undefined ? getConnectionLevel(target, levels) : null;
+          const daysUntilTarget = getDaysUntilThreshold(connection, target);
+          const needsAdvisory = daysUntilTarget <= ADVISORY_DAYS && currentStrength > target;
+          const isBelowTarget = targetLevel !== null && currentStrength < target && currentStrength >= dormantThreshold;
+          const { base: baseCurve, planned: plannedCurve, plannedDays } = forecastCurves.get(connection.id)!;
+          const plannedDormantDay = plannedCurve ? getDayBelow(plannedCurve, dormantThreshold) : null;
+          const willExpireSoon = daysUntilTarget <= AT_RISK_DAYS && currentStrength > target;
           
           return (
             <div 
               key={connection.id} 
-              className={`p-4 relative ${willExpireSoon ? 'bg-red-900/10 border border-red-800/30' : isAtRisk ? 'bg-amber-900/10 border border-amber-800/30' : 'bg-cyan-900/10'}`}
+              className={`p-4 relative ${willExpireSoon ? 'bg-red-900/10 border border-red-800/30' : needsAdvisory || isBelowTarget ? 'bg-amber-900/10 border border-amber-800/30' : 'bg-cyan-900/10'}`}
             >
               <div className="absolute top-0 left-0 w-2 h-px bg-cyan-400"></div>
               <div className="absolute top-0 left-0 w-px h-2 bg-cyan-400"></div>
@@ -644,11 +1333,21 @@ const TimefallForecast = ({
                   <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-900"></div>
                   <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-900"></div>
                   <div className="text-xs opacity-70">TIME TO DORMANCY</div>
-                  <div className={`text-lg font-light ${willExpireSoon ? 'text-red-400' : isAtRisk ? 'text-amber-400' : ''}`}>
+                  <div className={`text-lg font-light ${willExpireSoon && !targetLevel ? 'text-red-400' : needsAdvisory && !targetLevel ? 'text-amber-400' : ''}`}>
                     {daysUntilDormant > 0 
                       ? `${daysUntilDormant} days remaining` 
                       : 'Dormant now'}
                   </div>
+                  {targetLevel && (
+                    <div className={`text-xs ${willExpireSoon ? 'text-red-400' : needsAdvisory || isBelowTarget ? 'text-amber-400' : 'opacity-70'}`}>
+                      TARGET {targetLevel.label.toUpperCase()}: {isBelowTarget ? 'below now' : `${daysUntilTarget} days`}
+                    </div>
+                  )}
+                  {plannedCurve && (
+                    <div className="text-xs text-yellow-200">
+                      WITH PLAN: {plannedDormantDay === null ? `active beyond ${horizon} days` : `dormant in ${Math.ceil(plannedDormantDay)} days`}
+                    </div>
+                  )}
                 </div>
               </div>
               
@@ -656,113 +1355,39 @@ const TimefallForecast = ({
               <div className="mb-2 flex items-center">
                 <div className="text-xs tracking-wider opacity-70 mr-2">TIMEFALL DECAY FORECAST</div>
                 <div className="flex-1 h-px bg-cyan-900/30"></div>
+                {plannedCurve && <div className="text-xs text-yellow-200 ml-2">- - WITH PLAN</div>}
               </div>
               
-              <div className="relative pt-6 pb-2">
-                {/* Time markers */}
-                <div className="absolute top-0 left-0 right-0 flex justify-between text-xs opacity-70">
-                  <div>Now</div>
-                  {forecastDays.map(days => (
-                    <div key={days} className="text-center">
-                      +{days}d
-                    </div>
-                  ))}
-                </div>
-                
-                {/* Connection strength timeline */}
-                <div className="relative h-10 bg-gradient-to-r from-cyan-900/5 to-transparent">
-                  {/* Threshold markers */}
-                  {thresholds.map(threshold => (
-                    <div 
-                      key={threshold.value}
-                      className="absolute left-0 right-0 border-t border-dashed z-10"
-                      style={{ 
-                        top: `${100 - Math.min(100, threshold.value)}%`, 
-                        borderColor: threshold.color,
-                        opacity: 0.7
-                      }}
-                    >
-                      <div 
-                        className="absolute -top-1 -right-6 text-xs"
-                        style={{ color: threshold.color }}
-                      >
-                        {threshold.value}
-                      </div>
-                    </div>
-                  ))}
-                  
-                  {/* Current and projected strengths */}
-                  <div className="absolute top-0 left-0 right-0 h-full flex items-end">
-                    <div 
-                      className="h-full flex items-end"
-                      style={{ width: '16%' }}
-                    >
-                      <div 
-                        className="w-2 bg-cyan-400"
-                        style={{ 
-                          height: `${Math.min(100, currentStrength)}%`,
-                        }}
-                      ></div>
-                    </div>
-                    
-                    {forecastDays.map((days, index) => {
-                      const projectedStrength = getProjectedStrength(connection, days);
-                      const nextLevel = getConnectionLevel(projectedStrength);
-                      let barColor = '#00CCEE';
-                      
-                      if (projectedStrength < 15) barColor = '#FF5555';
-                      else if (projectedStrength < 30) barColor = '#AAAAFF';
-                      else if (projectedStrength < 60) barColor = '#55AAFF';
-                      
-                      return (
-                        <div 
-                          key={days}
-                          className="h-full flex items-end justify-center"
-                          style={{ width: '16%' }}
-                        >
-                          <div className="flex flex-col items-center">
-                            <div 
-                              className="w-2 relative" 
-                              style={{ 
-                                height: `${Math.min(100, projectedStrength)}%`,
-                                backgroundColor: barColor,
-                                opacity: 0.8
-                              }}
-                            >
-                              {/* Animated rain effect (Timefall) */}
-                              {projectedStrength < currentStrength && (
-                                <div className="absolute -top-3 left-0 w-full overflow-hidden opacity-60">
-                                  <div className="animate-[rain_2s_linear_infinite] text-[0.5rem] leading-none text-blue-300 tracking-wider">
-                                    |<br/>|<br/>|<br/>|<br/>|<br/>|
-                                  </div>
-                                </div>
-                              )}
-                            </div>
-                            
-                            <div className="mt-2 text-xs font-light">
-                              {Math.round(projectedStrength).toString().padStart(2, '0')}
-                            </div>
-                            <div className="text-[0.6rem] opacity-70">
-                              {nextLevel.badge}
-                            </div>
-                          </div>
-                        </div>
-                      );
-                    })}
-                  </div>
-                </div>
+              <div className="relative pb-2">
+                <ForecastChart
+                  base={baseCurve}
+                  planned={plannedCurve}
+                  plannedDays={plannedDays}
+                  horizon={horizon}
+                  levels={levels}
+                />
                 
                 {/* Recommendation */}
                 {willExpireSoon && (
                   <div className="mt-4 p-2 bg-red-900/20 text-xs border-l-2 border-red-500 pl-2">
                     <div className="text-red-400 font-light animate-pulse-fast">CRITICAL TIMEFALL WARNING</div>
-                    <div className="opacity-80 mt-1">Connection will become dormant within 7 days. Immediate interaction recommended.</div>
+                    <div className="opacity-80 mt-1">
+                      {targetLevel
+                        ? `Connection will drop below its target level (${targetLevel.label}) within ${AT_RISK_DAYS} days. Immediate interaction recommended.`
+                        : `Connection will become dormant within ${AT_RISK_DAYS} days. Immediate interaction recommended.`}
+                    </div>
                   </div>
                 )}
-                {isAtRisk && !willExpireSoon && (
+                {(needsAdvisory || isBelowTarget) && !willExpireSoon && (
                   <div className="mt-4 p-2 bg-amber-900/20 text-xs border-l-2 border-amber-500 pl-2">
                     <div className="text-amber-400 font-light animate-pulse-slow">TIMEFALL ADVISORY</div>
-                    <div className="opacity-80 mt-1">Connection at risk of dormancy within 14 days. Schedule interaction soon.</div>
+                    <div className="opacity-80 mt-1">
+                      {isBelowTarget
+                        ? `Connection is below its target level (${targetLevel.label}). An interaction will lift it back.`
+                        : targetLevel
+                          ? `Connection at risk of dropping below its target level (${targetLevel.label}) within ${ADVISORY_DAYS} days. Schedule interaction soon.`
+                          : `Connection at risk of dormancy within ${ADVISORY_DAYS} days. Schedule interaction soon.`}
+                    </div>
                   </div>
                 )}
               </div>
@@ -784,7 +1409,7 @@ const TimefallForecast = ({
           
           <div className="font-light tracking-wider mb-2">ABOUT TIMEFALL FORECAST</div>
           <div className="opacity-70 text-[0.65rem] leading-relaxed">
-            The Timefall Forecast system visualizes the exponential decay of connection strength over time. 
+            The Timefall Forecast system visualizes how connection strength decays over time, along each strand's own decay curve. 
             Like the timefall rain in Death Stranding that accelerates time's effect on objects, 
             this feature shows how relationships weaken when left unattended. 
             Interact regularly to maintain connection levels above critical thresholds.
@@ -795,212 +1420,1586 @@ const TimefallForecast = ({
   );
 };
 
-// Main application component
-const StrandSystem = () => {
-  // State management
-  const [connections, setConnections] = useState<ConnectionType[]>([]);
-  const [selectedConnection, setSelectedConnection] = useState<ConnectionType | null>(null);
-  const [activities, setActivities] = useState<ActivityType[]>([]);
-  const [statsView, setStatsView] = useState('network'); // 'network', 'star-chart', 'interaction-log', 'timefall-forecast'
-  const [showAddConnectionModal, setShowAddConnectionModal] = useState(false);
-  const [newConnection, setNewConnection] = useState({
-    name: '',
-    strength: 30,
-    halfLife: 21,
-    scores: {
-      communication: 30,
-      reliability: 30,
-      emotional: 30,
-      shared: 30,
-      support: 30
-    }
-  });
+// Weekly maintenance agenda generated under a social-time budget
+const MaintenanceAgenda = ({
+  connections,
+  activities,
+  interactionTypes,
+  gainModel,
+  levels,
+  budget,
+  plan,
+  onPlan,
+  onDone
+}: {
+  connections: ConnectionType[];
+  activities: ActivityType[];
+  interactionTypes: InteractionTypeDefinition[];
+  gainModel: GainModel;
+  levels: LevelDefinition[];
+  budget: MaintenanceBudget;
+  plan: MaintenancePlan | null;
+  onPlan: (budget: MaintenanceBudget) => void;
+  onDone: (item: MaintenanceItem) => void;
+}) => {
+  const [budgetDraft, setBudgetDraft] = useState<MaintenanceBudget>(budget);
   
-  // Sample data for initial display
+  // Start over from the saved budget after a profile switch, import or undo
   useEffect(() => {
-    const sampleConnections = [
-      { id: 1, name: 'Sam', strength: 75, lastContact: new Date(2025, 4, 15), halfLife: 21, 
-        scores: { communication: 80, reliability: 70, emotional: 85, shared: 65, support: 75 } },
-      { id: 2, name: 'Fragile', strength: 45, lastContact: new Date(2025, 4, 10), halfLife: 14, 
-        scores: { communication: 50, reliability: 40, emotional: 55, shared: 35, support: 45 } },
-      { id: 3, name: 'Deadman', strength: 28, lastContact: new Date(2025, 4, 5), halfLife: 30, 
-        scores: { communication: 30, reliability: 25, emotional: 35, shared: 20, support: 30 } },
-      { id: 4, name: 'Heartman', strength: 95, lastContact: new Date(2025, 4, 16), halfLife: 14, 
-        scores: { communication: 90, reliability: 100, emotional: 95, shared: 85, support: 105 } },
-      { id: 5, name: 'Mama', strength: 15, lastContact: new Date(2025, 3, 20), halfLife: 21, 
-        scores: { communication: 15, reliability: 20, emotional: 10, shared: 15, support: 15 } },
-    ];
-    
-    const sampleActivities = [
-      { id: 1, connectionId: 1, type: 'call', points: 8, date: new Date(2025, 4, 15), notes: 'Discussed upcoming projects' },
-      { id: 2, connectionId: 4, type: 'in-person', points: 15, date: new Date(2025, 4, 16), notes: 'Coffee meetup' },
-      { id: 3, connectionId: 2, type: 'text', points: 3, date: new Date(2025, 4, 10), notes: 'Quick check-in' },
-      { id: 4, connectionId: 3, type: 'react', points: 1, date: new Date(2025, 4, 5), notes: 'Liked photo' },
-      { id: 5, connectionId: 5, type: 'text', points: 3, date: new Date(2025, 3, 20), notes: 'Birthday wishes' },
-    ];
-    
-    setConnections(sampleConnections);
-    setActivities(sampleActivities);
-  }, []);
-
-  // Calculate connection level based on strength
-  const getConnectionLevel = (strength: number): ConnectionLevel => {
-    if (strength < 15) return { level: 0, label: 'Dormant', badge: '✖️' };
-    if (strength < 30) return { level: 1, label: 'Acquaintance', badge: '★' };
-    if (strength < 60) return { level: 2, label: 'Friend', badge: '★★' };
-    if (strength < 100) return { level: 3, label: 'Close Friend', badge: '★★★' };
-    return { level: 4, label: 'Inner Circle', badge: '★★★★★' };
-  };
-
-  // Calculate days since last contact
-  const getDaysSinceContact = (lastContact: Date): number => {
-    const now = new Date();
-    const diffTime = Math.abs(now.getTime() - lastContact.getTime());
-    return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  };
-
-  // Calculate current strength after decay
-  const getCurrentStrength = (connection: ConnectionType): number => {
-    const daysPassed = getDaysSinceContact(connection.lastContact);
-    return connection.strength * Math.pow(0.5, daysPassed / connection.halfLife);
-  };
-
-  // Calculate projected strength for a future date
-  const getProjectedStrength = (connection: ConnectionType, daysInFuture: number): number => {
-    const currentStrength = getCurrentStrength(connection);
-    return currentStrength * Math.pow(0.5, daysInFuture / connection.halfLife);
-  };
-
-  // Predict days until connection falls below threshold
-  const getDaysUntilThreshold = (connection: ConnectionType, threshold: number): number => {
-    const currentStrength = getCurrentStrength(connection);
-    if (currentStrength <= threshold) return 0;
-    
-    // S(t+Δ) = S(t) * 0.5^(Δ/τ)
-    // Solve for Δ: Δ = τ * log_0.5(S(t+Δ)/S(t))
-    // For S(t+Δ) = threshold, Δ = τ * log_0.5(threshold/S(t))
-    
-    const logBase = (x: number, base: number): number => Math.log(x) / Math.log(base);
-    const daysUntil = connection.halfLife * logBase(threshold / currentStrength, 0.5);
-    
-    return Math.ceil(daysUntil);
-  };
-
-  // Add new interaction
-  const addInteraction = (connectionId: number, type: string, notes = ''): void => {
-    const pointsMap: Record<string, number> = {
-      'react': 1,
-      'text': 3,
-      'call': 8,
-      'game': 10,
-      'in-person': 15,
-      'day-trip': 25
-    };
-    
-    const points = pointsMap[type] || 0;
-    const newActivity = {
-      id: activities.length + 1,
-      connectionId,
-      type,
-      points,
-      date: new Date(),
-      notes
-    };
-    
-    setActivities([newActivity, ...activities]);
-    
-    // Update connection strength
-    setConnections(connections.map(conn => {
-      if (conn.id === connectionId) {
-        const newStrength = Math.min(conn.strength + points, 120); // Cap at 120 for visual purposes
-        return {
-          ...conn,
-          strength: newStrength,
-          lastContact: new Date()
-        };
-      }
-      return conn;
-    }));
+    setBudgetDraft(budget);
+  }, [budget]);
+  
+  const activeTypes = getActiveInteractionTypes(interactionTypes);
+  
+  const setCount = (typeId: string, count: number): void => {
+    setBudgetDraft({ ...budgetDraft, perWeek: { ...budgetDraft.perWeek, [typeId]: Math.max(0, count) } });
   };
+  
+  const divergence = plan ? getPlanDivergence(plan, activities) : null;
+  const hasDiverged = !!divergence && (divergence.overdue.length > 0 || divergence.unplanned.length > 0);
+  const weeks = plan ? plan.weeks : budgetDraft.weeks;
+  const withoutPlan = getMaintenanceCoverage(connections, activities, weeks, gainModel, systemClock, levels);
+  const withPlan = plan
+    ? getMaintenanceCoverage(connections, [...activities, ...getPendingActivities(plan.items, interactionTypes)], weeks, gainModel, systemClock, levels)
+    : null;
+  
+  // Items grouped by the planned week they fall in
+  const agenda = plan
+    ? Array.from({ length: plan.weeks }, (_, week) => {
+      const start = new Date(plan.generatedAt.getTime() + week * 7 * MS_PER_DAY);
+      const end = new Date(start.getTime() + 7 * MS_PER_DAY);
+      return {
+        week,
+        start,
+        end,
+        items: plan.items.filter(item => item.date.getTime() >= start.getTime() && (item.date.getTime() < end.getTime() || week === plan.weeks - 1))
+      };
+    })
+    : [];
+  
+  return (
+    <div className="relative">
+      <div className="absolute top-0 left-0 w-2 h-px bg-cyan-400"></div>
+      <div className="absolute top-0 left-0 w-px h-2 bg-cyan-400"></div>
+      <div className="absolute top-0 right-0 w-2 h-px bg-cyan-400"></div>
+      <div className="absolute top-0 right-0 w-px h-2 bg-cyan-400"></div>
+      
+      <div className="flex items-center mb-6 bg-gradient-to-r from-cyan-900/10 to-transparent px-4 py-2">
+        <div className="text-xl font-light tracking-wider mr-3">MAINTENANCE PLAN</div>
+        <div className="text-xs opacity-70">
+          Weekly contact schedule under your social-time budget
+        </div>
+      </div>
+      
+      {/* Budget */}
+      <div className="p-4 mb-6 bg-cyan-900/10 relative">
+        <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-400"></div>
+        <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-400"></div>
+        
+        <div className="text-xs tracking-wider opacity-70 mb-3">WEEKLY BUDGET</div>
+        <div className="flex flex-wrap gap-2 mb-4">
+          {activeTypes.map(type => {
+            const count = budgetDraft.perWeek[type.id] || 0;
+            return (
+              <div key={type.id} className={`flex items-center text-xs px-2 py-1 ${count > 0 ? 'bg-cyan-900/30' : 'bg-black/20 opacity-70'}`}>
+                <span className="mr-2">{type.emoji} {type.label}</span>
+                <button onClick={() => setCount(type.id, count - 1)} className="px-1.5 hover:bg-cyan-900/40" disabled={count === 0}>−</button>
+                <span className="w-5 text-center font-mono">{count}</span>
+                <button onClick={() => setCount(type.id, count + 1)} className="px-1.5 hover:bg-cyan-900/40">+</button>
+              </div>
+            );
+          })}
+        </div>
+        
+        <div className="flex items-center text-xs">
+          <span className="opacity-70 mr-2">PLAN AHEAD</span>
+          <select
+            value={budgetDraft.weeks}
+            onChange={(e) => setBudgetDraft({ ...budgetDraft, weeks: Number(e.target.value) })}
+            className="bg-black/50 border border-cyan-900/50 px-2 py-0.5"
+          >
+            {Array.from({ length: MAX_PLAN_WEEKS }, (_, i) => i + 1).map(n => (
+              <option key={n} value={n}>{n} week{n === 1 ? '' : 's'}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onPlan(budgetDraft)}
+            disabled={connections.length === 0 || !Object.values(budgetDraft.perWeek).some(count => count > 0)}
+            className="ml-auto px-4 py-1 tracking-wider border border-cyan-800/50 text-cyan-300 hover:bg-cyan-900/30 disabled:opacity-40 relative"
+          >
+            <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-400"></div>
+            <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-400"></div>
+            {plan ? 'RE-PLAN' : 'GENERATE PLAN'}
+          </button>
+        </div>
+      </div>
+      
+      {/* Reality check */}
+      {plan && divergence && hasDiverged && (
+        <div className="mb-6 p-3 bg-amber-900/20 text-xs border-l-2 border-amber-500 flex items-center">
+          <div>
+            <div className="text-amber-400 font-light">PLAN OUT OF DATE</div>
+            <div className="opacity-80 mt-1">
+              {[
+                divergence.overdue.length > 0 && `${divergence.overdue.length} planned contact${divergence.overdue.length === 1 ? '' : 's'} missed`,
+                divergence.unplanned.length > 0 && `${divergence.unplanned.length} unplanned interaction${divergence.unplanned.length === 1 ? '' : 's'} logged`
+              ].filter(Boolean).join(', ')} since the plan was made.
+            </div>
+          </div>
+          <button
+            onClick={() => onPlan(budgetDraft)}
+            className="ml-auto px-3 py-1 bg-amber-900/40 hover:bg-amber-900/60 text-amber-100 tracking-wider"
+          >
+            RE-PLAN
+          </button>
+        </div>
+      )}
+      
+      {/* Coverage */}
+      <div className="grid grid-cols-2 gap-4 mb-6">
+        <div className="p-3 bg-black/20 relative">
+          <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-900"></div>
+          <div className="text-xs opacity-70">AT TARGET WITHOUT A PLAN</div>
+          <div className="text-xl font-light tracking-tighter">{withoutPlan.covered} / {withoutPlan.total}</div>
+        </div>
+        <div className="p-3 bg-black/20 relative">
+          <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-900"></div>
+          <div className="text-xs opacity-70">AT TARGET WITH THE PLAN</div>
+          <div className="text-xl font-light tracking-tighter text-cyan-300">{withPlan ? `${withPlan.covered} / ${withPlan.total}` : '--'}</div>
+        </div>
+      </div>
+      
+      {/* Agenda */}
+      {!plan ? (
+        <div className="text-center py-12 text-cyan-300/60 text-sm">
+          Set a weekly budget and generate a plan to see who to contact, how and when.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {agenda.map(({ week, start, end, items }) => (
+            <div key={week} className="p-3 bg-cyan-900/5 border border-cyan-900/30 relative">
+              <div className="absolute top-0 left-0 w-2 h-px bg-cyan-400"></div>
+              <div className="absolute top-0 left-0 w-px h-2 bg-cyan-400"></div>
+              
+              <div className="flex items-baseline mb-2">
+                <div className="text-sm tracking-wider mr-3">WEEK {week + 1}</div>
+                <div className="text-xs opacity-60">
+                  {start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – {new Date(end.getTime() - MS_PER_DAY).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                </div>
+              </div>
+              
+              {items.length === 0 ? (
+                <div className="text-xs opacity-50">Nothing needed this week.</div>
+              ) : (
+                <div className="space-y-1">
+                  {items.map(item => {
+                    const connection = connections.find(conn => conn.id === item.connectionId);
+                    const { emoji, label } = getInteractionDisplay(interactionTypes, item.type);
+                    const isDone = item.activityId !== undefined;
+                    const isOverdue = !isDone && divergence?.overdue.includes(item);
+                    return (
+                      <div key={item.id} className={`flex items-center text-xs px-2 py-1.5 ${isDone ? 'bg-cyan-900/20 opacity-60' : isOverdue ? 'bg-red-900/20' : 'bg-black/20'}`}>
+                        <span className={`w-24 font-mono ${isOverdue ? 'text-red-300' : 'opacity-70'}`}>
+                          {item.date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                        </span>
+                        <span className="mr-2">{emoji}</span>
+                        <span className="tracking-wider mr-2">{label}</span>
+                        <span className="opacity-80">with {connection?.name || 'Unknown'}</span>
+                        {connection && !isDone && (
+                          <span className="ml-2 opacity-50">
+                            now {Math.round(getCurrentStrength(connection))}, target {getMaintenanceTarget(connection, systemClock, levels)}
+                          </span>
+                        )}
+                        {isDone ? (
+                          <span className="ml-auto text-cyan-300 tracking-wider">✓ DONE</span>
+                        ) : (
+                          <button
+                            onClick={() => onDone(item)}
+                            disabled={!connection}
+                            className="ml-auto px-2 py-0.5 bg-cyan-900/30 hover:bg-cyan-900/50 tracking-wider disabled:opacity-40"
+                            title="Log this interaction now"
+                          >
+                            MARK DONE
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
 
-  // Filter connections that need attention (below threshold)
-  const getNeedAttentionConnections = () => {
-    return connections.filter(conn => {
-      const currentStrength = getCurrentStrength(conn);
-      return currentStrength < 15;
+// Profile being created (`id` null) or renamed
+interface ProfileDraft {
+  id: string | null;
+  name: string;
+  ownerName: string;
+}
+
+// Encryption settings; `current` is asked for once encryption is on
+interface EncryptionDraft {
+  current: string;
+  next: string;
+  confirm: string;
+  idleLockMinutes: number;
+  error: string | null;
+  isBusy: boolean;
+}
+
+// Passphrase prompt for an encrypted backup; `text` is the file being imported
+interface BackupPassphraseDraft {
+  mode: 'export' | 'import';
+  text: string;
+  passphrase: string;
+  confirm: string;
+  error: string | null;
+  isBusy: boolean;
+}
+
+interface InteractionTypeDraft {
+  id: string | null;
+  label: string;
+  emoji: string;
+  points: number;
+  scores: Partial<ConnectionScores>;
+}
+
+const SCORE_KEYS: (keyof ConnectionScores)[] = ['communication', 'reliability', 'emotional', 'shared', 'support'];
+
+const GAIN_MODEL_FIELDS: { key: keyof GainModel; label: string; hint: string; step: string }[] = [
+  { key: 'saturationStart', label: 'SATURATION START', hint: 'Gains taper off above this strength', step: '1' },
+  { key: 'ceiling', label: 'CEILING', hint: 'Strength approaches but never passes this value', step: '1' },
+  { key: 'revivalThreshold', label: 'REVIVAL BELOW', hint: 'Strands weaker than this get the revival bonus', step: '1' },
+  { key: 'revivalBonus', label: 'REVIVAL BONUS ×', hint: 'Multiplier for interactions that revive a fading strand', step: '0.1' },
+  { key: 'cooldownDays', label: 'COOLDOWN (DAYS)', hint: 'Window for repeated interactions of the same type', step: '0.5' },
+  { key: 'cooldownFactor', label: 'COOLDOWN FACTOR ×', hint: 'Applied once per earlier same-type interaction in the window', step: '0.05' }
+];
+
+const isValidGainModel = (model: GainModel): boolean =>
+  model.saturationStart > 0 &&
+  model.ceiling > model.saturationStart &&
+  model.revivalBonus >= 1 &&
+  model.cooldownDays >= 0 &&
+  model.cooldownFactor >= 0 && model.cooldownFactor <= 1;
+
+// Time scrubber range: back through the history, forward to the forecast horizon
+const SCRUB_MAX_PAST_DAYS = 365;
+const SCRUB_FORECAST_DAYS = 90;
+// Playback covers the whole range in about this many frames
+const SCRUB_PLAY_FRAMES = 80;
+const SCRUB_FRAME_MS = 150;
+
+// How often an open tab delivers due reminders
+const REMINDER_CHECK_MS = 60 * 1000;
+
+// Plan one profile's next batch into its outbox; an encrypted network's
+// batch names no one
+const planProfileReminders = async (
+  profileId: string,
+  data: { connections: ConnectionType[]; settings: AppSettings } | null,
+  redact: boolean
+): Promise<void> => {
+  if (!data || !data.settings.reminders.enabled) {
+    await scheduleReminderBatch(profileId, null);
+    return;
+  }
+  const [snoozes, lastDeliveredAt] = await Promise.all([readSnoozes(profileId), readLastDelivered(profileId)]);
+  const batch = planReminderBatch(
+    profileId, data.connections, data.settings.reminders, snoozes, lastDeliveredAt, systemClock, data.settings.levels
+  );
+  await scheduleReminderBatch(profileId, batch && redact ? redactReminderBatch(batch) : batch);
+};
+
+const REMINDER_HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const formatHour = (hour: number): string => `${hour.toString().padStart(2, '0')}:00`;
+
+const IDLE_LOCK_OPTIONS = [1, 5, 15, 30, 60];
+// How often an unlocked session checks for idleness
+const IDLE_CHECK_MS = 15 * 1000;
+
+// Main application component
+const StrandSystem = () => {
+  // State management
+  const [connections, setConnections] = useState<ConnectionType[]>([]);
+  const [selectedConnectionId, setSelectedConnectionId] = useState<number | null>(null);
+  const [activities, setActivities] = useState<ActivityType[]>([]);
+  const [relationships, setRelationships] = useState<RelationshipType[]>([]);
+  const [tags, setTags] = useState<TagDefinition[]>(DEFAULT_TAGS);
+  const [interactionTypes, setInteractionTypes] = useState<InteractionTypeDefinition[]>(DEFAULT_INTERACTION_TYPES);
+  const [plans, setPlans] = useState<InteractionPlan[]>([]);
+  const [maintenancePlan, setMaintenancePlan] = useState<MaintenancePlan | null>(null);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [statsView, setStatsView] = useState('network'); // 'network', 'star-chart', 'interaction-log', 'timefall-forecast', 'maintenance'
+  const [starChartOverlay, setStarChartOverlay] = useState<number | null>(30);
+  const [starChartMode, setStarChartMode] = useState<'chart' | 'ranking'>('chart');
+  // Compared alongside the selection: other connections, or one group's average
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+  const [compareGroupId, setCompareGroupId] = useState<string | null>(null);
+  const [rankingDimension, setRankingDimension] = useState<keyof ConnectionScores>('communication');
+  const [showBridges, setShowBridges] = useState(false);
+  // Days from now shown by the network view; negative is the past
+  const [scrubDays, setScrubDays] = useState(0);
+  const [isScrubPlaying, setIsScrubPlaying] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [showTagsModal, setShowTagsModal] = useState(false);
+  const [newTagLabel, setNewTagLabel] = useState('');
+  const [relationshipDraft, setRelationshipDraft] = useState<{ targetId: string; kind: RelationshipKind; strength: string }>(
+    { targetId: '', kind: 'friend', strength: '' }
+  );
+  const [showAddConnectionModal, setShowAddConnectionModal] = useState(false);
+  const [editingConnectionId, setEditingConnectionId] = useState<number | null>(null);
+  const [editingActivityId, setEditingActivityId] = useState<number | null>(null);
+  const [activityDraft, setActivityDraft] = useState<{ type: string; points: number; date: string; duration: string; notes: string; error: string | null }>({ type: '', points: 0, date: '', duration: '', notes: '', error: null });
+  const [detailedLog, setDetailedLog] = useState<{ type: string; date: string; duration: string; notes: string; error: string | null } | null>(null);
+  const [newConnection, setNewConnection] = useState({
+    name: '',
+    strength: 30,
+    halfLife: 21,
+    decayCurve: 'exponential' as DecayCurveType,
+    halfLifeMode: 'manual' as HalfLifeMode,
+    tags: [] as string[],
+    targetLevel: undefined as number | undefined,
+    scores: {
+      communication: 30,
+      reliability: 30,
+      emotional: 30,
+      shared: 30,
+      support: 30
+    }
+  });
+  
+  // Always read the selected connection from state so cached strength stays current
+  const selectedConnection = connections.find(conn => conn.id === selectedConnectionId) || null;
+  // How each replayed interaction contributed, for the log tooltips
+  const gainBreakdowns = statsView === 'interaction-log'
+    ? new Map(connections.flatMap(conn => [...getGainBreakdowns(conn, activities, settings.gainModel)]))
+    : null;
+  
+  // Star chart scores include the effects of logged interactions
+  const selectedScores = selectedConnection ? getLiveScores(selectedConnection, activities, interactionTypes) : null;
+  const overlayScores = selectedConnection && starChartOverlay !== null
+    ? getScoresAt(selectedConnection, activities, interactionTypes, new Date(Date.now() - starChartOverlay * MS_PER_DAY))
+    : null;
+  // Radar series: the selection first, then compared connections or a group average
+  const compareGroup = compareGroupId ? getTag(tags, compareGroupId) : undefined;
+  const comparedConnections = compareIds
+    .filter(id => id !== selectedConnectionId)
+    .map(id => connections.find(conn => conn.id === id))
+    .filter((conn): conn is ConnectionType => conn !== undefined)
+    .slice(0, MAX_COMPARED - 1);
+  const groupAverage = compareGroup
+    ? averageScores(connections.filter(conn => conn.tags.includes(compareGroup.id)).map(conn => getLiveScores(conn, activities, interactionTypes)))
+    : null;
+  const starChartSeries = selectedConnection && selectedScores ? [
+    { id: 'selected', label: selectedConnection.name, color: COMPARE_COLORS[0], scores: selectedScores },
+    ...(compareGroup && groupAverage
+      ? [{ id: `group-${compareGroup.id}`, label: `${compareGroup.label} average`, color: compareGroup.color, scores: groupAverage }]
+      : comparedConnections.map((conn, i) => ({
+        id: conn.id.toString(),
+        label: conn.name,
+        color: COMPARE_COLORS[i + 1],
+        scores: getLiveScores(conn, activities, interactionTypes)
+      })))
+  ] : [];
+  const isComparing = starChartSeries.length > 1;
+  const setSelectedConnection = useCallback((connection: ConnectionType | null) => {
+    setSelectedConnectionId(connection ? connection.id : null);
+    setDetailedLog(null);
+  }, []);
+  
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<ParsedBackup | null>(null);
+  const [importSummary, setImportSummary] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [vcardImport, setVcardImport] = useState<{ contacts: VCardContact[]; selected: number[] } | null>(null);
+  const [vcardDefaults, setVcardDefaults] = useState({ strength: 30, halfLife: 21 });
+  const vcardInputRef = useRef<HTMLInputElement>(null);
+  const [history, setHistory] = useState<HistoryStack>(loadSessionHistory);
+  const [toast, setToast] = useState<{ message: string; action: 'undo' | 'redo' | null } | null>(null);
+  const [showInteractionTypesModal, setShowInteractionTypesModal] = useState(false);
+  const [typeDraft, setTypeDraft] = useState<InteractionTypeDraft | null>(null);
+  const [gainModelDraft, setGainModelDraft] = useState<GainModel | null>(null);
+  const [reminderDraft, setReminderDraft] = useState<ReminderSettings | null>(null);
+  const [levelsDraft, setLevelsDraft] = useState<LevelDefinition[] | null>(null);
+  const [reminderPermission, setReminderPermission] = useState(getReminderPermission);
+  const [reminderError, setReminderError] = useState<string | null>(null);
+  // Notification clicks waiting for the network to load
+  const [pendingReminderAction, setPendingReminderAction] = useState<ReminderActionMessage | null>(takeReminderActionFromUrl);
+  // Set once a new build is waiting; calling it reloads onto that build
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState(DEFAULT_PROFILE_ID);
+  const [showProfilesModal, setShowProfilesModal] = useState(false);
+  const [profileDraft, setProfileDraft] = useState<ProfileDraft | null>(null);
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId);
+  // Passphrase encryption: whether stored data is sealed, and whether this session has the key
+  const [isEncrypted, setIsEncrypted] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+  const [idleLockMinutes, setIdleLockMinutes] = useState(DEFAULT_IDLE_LOCK_MINUTES);
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [encryptionDraft, setEncryptionDraft] = useState<EncryptionDraft | null>(null);
+  const [backupPassphraseDraft, setBackupPassphraseDraft] = useState<BackupPassphraseDraft | null>(null);
+  
+  // Put a stored network into state. The cached strength is rebuilt from the
+  // activity history on every load.
+  const applyStoredData = useCallback((data: PersistedData) => {
+    const adapted = data.connections.map(conn => applyAdaptiveHalfLife(conn, data.activities));
+    setConnections(rebuildConnections(adapted, data.activities, data.settings.gainModel));
+    setActivities(data.activities);
+    setRelationships(data.relationships);
+    setTags(data.tags);
+    setInteractionTypes(data.interactionTypes);
+    setPlans(data.plans);
+    setMaintenancePlan(data.maintenancePlan);
+    setSettings(data.settings);
+  }, []);
+  
+  // Load the profile list and the active profile's network, seeding the demo
+  // network on first run
+  const loadNetwork = useCallback(async () => {
+    const index = await loadProfileIndex();
+    const data = await loadData(index.activeId);
+    setProfiles(index.profiles);
+    setActiveProfileId(index.activeId);
+    if (data) {
+      applyStoredData(data);
+    } else if (index.activeId !== DEFAULT_PROFILE_ID) {
+      applyStoredData(createEmptyData());
+    } else {
+      setConnections(getSampleConnections());
+      setActivities(getSampleActivities());
+      setRelationships(getSampleRelationships());
+    }
+    setIsLoaded(true);
+    requestPersistentStorage().catch(() => undefined);
+  }, [applyStoredData]);
+  
+  // An encrypted network waits on the lock screen until it is unlocked
+  useEffect(() => {
+    loadEncryptionHeader()
+      .then(header => {
+        setIsEncrypted(header !== null);
+        if (header) setIdleLockMinutes(header.idleLockMinutes);
+        if (header && !isStorageUnlocked()) {
+          setIsLocked(true);
+          return;
+        }
+        return loadNetwork();
+      })
+      .catch(error => {
+        // Leave stored data untouched so it is not overwritten by an empty network
+        setStorageError(error instanceof Error ? error.message : String(error));
+      });
+  }, [loadNetwork]);
+  
+  // Persist every change once the initial load has completed
+  useEffect(() => {
+    if (!isLoaded) return;
+    saveData({ connections, activities, relationships, tags, interactionTypes, plans, maintenancePlan, settings }, activeProfileId).catch(error => {
+      setStorageError(error instanceof Error ? error.message : String(error));
     });
+  }, [connections, activities, relationships, tags, interactionTypes, plans, maintenancePlan, settings, activeProfileId, isLoaded]);
+  
+  useEffect(() => {
+    if (!isLoaded) return;
+    saveProfileIndex({ activeId: activeProfileId, profiles }).catch(error => {
+      setStorageError(error instanceof Error ? error.message : String(error));
+    });
+  }, [profiles, activeProfileId, isLoaded]);
+  
+  // Offline shell: production builds run from the service worker's cache,
+  // and a newly shipped build is offered rather than swapped in mid-session
+  useEffect(() => {
+    if (!import.meta.env.PROD) return;
+    let cancelled = false;
+    let stopWatching: (() => void) | null = null;
+    registerServiceWorker()
+      .then(registration => {
+        if (!registration || cancelled) return;
+        stopWatching = watchForUpdates(registration, apply => setApplyUpdate(() => apply));
+      })
+      // Without a worker the app still runs, just not offline
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+      stopWatching?.();
+    };
+  }, []);
+  
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+  
+  // Keep the undo history for the rest of the browser session. Snapshots are
+  // plain text, so with encryption on they stay in memory only.
+  useEffect(() => {
+    if (isEncrypted) clearSessionHistory();
+    else saveSessionHistory(history);
+  }, [history, isEncrypted]);
+  
+  // Hide the toast after a few seconds
+  useEffect(() => {
+    if (!toast) return;
+    const timer = window.setTimeout(() => setToast(null), 5000);
+    return () => window.clearTimeout(timer);
+  }, [toast]);
+  
+  // Snapshot the current state before a change so it can be undone
+  const recordHistory = (label: string): void => {
+    setHistory(prev => pushHistory(prev, { label, snapshot: serializeData({ connections, activities, relationships, tags, interactionTypes, plans, maintenancePlan, settings }) }));
+    setToast({ message: label, action: 'undo' });
   };
   
-  // Handle adding a new connection
-  const handleAddConnection = () => {
-    const newId = Math.max(0, ...connections.map(c => c.id)) + 1;
-    const connectionToAdd = {
-      ...newConnection,
-      id: newId,
-      lastContact: new Date()
+  // Restore a serialized snapshot from the history stack
+  const restoreSnapshot = (snapshot: string): void => {
+    const data = deserializeData(snapshot);
+    setConnections(data.connections);
+    setActivities(data.activities);
+    setRelationships(data.relationships);
+    setTags(data.tags);
+    setInteractionTypes(data.interactionTypes);
+    setPlans(data.plans);
+    setMaintenancePlan(data.maintenancePlan);
+    setSettings(data.settings);
+    setEditingActivityId(null);
+  };
+  
+  const handleUndo = (): void => {
+    const result = undoHistory(history, serializeData({ connections, activities, relationships, tags, interactionTypes, plans, maintenancePlan, settings }));
+    if (!result) return;
+    restoreSnapshot(result.entry.snapshot);
+    setHistory(result.stack);
+    setToast({ message: `Undone: ${result.entry.label}`, action: 'redo' });
+  };
+  
+  const handleRedo = (): void => {
+    const result = redoHistory(history, serializeData({ connections, activities, relationships, tags, interactionTypes, plans, maintenancePlan, settings }));
+    if (!result) return;
+    restoreSnapshot(result.entry.snapshot);
+    setHistory(result.stack);
+    setToast({ message: `Redone: ${result.entry.label}`, action: 'undo' });
+  };
+  
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), leaving text fields to their native undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+      event.preventDefault();
+      if (event.shiftKey) handleRedo();
+      else handleUndo();
     };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+  
+  // Replace the current network with the demo data
+  const loadDemoNetwork = (): void => {
+    if (connections.length > 0 && !window.confirm('Replace your current network with the demo network?')) return;
+    recordHistory('Loaded demo network');
+    setConnections(getSampleConnections());
+    setActivities(getSampleActivities());
+    setRelationships(getSampleRelationships());
+    setTags(DEFAULT_TAGS);
+    setInteractionTypes(DEFAULT_INTERACTION_TYPES);
+    setPlans([]);
+    setMaintenancePlan(null);
+    setSelectedConnection(null);
+  };
+  
+  // Download a full JSON backup of the open network
+  const handleExportBackup = (): void => {
+    const backup = createBackup({ connections, activities, relationships, tags, interactionTypes, plans, maintenancePlan, settings });
+    const slug = slugify(activeProfile?.name || '', 'network');
+    downloadFile(`strand-friends-${slug}-backup-${getFileDateStamp()}.json`, backup, 'application/json');
+  };
+  
+  // Download projected dormancy dates as an iCalendar feed
+  const handleExportCalendar = (): void => {
+    const calendar = createDormancyCalendar(connections, activeProfileId, new Date(), settings.levels);
+    downloadFile(`strand-friends-timefall-${getFileDateStamp()}.ics`, calendar, 'text/calendar');
+  };
+  
+  // Download a what-if plan as calendar reminders
+  const handleExportPlan = (plan: InteractionPlan, horizonDays: number): void => {
+    const now = new Date();
+    const until = new Date(now.getTime() + horizonDays * MS_PER_DAY);
+    const calendar = createPlanCalendar(plan, activeProfileId, connections, interactionTypes, until, now);
+    const slug = slugify(plan.name, 'plan');
+    downloadFile(`strand-friends-${slug}-${getFileDateStamp()}.ics`, calendar, 'text/calendar');
+  };
+  
+  // Validate a chosen backup file and open the import review modal
+  const handleImportFile = async (file: File): Promise<void> => {
+    setImportSummary(null);
+    try {
+      const text = await readFileAsText(file);
+      if (isEncryptedBackup(text)) {
+        setBackupPassphraseDraft({ mode: 'import', text, passphrase: '', confirm: '', error: null, isBusy: false });
+        return;
+      }
+      setPendingImport(parseBackup(text));
+    } catch (error) {
+      setPendingImport({
+        data: null,
+        issues: [{ section: 'file', message: error instanceof Error ? error.message : String(error) }],
+        exportedAt: null
+      });
+    }
+  };
+  
+  // Apply a validated backup in replace or merge mode
+  const applyImport = (mode: ImportMode): void => {
+    if (!pendingImport?.data) return;
+    const incoming = pendingImport.data;
+    recordHistory(mode === 'replace' ? 'Replaced network from backup' : 'Merged backup into network');
     
-    setConnections([...connections, connectionToAdd]);
-    setShowAddConnectionModal(false);
-    setNewConnection({
-      name: '',
-      strength: 30,
-      halfLife: 21,
-      scores: {
-        communication: 30,
-        reliability: 30,
-        emotional: 30,
-        shared: 30,
-        support: 30
+    if (mode === 'replace') {
+      applyStoredData(incoming);
+      setImportSummary(`Replaced network: ${incoming.connections.length} connections, ${incoming.activities.length} interactions.`);
+    } else {
+      const result = mergeData({ connections, activities, relationships, tags, interactionTypes, plans, maintenancePlan, settings }, incoming);
+      setConnections(rebuildConnections(result.data.connections, result.data.activities, settings.gainModel));
+      setActivities(result.data.activities);
+      setRelationships(result.data.relationships);
+      setTags(result.data.tags);
+      setInteractionTypes(result.data.interactionTypes);
+      setPlans(result.data.plans);
+      setImportSummary(
+        `Merged: ${result.connectionsAdded} new connections, ${result.connectionsMatched} matched, ` +
+        `${result.activitiesAdded} interactions added, ${result.activitiesSkipped} duplicates skipped, ` +
+        `${result.relationshipsAdded} relationships, ${result.tagsAdded} tags, ${result.interactionTypesAdded} interaction types and ${result.plansAdded} plans added, ` +
+        `${result.remappedIds} ids reassigned.`
+      );
+    }
+    setSelectedConnection(null);
+    setPendingImport(null);
+  };
+  
+  const reportStorageError = (error: unknown): void => {
+    setStorageError(error instanceof Error ? error.message : String(error));
+  };
+  
+  // Save the open network, then load another profile's in its place. Undo
+  // history belongs to the network it was recorded in, so it is cleared.
+  const switchProfile = async (profileId: string): Promise<boolean> => {
+    if (profileId === activeProfileId) return true;
+    setIsLoaded(false);
+    try {
+      await saveData({ connections, activities, relationships, tags, interactionTypes, plans, maintenancePlan, settings }, activeProfileId);
+      applyStoredData((await loadData(profileId)) || createEmptyData());
+      setActiveProfileId(profileId);
+      setHistory(emptyHistory);
+      setToast(null);
+      setSelectedConnection(null);
+      setEditingActivityId(null);
+      setImportSummary(null);
+      return true;
+    } catch (error) {
+      // The open network stays in place
+      reportStorageError(error);
+      return false;
+    } finally {
+      setIsLoaded(true);
+    }
+  };
+  
+  // Create a profile with an empty network and switch to it, or rename one
+  const applyProfileDraft = async (): Promise<void> => {
+    if (!profileDraft) return;
+    const name = getUniqueProfileName(profileDraft.name, profiles, profileDraft.id ?? undefined);
+    const ownerName = profileDraft.ownerName.trim();
+    if (profileDraft.id) {
+      const id = profileDraft.id;
+      setProfiles(prev => prev.map(profile => (profile.id === id ? { ...profile, name, ownerName } : profile)));
+      setProfileDraft(null);
+      return;
+    }
+    const profile: Profile = { id: createProfileId(profiles), name, ownerName, createdAt: new Date() };
+    try {
+      await saveData(createEmptyData(), profile.id);
+    } catch (error) {
+      reportStorageError(error);
+      return;
+    }
+    setProfiles(prev => [...prev, profile]);
+    setProfileDraft(null);
+    await switchProfile(profile.id);
+  };
+  
+  const duplicateProfile = async (source: Profile): Promise<void> => {
+    const copy: Profile = {
+      id: createProfileId(profiles),
+      name: getUniqueProfileName(`${source.name} copy`, profiles),
+      ownerName: source.ownerName,
+      createdAt: new Date()
+    };
+    try {
+      if (source.id === activeProfileId) {
+        await saveData({ connections, activities, relationships, tags, interactionTypes, plans, maintenancePlan, settings }, copy.id);
+      } else {
+        await copyProfileData(source.id, copy.id);
       }
-    });
+    } catch (error) {
+      reportStorageError(error);
+      return;
+    }
+    setProfiles(prev => [...prev, copy]);
   };
   
-  // Update new connection form field
-  const updateNewConnectionField = (field: string, value: any): void => {
-    setNewConnection(prev => ({
-      ...prev,
-      [field]: value
-    }));
+  // Deleting the open profile switches to another one first
+  const deleteProfile = async (profile: Profile): Promise<void> => {
+    const fallback = profiles.find(other => other.id !== profile.id);
+    if (!fallback) return;
+    if (!window.confirm(`Delete the profile "${profile.name}" and its whole network? This can't be undone.`)) return;
+    if (profile.id === activeProfileId && !(await switchProfile(fallback.id))) return;
+    try {
+      await deleteProfileData(profile.id);
+    } catch (error) {
+      reportStorageError(error);
+      return;
+    }
+    if (isReminderSupported()) {
+      clearReminderState(profile.id).catch(error => setReminderError(error instanceof Error ? error.message : String(error)));
+    }
+    setProfiles(prev => prev.filter(other => other.id !== profile.id));
   };
   
-  // Update new connection score field
-  const updateNewConnectionScore = (field: string, value: any): void => {
-    setNewConnection(prev => ({
-      ...prev,
-      scores: {
-        ...prev.scores,
-        [field]: parseInt(value) || 0
+  // Download a backup of any profile, open or not
+  const exportProfile = async (profile: Profile): Promise<void> => {
+    try {
+      const data = profile.id === activeProfileId
+        ? { connections, activities, relationships, tags, interactionTypes, plans, maintenancePlan, settings }
+        : (await loadData(profile.id)) || createEmptyData();
+      downloadFile(`strand-friends-${slugify(profile.name, 'network')}-backup-${getFileDateStamp()}.json`, createBackup(data), 'application/json');
+    } catch (error) {
+      reportStorageError(error);
+    }
+  };
+  
+  const handleUnlock = async (): Promise<void> => {
+    if (isUnlocking) return;
+    setIsUnlocking(true);
+    setUnlockError(null);
+    try {
+      if (!(await unlockStorage(unlockPassphrase))) {
+        setUnlockError('Wrong passphrase');
+        return;
       }
-    }));
+      setUnlockPassphrase('');
+      setIsLocked(false);
+      await loadNetwork();
+    } catch (error) {
+      reportStorageError(error);
+    } finally {
+      setIsUnlocking(false);
+    }
   };
-
-  // CSS utility for Death Stranding border effect
-  const borderStyle = "relative before:content-[''] before:absolute before:left-0 before:top-0 before:right-0 before:h-px before:bg-cyan-400 before:opacity-40 after:content-[''] after:absolute after:bottom-0 after:left-0 after:right-0 after:h-px after:bg-cyan-400 after:opacity-40";
   
-  // CSS utility for dotted separation line
-  const dottedSeparator = "border-dashed border-cyan-700/30 border-t my-4";
+  // Save, forget the key and drop the decrypted network from memory
+  const lockNow = async (): Promise<void> => {
+    if (!isEncrypted || isLocked || !isLoaded) return;
+    setIsLoaded(false);
+    try {
+      await saveData({ connections, activities, relationships, tags, interactionTypes, plans, maintenancePlan, settings }, activeProfileId);
+    } catch (error) {
+      reportStorageError(error);
+    }
+    lockStorage();
+    applyStoredData(createEmptyData());
+    setProfiles([]);
+    setHistory(emptyHistory);
+    setToast(null);
+    setSelectedConnection(null);
+    setEditingActivityId(null);
+    setPendingImport(null);
+    setImportSummary(null);
+    setShowProfilesModal(false);
+    setEncryptionDraft(null);
+    setBackupPassphraseDraft(null);
+    setIsLocked(true);
+  };
+  const lockRef = useRef(lockNow);
+  lockRef.current = lockNow;
   
-  // Marker elements for the DS UI style
-  const Marker = ({position = "top-left"}: {position: "top-left" | "top-right" | "bottom-left" | "bottom-right"}) => {
-    const positionClasses: Record<"top-left" | "top-right" | "bottom-left" | "bottom-right", string> = {
-      "top-left": "top-0 left-0",
-      "top-right": "top-0 right-0",
-      "bottom-left": "bottom-0 left-0",
-      "bottom-right": "bottom-0 right-0",
+  // Lock after a stretch without input
+  useEffect(() => {
+    if (!isEncrypted || isLocked) return;
+    let lastActivity = Date.now();
+    const markActive = () => {
+      lastActivity = Date.now();
+    };
+    const events = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+    events.forEach(name => window.addEventListener(name, markActive, { passive: true }));
+    const timer = window.setInterval(() => {
+      if (Date.now() - lastActivity >= idleLockMinutes * 60 * 1000) lockRef.current();
+    }, IDLE_CHECK_MS);
+    return () => {
+      events.forEach(name => window.removeEventListener(name, markActive));
+      window.clearInterval(timer);
     };
+  }, [isEncrypted, isLocked, idleLockMinutes]);
+  
+  // Turn encryption on or off, change the passphrase, or only the idle lock.
+  // The open network is saved first so the re-encrypted copy is current.
+  const applyEncryption = async (action: 'enable' | 'change' | 'disable' | 'idle'): Promise<void> => {
+    if (!encryptionDraft || encryptionDraft.isBusy) return;
+    const draft = encryptionDraft;
+    const fail = (error: string) => setEncryptionDraft({ ...draft, error, isBusy: false });
+    if (action === 'enable' || action === 'change') {
+      if (draft.next.length < MIN_PASSPHRASE_LENGTH) return fail(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      if (draft.next !== draft.confirm) return fail("Passphrases don't match");
+    }
+    if (action === 'disable' && !window.confirm('Store this device\'s networks unencrypted again?')) return;
+    setEncryptionDraft({ ...draft, error: null, isBusy: true });
+    try {
+      await saveData({ connections, activities, relationships, tags, interactionTypes, plans, maintenancePlan, settings }, activeProfileId);
+      if (action === 'enable') {
+        await enableEncryption(draft.next, draft.idleLockMinutes);
+        setIsEncrypted(true);
+        setIdleLockMinutes(draft.idleLockMinutes);
+      } else if (action === 'change') {
+        if (!(await changePassphrase(draft.current, draft.next))) return fail('Current passphrase is wrong');
+      } else if (action === 'disable') {
+        if (!(await disableEncryption(draft.current))) return fail('Current passphrase is wrong');
+        setIsEncrypted(false);
+      } else {
+        await saveIdleLockMinutes(draft.idleLockMinutes);
+        setIdleLockMinutes(draft.idleLockMinutes);
+      }
+      setEncryptionDraft(null);
+    } catch (error) {
+      fail(error instanceof Error ? error.message : String(error));
+    }
+  };
+  
+  // Export the open network sealed with its own passphrase, or open an
+  // encrypted backup for the import review
+  const applyBackupPassphrase = async (): Promise<void> => {
+    if (!backupPassphraseDraft || backupPassphraseDraft.isBusy) return;
+    const draft = backupPassphraseDraft;
+    const fail = (error: string) => setBackupPassphraseDraft({ ...draft, error, isBusy: false });
+    if (draft.mode === 'export') {
+      if (draft.passphrase.length < MIN_PASSPHRASE_LENGTH) return fail(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      if (draft.passphrase !== draft.confirm) return fail("Passphrases don't match");
+    }
+    setBackupPassphraseDraft({ ...draft, error: null, isBusy: true });
+    try {
+      if (draft.mode === 'export') {
+        const backup = await createEncryptedBackup({ connections, activities, relationships, tags, interactionTypes, plans, maintenancePlan, settings }, draft.passphrase);
+        const slug = slugify(activeProfile?.name || '', 'network');
+        downloadFile(`strand-friends-${slug}-backup-${getFileDateStamp()}.encrypted.json`, backup, 'application/json');
+      } else {
+        setPendingImport(parseBackup(await decryptBackup(draft.text, draft.passphrase)));
+      }
+      setBackupPassphraseDraft(null);
+    } catch (error) {
+      fail(error instanceof Error ? error.message : String(error));
+    }
+  };
+  
+  // Check whether a contact name is already in the network
+  const isExistingName = (name: string): boolean =>
+    connections.some(conn => conn.name.trim().toLowerCase() === name.trim().toLowerCase());
+  
+  // Parse a .vcf file and open the contact preview, preselecting new names
+  const handleVCardFile = async (file: File): Promise<void> => {
+    setImportSummary(null);
+    try {
+      const contacts = parseVCards(await readFileAsText(file));
+      if (contacts.length === 0) {
+        setImportSummary('No contacts found in vCard file.');
+        return;
+      }
+      const seen = new Set<string>();
+      const selected = contacts
+        .map((contact, index) => {
+          const key = contact.name.trim().toLowerCase();
+          const isNew = !isExistingName(contact.name) && !seen.has(key);
+          seen.add(key);
+          return isNew ? index : -1;
+        })
+        .filter(index => index >= 0);
+      setVcardDefaults({ strength: settings.defaultStrength, halfLife: settings.defaultHalfLife });
+      setVcardImport({ contacts, selected });
+    } catch (error) {
+      setImportSummary(`vCard import failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+  
+  // Toggle a contact in the vCard preview
+  const toggleVCardContact = (index: number): void => {
+    setVcardImport(prev => prev && ({
+      ...prev,
+      selected: prev.selected.includes(index)
+        ? prev.selected.filter(i => i !== index)
+        : [...prev.selected, index]
+    }));
+  };
+  
+  // Create connections for the selected vCard contacts
+  const applyVCardImport = (): void => {
+    if (!vcardImport) return;
+    const added: ConnectionType[] = [];
+    const takenNames = new Set(connections.map(conn => conn.name.trim().toLowerCase()));
     
-    return (
-      <div className={`absolute w-3 h-3 ${positionClasses[position]}`}>
-        <div className="absolute top-0 left-0 w-2 h-px bg-cyan-400"></div>
-        <div className="absolute top-0 left-0 w-px h-2 bg-cyan-400"></div>
-      </div>
-    );
+    [...vcardImport.selected].sort((a, b) => a - b).forEach(index => {
+      const contact = vcardImport.contacts[index];
+      const key = contact.name.trim().toLowerCase();
+      if (takenNames.has(key)) return;
+      takenNames.add(key);
+      
+      const hasDetails = contact.details.phones.length > 0 || contact.details.emails.length > 0 || !!contact.details.birthday;
+      const now = new Date();
+      added.push({
+        id: getNextId([...connections, ...added]),
+        name: contact.name,
+        baseStrength: vcardDefaults.strength,
+        baselineDate: now,
+        strength: vcardDefaults.strength,
+        lastContact: now,
+        halfLife: vcardDefaults.halfLife,
+        decayCurve: 'exponential',
+        halfLifeMode: 'manual',
+        tags: [],
+        scores: {
+          communication: 30,
+          reliability: 30,
+          emotional: 30,
+          shared: 30,
+          support: 30
+        },
+        ...(hasDetails ? { contact: contact.details } : {})
+      });
+    });
+    
+    recordHistory(`Imported ${added.length} contact${added.length === 1 ? '' : 's'} from vCard`);
+    setConnections([...connections, ...added]);
+    setImportSummary(`Imported ${added.length} contact${added.length === 1 ? '' : 's'} from vCard.`);
+    setVcardImport(null);
   };
 
-  return (
-    <div className="flex flex-col h-screen text-cyan-400 font-mono relative overflow-hidden">
-      {/* Add holographic animations */}
+  // Add new interaction, optionally backdated with notes and a duration
+  const addInteraction = (
+    connectionId: number,
+    type: string,
+    details: { date?: Date; notes?: string; durationMinutes?: number } = {}
+  ): ActivityType => {
+    // Points are copied onto the record so later catalog edits don't rewrite history
+    const points = getInteractionType(interactionTypes, type)?.points || 0;
+    const newActivity: ActivityType = {
+      id: getNextId(activities),
+      connectionId,
+      type,
+      points,
+      date: details.date || new Date(),
+      notes: details.notes || '',
+      ...(details.durationMinutes ? { durationMinutes: details.durationMinutes } : {})
+    };
+    
+    const connection = connections.find(conn => conn.id === connectionId);
+    recordHistory(`Logged ${getInteractionDisplay(interactionTypes, type).label.toUpperCase()} with ${connection?.name || 'Unknown'}, +${points}`);
+    // Keep the log newest first; replay orders by date so backdated entries land at their real time
+    const nextActivities = [newActivity, ...activities].sort((a, b) => b.date.getTime() - a.date.getTime());
+    setActivities(nextActivities);
+    
+    // Replay the history to refresh the cached strength; a backfilled
+    // interaction before the baseline moves it back first
+    setConnections(connections.map(conn => {
+      if (conn.id !== connectionId) return conn;
+      const base = moveBaselineBefore(conn, newActivity.date, activities, settings.gainModel) || conn;
+      return rebuildConnection(applyAdaptiveHalfLife(base, nextActivities), nextActivities, settings.gainModel);
+    }));
+    return newActivity;
+  };
+
+  // Connections shown in the sidebar, narrowed by the tag filter
+  const visibleConnections = connections.filter(conn => hasTag(conn, tagFilter));
+  
+  // How far back the scrubber reaches: the oldest baseline, within a year
+  const oldestBaseline = Math.min(Date.now(), ...connections.map(conn => conn.baselineDate.getTime()));
+  const scrubMinDays = -Math.min(SCRUB_MAX_PAST_DAYS, Math.max(30, Math.ceil((Date.now() - oldestBaseline) / MS_PER_DAY)));
+  
+  // The network as it stood (or will stand) at the scrubbed date
+  const scrubbedNetwork = useMemo(() => {
+    if (scrubDays === 0) return { connections, clock: systemClock };
+    const date = new Date(Date.now() + scrubDays * MS_PER_DAY);
+    return {
+      connections: connections
+        .map(conn => getConnectionAt(conn, activities, date, settings.gainModel))
+        .filter((conn): conn is ConnectionType => conn !== null),
+      clock: fixedClock(date)
+    };
+  }, [scrubDays, connections, activities, settings.gainModel]);
+  
+  // Advance the scrubber while playing, stopping at the forecast horizon
+  useEffect(() => {
+    if (!isScrubPlaying) return;
+    const step = Math.max(1, Math.round((SCRUB_FORECAST_DAYS - scrubMinDays) / SCRUB_PLAY_FRAMES));
+    const timer = window.setInterval(() => {
+      setScrubDays(days => Math.min(SCRUB_FORECAST_DAYS, days + step));
+    }, SCRUB_FRAME_MS);
+    return () => window.clearInterval(timer);
+  }, [isScrubPlaying, scrubMinDays]);
+  
+  useEffect(() => {
+    if (isScrubPlaying && scrubDays >= SCRUB_FORECAST_DAYS) setIsScrubPlaying(false);
+  }, [isScrubPlaying, scrubDays]);
+  
+  const toggleScrubPlayback = () => {
+    // Replay from the start once the end has been reached
+    if (!isScrubPlaying && scrubDays >= SCRUB_FORECAST_DAYS) setScrubDays(scrubMinDays);
+    setIsScrubPlaying(!isScrubPlaying);
+  };
+  
+  // Filter connections that need attention: below their target level, or dormant without one
+  const getNeedAttentionConnections = () => {
+    return visibleConnections.filter(conn => {
+      const currentStrength = getCurrentStrength(conn);
+      return currentStrength < getTargetStrength(conn, settings.levels);
+    });
+  };
+  
+  // Add a tag with the next free palette color
+  const addTag = (): void => {
+    const label = newTagLabel.trim();
+    if (!label) return;
+    recordHistory(`Added tag ${label}`);
+    setTags([...tags, { id: createTagId(label, tags), label, color: getNextTagColor(tags) }]);
+    setNewTagLabel('');
+  };
+  
+  // Rename or recolor a tag; connections keep referring to it by id
+  const updateTag = (tagId: string, changes: Partial<Omit<TagDefinition, 'id'>>): void => {
+    setTags(tags.map(tag => tag.id === tagId ? { ...tag, ...changes } : tag));
+  };
+  
+  // Remove a tag and take it off every connection
+  const handleDeleteTag = (tag: TagDefinition): void => {
+    const count = connections.filter(conn => conn.tags.includes(tag.id)).length;
+    if (count > 0 && !window.confirm(`Remove tag ${tag.label} from ${count} connection${count === 1 ? '' : 's'}?`)) return;
+    recordHistory(`Deleted tag ${tag.label}`);
+    setTags(tags.filter(t => t.id !== tag.id));
+    setConnections(connections.map(conn =>
+      conn.tags.includes(tag.id) ? { ...conn, tags: conn.tags.filter(id => id !== tag.id) } : conn
+    ));
+    if (tagFilter === tag.id) setTagFilter(null);
+  };
+  
+  // Handle adding a new connection, or saving edits to an existing one
+  const handleAddConnection = () => {
+    if (editingConnectionId !== null) {
+      recordHistory(`Edited ${newConnection.name.trim()}`);
+      // Baseline or decay changes ripple through the replayed history
+      setConnections(connections.map(conn => conn.id === editingConnectionId
+        ? rebuildConnection(applyAdaptiveHalfLife({
+            ...conn,
+            name: newConnection.name.trim(),
+            baseStrength: newConnection.strength,
+            halfLife: newConnection.halfLife,
+            decayCurve: newConnection.decayCurve,
+            halfLifeMode: newConnection.halfLifeMode,
+            tags: newConnection.tags,
+            targetLevel: newConnection.targetLevel,
+            scores: newConnection.scores
+          }, activities), activities, settings.gainModel)
+        : conn
+      ));
+      closeConnectionModal();
+      return;
+    }
+    
+    const newId = getNextId(connections);
+    const now = new Date();
+    const connectionToAdd = {
+      ...newConnection,
+      name: newConnection.name.trim(),
+      id: newId,
+      baseStrength: newConnection.strength,
+      baselineDate: now,
+      lastContact: now
+    };
+    
+    recordHistory(`Added ${connectionToAdd.name}`);
+    setConnections([...connections, connectionToAdd]);
+    closeConnectionModal();
+  };
+  
+  // Adopt the suggested half-life and replay the connection with it
+  const acceptHalfLifeSuggestion = (connection: ConnectionType, halfLife: number): void => {
+    recordHistory(`Set ${connection.name}'s half-life to ${halfLife} days`);
+    setConnections(connections.map(conn =>
+      conn.id === connection.id ? rebuildConnection({ ...conn, halfLife }, activities, settings.gainModel) : conn
+    ));
+  };
+  
+  // Record that the selected connection knows someone else in the network
+  const addRelationship = (): void => {
+    const targetId = parseInt(relationshipDraft.targetId);
+    if (!selectedConnection || isNaN(targetId)) return;
+    const target = connections.find(conn => conn.id === targetId);
+    const strength = parseInt(relationshipDraft.strength);
+    
+    recordHistory(`Linked ${selectedConnection.name} and ${target?.name || 'Unknown'}`);
+    setRelationships([...relationships, {
+      id: getNextId(relationships),
+      sourceId: selectedConnection.id,
+      targetId,
+      kind: relationshipDraft.kind,
+      ...(isNaN(strength) ? {} : { strength: Math.max(0, Math.min(100, strength)) })
+    }]);
+    setRelationshipDraft({ targetId: '', kind: relationshipDraft.kind, strength: '' });
+  };
+  
+  const removeRelationship = (relationship: RelationshipType): void => {
+    const names = [relationship.sourceId, relationship.targetId]
+      .map(id => connections.find(conn => conn.id === id)?.name || 'Unknown');
+    recordHistory(`Unlinked ${names.join(' and ')}`);
+    setRelationships(relationships.filter(r => r.id !== relationship.id));
+  };
+  
+  // Open the connection modal prefilled for editing
+  const openEditConnection = (connection: ConnectionType): void => {
+    setNewConnection({
+      name: connection.name,
+      strength: connection.baseStrength,
+      halfLife: connection.halfLife,
+      decayCurve: connection.decayCurve,
+      halfLifeMode: connection.halfLifeMode,
+      tags: [...connection.tags],
+      targetLevel: connection.targetLevel,
+      scores: { ...connection.scores }
+    });
+    setEditingConnectionId(connection.id);
+    setShowAddConnectionModal(true);
+  };
+  
+  // Close the connection modal and reset the form
+  const closeConnectionModal = (): void => {
+    setShowAddConnectionModal(false);
+    setEditingConnectionId(null);
+    setNewConnection({
+      name: '',
+      strength: settings.defaultStrength,
+      halfLife: settings.defaultHalfLife,
+      decayCurve: 'exponential',
+      halfLifeMode: 'manual',
+      tags: [],
+      targetLevel: undefined,
+      scores: {
+        communication: 30,
+        reliability: 30,
+        emotional: 30,
+        shared: 30,
+        support: 30
+      }
+    });
+  };
+  
+  // Delete a connection together with its interactions
+  const handleDeleteConnection = (connection: ConnectionType): void => {
+    const orphanCount = activities.filter(a => a.connectionId === connection.id).length;
+    const message = orphanCount > 0
+      ? `Delete ${connection.name} and their ${orphanCount} logged interaction${orphanCount === 1 ? '' : 's'}? You can undo this.`
+      : `Delete ${connection.name}? You can undo this.`;
+    if (!window.confirm(message)) return;
+    
+    recordHistory(`Deleted ${connection.name}`);
+    setConnections(connections.filter(conn => conn.id !== connection.id));
+    setActivities(activities.filter(a => a.connectionId !== connection.id));
+    setRelationships(relationships.filter(r => r.sourceId !== connection.id && r.targetId !== connection.id));
+    setPlans(plans.map(plan => ({ ...plan, items: plan.items.filter(item => item.connectionId !== connection.id) })));
+    if (maintenancePlan) {
+      setMaintenancePlan({ ...maintenancePlan, items: maintenancePlan.items.filter(item => item.connectionId !== connection.id) });
+    }
+    if (selectedConnectionId === connection.id) setSelectedConnection(null);
+  };
+  
+  // Save the weekly budget and schedule contacts within it
+  const planMaintenance = (budget: MaintenanceBudget): void => {
+    recordHistory(maintenancePlan ? 'Re-planned maintenance' : 'Planned maintenance');
+    setSettings({ ...settings, maintenanceBudget: budget });
+    setMaintenancePlan(generateMaintenancePlan(connections, activities, interactionTypes, budget, settings.gainModel, systemClock, settings.levels));
+  };
+  
+  // Log a planned contact as done today and tick it off the agenda
+  const completeMaintenanceItem = (item: MaintenanceItem): void => {
+    if (!maintenancePlan) return;
+    const activity = addInteraction(item.connectionId, item.type);
+    setMaintenancePlan({
+      ...maintenancePlan,
+      items: maintenancePlan.items.map(other => other.id === item.id ? { ...other, activityId: activity.id } : other)
+    });
+  };
+  
+  // Add a what-if plan, or replace the saved copy when it already exists
+  const savePlan = (plan: InteractionPlan): void => {
+    const exists = plans.some(p => p.id === plan.id);
+    recordHistory(`${exists ? 'Updated' : 'Saved'} plan ${plan.name}`);
+    setPlans(exists ? plans.map(p => p.id === plan.id ? plan : p) : [...plans, plan]);
+  };
+  
+  const deletePlan = (plan: InteractionPlan): void => {
+    if (!window.confirm(`Delete the plan "${plan.name}"?`)) return;
+    recordHistory(`Deleted plan ${plan.name}`);
+    setPlans(plans.filter(p => p.id !== plan.id));
+  };
+  
+  // Open the detailed log form for the selected connection
+  const openDetailedLog = (): void => {
+    const firstType = getActiveInteractionTypes(interactionTypes)[0];
+    setDetailedLog({ type: firstType?.id || '', date: toDateTimeInputValue(new Date()), duration: '', notes: '', error: null });
+  };
+  
+  // Interactions already folded into the baseline can't be replayed again
+  const getFoldedHistoryError = (connection: ConnectionType): string =>
+    `Earlier interactions with ${connection.name} are already part of its starting strength from ${connection.baselineDate.toLocaleString()}.`;
+  
+  // Log an interaction from the detailed form at the chosen date and time
+  const submitDetailedLog = (): void => {
+    if (!detailedLog || !selectedConnection || !detailedLog.type) return;
+    const date = new Date(detailedLog.date);
+    if (isNaN(date.getTime())) return;
+    
+    if (date.getTime() > Date.now()) {
+      setDetailedLog({ ...detailedLog, error: 'Interactions can\'t be logged in the future.' });
+      return;
+    }
+    if (!moveBaselineBefore(selectedConnection, date, activities, settings.gainModel)) {
+      setDetailedLog({ ...detailedLog, error: getFoldedHistoryError(selectedConnection) });
+      return;
+    }
+    
+    addInteraction(selectedConnection.id, detailedLog.type, {
+      date,
+      notes: detailedLog.notes.trim(),
+      durationMinutes: parseInt(detailedLog.duration) || undefined
+    });
+    setDetailedLog(null);
+  };
+  
+  // Start editing an interaction in the log
+  const startEditActivity = (activity: ActivityType): void => {
+    setEditingActivityId(activity.id);
+    setActivityDraft({
+      type: activity.type,
+      points: activity.points,
+      date: toDateTimeInputValue(activity.date),
+      duration: activity.durationMinutes ? activity.durationMinutes.toString() : '',
+      notes: activity.notes,
+      error: null
+    });
+  };
+  
+  // Apply an interaction edit and replay the affected connection
+  const saveActivityEdit = (): void => {
+    const date = new Date(activityDraft.date);
+    if (editingActivityId === null || isNaN(date.getTime())) return;
+    
+    // Moving an interaction before the baseline moves the baseline with it
+    const original = activities.find(a => a.id === editingActivityId);
+    const owner = connections.find(conn => conn.id === original?.connectionId);
+    const others = activities.filter(a => a.id !== editingActivityId);
+    const movedOwner = owner && moveBaselineBefore(owner, date, others, settings.gainModel);
+    if (owner && !movedOwner) {
+      setActivityDraft({ ...activityDraft, error: getFoldedHistoryError(owner) });
+      return;
+    }
+    
+    const durationMinutes = parseInt(activityDraft.duration) || undefined;
+    const nextActivities = activities
+      .map(a => a.id === editingActivityId
+        ? { ...a, type: activityDraft.type, points: activityDraft.points, date, durationMinutes, notes: activityDraft.notes }
+        : a)
+      .sort((a, b) => b.date.getTime() - a.date.getTime());
+    const edited = nextActivities.find(a => a.id === editingActivityId);
+    
+    recordHistory(`Edited ${getInteractionDisplay(interactionTypes, activityDraft.type).label.toUpperCase()} with ${owner?.name || 'Unknown'}`);
+    setActivities(nextActivities);
+    setConnections(connections.map(conn =>
+      conn.id === edited?.connectionId ? rebuildConnection(applyAdaptiveHalfLife(movedOwner || conn, nextActivities), nextActivities, settings.gainModel) : conn
+    ));
+    setEditingActivityId(null);
+  };
+  
+  // Remove an interaction and replay the affected connection
+  const handleDeleteActivity = (activity: ActivityType): void => {
+    const { label } = getInteractionDisplay(interactionTypes, activity.type);
+    if (!window.confirm(`Delete this ${label} interaction (+${activity.points})?`)) return;
+    
+    const owner = connections.find(conn => conn.id === activity.connectionId);
+    recordHistory(`Deleted ${label.toUpperCase()} with ${owner?.name || 'Unknown'}`);
+    const nextActivities = activities.filter(a => a.id !== activity.id);
+    setActivities(nextActivities);
+    setConnections(connections.map(conn =>
+      conn.id === activity.connectionId ? rebuildConnection(applyAdaptiveHalfLife(conn, nextActivities), nextActivities, settings.gainModel) : conn
+    ));
+    if (editingActivityId === activity.id) setEditingActivityId(null);
+  };
+  
+  // Update new connection form field
+  const updateNewConnectionField = (field: string, value: any): void => {
+    setNewConnection(prev => ({
+      ...prev,
+      [field]: value
+    }));
+  };
+  
+  // Update new connection score field
+  const updateNewConnectionScore = (field: string, value: any): void => {
+    setNewConnection(prev => ({
+      ...prev,
+      scores: {
+        ...prev.scores,
+        [field]: parseInt(value) || 0
+      }
+    }));
+  };
+
+  // Open the interaction type form, blank for a new type
+  const startEditInteractionType = (type?: InteractionTypeDefinition): void => {
+    setTypeDraft(type
+      ? { id: type.id, label: type.label, emoji: type.emoji, points: type.points, scores: { ...type.effects?.scores } }
+      : { id: null, label: '', emoji: '', points: 5, scores: {} });
+  };
+  
+  // Add or update a catalog entry; existing activities keep the points they were logged with
+  const saveInteractionType = (): void => {
+    if (!typeDraft || !typeDraft.label.trim()) return;
+    const scores = _.pickBy(typeDraft.scores, value => !!value);
+    const definition: InteractionTypeDefinition = {
+      id: typeDraft.id ?? createInteractionTypeId(typeDraft.label, interactionTypes),
+      label: typeDraft.label.trim(),
+      emoji: typeDraft.emoji.trim(),
+      points: Math.max(0, typeDraft.points),
+      ...(Object.keys(scores).length > 0 ? { effects: { scores } } : {})
+    };
+    
+    if (typeDraft.id === null) {
+      recordHistory(`Added interaction type ${definition.label}`);
+      setInteractionTypes([...interactionTypes, definition]);
+    } else {
+      recordHistory(`Edited interaction type ${definition.label}`);
+      setInteractionTypes(interactionTypes.map(type =>
+        type.id === definition.id ? { ...definition, retired: type.retired } : type
+      ));
+    }
+    setTypeDraft(null);
+  };
+  
+  // Retired types are hidden from the log buttons but still label old activities
+  const toggleRetireInteractionType = (type: InteractionTypeDefinition): void => {
+    recordHistory(`${type.retired ? 'Restored' : 'Retired'} interaction type ${type.label}`);
+    setInteractionTypes(interactionTypes.map(t => t.id === type.id ? { ...t, retired: !t.retired } : t));
+  };
+  
+  // Only types that were never logged can be removed outright
+  const handleDeleteInteractionType = (type: InteractionTypeDefinition): void => {
+    if (activities.some(activity => activity.type === type.id)) return;
+    if (!window.confirm(`Delete interaction type ${type.label}?`)) return;
+    recordHistory(`Deleted interaction type ${type.label}`);
+    setInteractionTypes(interactionTypes.filter(t => t.id !== type.id));
+    if (typeDraft?.id === type.id) setTypeDraft(null);
+  };
+  
+  const closeInteractionTypesModal = (): void => {
+    setShowInteractionTypesModal(false);
+    setTypeDraft(null);
+  };
+  
+  // Apply a new gain model and replay every connection under it
+  const applyGainModel = (): void => {
+    if (!gainModelDraft || !isValidGainModel(gainModelDraft)) return;
+    recordHistory('Updated gain model');
+    setSettings({ ...settings, gainModel: gainModelDraft });
+    setConnections(rebuildConnections(connections, activities, gainModelDraft));
+    setGainModelDraft(null);
+  };
+  
+  // Apply an edited level ladder; targets above the top rung move down to it
+  const applyLevels = (): void => {
+    if (!levelsDraft || getLadderProblems(levelsDraft).length > 0) return;
+    recordHistory('Updated level ladder');
+    setSettings({ ...settings, levels: levelsDraft });
+    const topLevel = levelsDraft.length - 1;
+    if (connections.some(conn => conn.targetLevel !== undefined && conn.targetLevel > topLevel)) {
+      setConnections(connections.map(conn =>
+        conn.targetLevel !== undefined && conn.targetLevel > topLevel ? { ...conn, targetLevel: topLevel } : conn
+      ));
+    }
+    setLevelsDraft(null);
+  };
+  
+  const updateLevelDraft = (index: number, changes: Partial<LevelDefinition>): void => {
+    if (!levelsDraft) return;
+    setLevelsDraft(levelsDraft.map((rung, i) => i === index ? { ...rung, ...changes } : rung));
+  };
+
+  // Register the reminder worker once reminders are switched on
+  useEffect(() => {
+    if (!isLoaded || !settings.reminders.enabled) return;
+    registerReminderWorker().catch(error => setReminderError(error instanceof Error ? error.message : String(error)));
+  }, [isLoaded, settings.reminders.enabled]);
+  
+  // Other profiles' networks as last loaded for reminder planning. They only
+  // change through a profile switch, an import or an encryption change, so
+  // editing the open network never reloads them.
+  const reminderProfilesRef = useRef(new Map<string, PersistedData | null>());
+  
+  useEffect(() => {
+    if (!isLoaded || !isReminderSupported()) return;
+    let cancelled = false;
+    const plan = async () => {
+      try {
+        const loaded = new Map<string, PersistedData | null>();
+        for (const profile of profiles) {
+          if (profile.id !== activeProfileId) loaded.set(profile.id, await loadData(profile.id));
+          if (cancelled) return;
+        }
+        reminderProfilesRef.current = loaded;
+        await Promise.all([...loaded].map(([profileId, data]) => planProfileReminders(profileId, data, isEncrypted)));
+      } catch (error) {
+        setReminderError(error instanceof Error ? error.message : String(error));
+      }
+    };
+    plan();
+    return () => {
+      cancelled = true;
+    };
+  }, [isLoaded, profiles, activeProfileId, isEncrypted]);
+  
+  // The open profile plans from memory whenever its network changes
+  useEffect(() => {
+    if (!isLoaded || !isReminderSupported()) return;
+    planProfileReminders(activeProfileId, { connections, settings }, isEncrypted)
+      .then(() => setReminderError(null))
+      .catch(error => setReminderError(error instanceof Error ? error.message : String(error)));
+  }, [isLoaded, activeProfileId, connections, settings, isEncrypted]);
+  
+  const openRemindersRef = useRef({ activeProfileId, connections, settings, isEncrypted });
+  openRemindersRef.current = { activeProfileId, connections, settings, isEncrypted };
+  
+  // Deliver due batches while the tab is open. A delivery only needs the
+  // next batches planned, from memory and the profiles already loaded.
+  useEffect(() => {
+    if (!isLoaded || !isReminderSupported()) return;
+    const deliver = async () => {
+      try {
+        if ((await deliverDueReminders()) === 0) return;
+        const open = openRemindersRef.current;
+        await Promise.all([
+          planProfileReminders(open.activeProfileId, open, open.isEncrypted),
+          ...[...reminderProfilesRef.current].map(([profileId, data]) => planProfileReminders(profileId, data, open.isEncrypted))
+        ]);
+      } catch (error) {
+        setReminderError(error instanceof Error ? error.message : String(error));
+      }
+    };
+    deliver();
+    const timer = window.setInterval(deliver, REMINDER_CHECK_MS);
+    return () => window.clearInterval(timer);
+  }, [isLoaded]);
+  
+  // Notification clicks forwarded by the worker to an open tab
+  useEffect(() => {
+    if (!isReminderSupported()) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (isReminderActionMessage(event.data)) setPendingReminderAction(event.data);
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, []);
+  
+  // Open the connection a reminder was about; "log" records its usual interaction.
+  // Connection ids repeat across profiles, so another profile's reminder
+  // switches to it first and is handled again once it has loaded.
+  const handleReminderAction = async (message: ReminderActionMessage): Promise<void> => {
+    const { action, profileId, connectionId } = message;
+    if (profileId !== activeProfileId) {
+      if (!profiles.some(profile => profile.id === profileId)) return;
+      if (await switchProfile(profileId)) setPendingReminderAction(message);
+      return;
+    }
+    const connection = connections.find(conn => conn.id === connectionId);
+    if (!connection) return;
+    setSelectedConnection(connection);
+    if (action !== 'log') return;
+    const active = getActiveInteractionTypes(interactionTypes);
+    const counts = _.countBy(activities.filter(activity => activity.connectionId === connectionId), 'type');
+    const usual = _.maxBy(active, type => counts[type.id] || 0) || active[0];
+    if (usual) addInteraction(connectionId, usual.id);
+  };
+  const reminderActionRef = useRef(handleReminderAction);
+  reminderActionRef.current = handleReminderAction;
+  
+  useEffect(() => {
+    if (!isLoaded || !pendingReminderAction) return;
+    setPendingReminderAction(null);
+    reminderActionRef.current(pendingReminderAction);
+  }, [isLoaded, pendingReminderAction]);
+  
+  // Save reminder preferences, asking for notification permission when they are turned on
+  const applyReminderSettings = async (): Promise<void> => {
+    if (!reminderDraft) return;
+    let enabled = reminderDraft.enabled;
+    if (enabled && getReminderPermission() !== 'granted') {
+      const permission = await requestReminderPermission();
+      setReminderPermission(permission);
+      if (permission !== 'granted') {
+        window.alert('Notifications are blocked for this site, so reminders stay off. Allow them in your browser settings and try again.');
+        enabled = false;
+      }
+    }
+    recordHistory(enabled ? 'Updated reminders' : 'Turned off reminders');
+    setSettings({ ...settings, reminders: { ...reminderDraft, enabled } });
+    setReminderDraft(null);
+  };
+
+  // CSS utility for Death Stranding border effect
+  const borderStyle = "relative before:content-[''] before:absolute before:left-0 before:top-0 before:right-0 before:h-px before:bg-cyan-400 before:opacity-40 after:content-[''] after:absolute after:bottom-0 after:left-0 after:right-0 after:h-px after:bg-cyan-400 after:opacity-40";
+  
+  // CSS utility for dotted separation line
+  const dottedSeparator = "border-dashed border-cyan-700/30 border-t my-4";
+  
+  // Marker elements for the DS UI style
+  const Marker = ({position = "top-left"}: {position: "top-left" | "top-right" | "bottom-left" | "bottom-right"}) => {
+    const positionClasses: Record<"top-left" | "top-right" | "bottom-left" | "bottom-right", string> = {
+      "top-left": "top-0 left-0",
+      "top-right": "top-0 right-0",
+      "bottom-left": "bottom-0 left-0",
+      "bottom-right": "bottom-0 right-0",
+    };
+    
+    return (
+      <div className={`absolute w-3 h-3 ${positionClasses[position]}`}>
+        <div className="absolute top-0 left-0 w-2 h-px bg-cyan-400"></div>
+        <div className="absolute top-0 left-0 w-px h-2 bg-cyan-400"></div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-screen text-cyan-400 font-mono relative overflow-hidden">
+      {/* Add holographic animations */}
       <style dangerouslySetInnerHTML={{ __html: holographicAnimations }} />
       
       {/* Main background blur and gradients with enhanced atmospheric depth */}
@@ -1124,6 +3123,39 @@ const StrandSystem = () => {
             <div className="animate-pulse-slow absolute -z-10 inset-0 bg-gradient-to-r from-transparent via-cyan-950/20 to-transparent"></div>
           </div>
           <div className="text-sm text-cyan-300 tracking-wider opacity-80">CONNECTION MANAGEMENT SYSTEM</div>
+          <div className="ml-4 flex items-center text-xs tracking-wider">
+            <span className="opacity-70 mr-2">PROFILE</span>
+            <select
+              value={activeProfileId}
+              onChange={(e) => switchProfile(e.target.value)}
+              disabled={!isLoaded}
+              className="bg-black border border-cyan-800/30 p-1 text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+            >
+              {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+            </select>
+            <button
+              onClick={() => setShowProfilesModal(true)}
+              disabled={!isLoaded}
+              className="ml-2 text-cyan-300 hover:text-cyan-100 hover:shadow-[0_0_8px_rgba(0,200,255,0.3)] transition-all duration-300"
+            >
+              MANAGE
+            </button>
+            {isEncrypted && (
+              <button
+                onClick={lockNow}
+                disabled={!isLoaded}
+                className="ml-2 text-cyan-300 hover:text-cyan-100 hover:shadow-[0_0_8px_rgba(0,200,255,0.3)] transition-all duration-300"
+                title="Forget the key until the passphrase is entered again"
+              >
+                LOCK
+              </button>
+            )}
+          </div>
+          {!isOnline && (
+            <div className="ml-4 text-[10px] tracking-wider text-amber-400 border border-dashed border-amber-800/50 px-2 py-0.5" title="Everything keeps working; changes are saved on this device">
+              OFFLINE · SAVED ON DEVICE
+            </div>
+          )}
         </div>
         <div className="flex items-center">
           <div className="relative px-4 py-2 mr-4 bg-gradient-to-b from-cyan-900/30 to-transparent">
@@ -1174,10 +3206,37 @@ const StrandSystem = () => {
             </button>
           </div>
           
+          {storageError && (
+            <div className="text-xs border border-red-800/50 bg-red-900/10 text-red-400 p-2 mb-3">
+              STORAGE ERROR: {storageError}
+            </div>
+          )}
+          
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mb-3 text-[10px] tracking-wider">
+              <button
+                onClick={() => setTagFilter(null)}
+                className={`px-1.5 py-0.5 ${tagFilter === null ? 'bg-cyan-900/50 text-cyan-100' : 'bg-cyan-900/10 hover:bg-cyan-900/30'}`}
+              >
+                ALL
+              </button>
+              {tags.map(tag => (
+                <button
+                  key={tag.id}
+                  onClick={() => setTagFilter(tagFilter === tag.id ? null : tag.id)}
+                  className={`px-1.5 py-0.5 border ${tagFilter === tag.id ? 'bg-cyan-900/50 text-cyan-100' : 'bg-cyan-900/10 hover:bg-cyan-900/30'}`}
+                  style={{ borderColor: `${tag.color}80` }}
+                >
+                  <span style={{ color: tag.color }}>●</span> {tag.label.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          )}
+          
           <div className="space-y-3">
-            {connections.map(connection => {
+            {visibleConnections.map(connection => {
               const currentStrength = getCurrentStrength(connection);
-              const level = getConnectionLevel(currentStrength);
+              const level = getConnectionLevel(currentStrength, settings.levels);
               return (
                 <div 
                   key={connection.id}
@@ -1199,7 +3258,12 @@ const StrandSystem = () => {
                   <div className="absolute inset-0 bg-cyan-500/0 group-hover:bg-cyan-500/5 transition-colors duration-300"></div>
                   
                   <div className="flex justify-between">
-                    <div className="font-light">{connection.name}</div>
+                    <div className="font-light">
+                      {connection.name}
+                      {connection.tags.map(tagId => getTag(tags, tagId)).filter(tag => !!tag).map(tag => (
+                        <span key={tag.id} className="ml-1 text-[8px] align-middle" style={{ color: tag.color }} title={tag.label}>●</span>
+                      ))}
+                    </div>
                     <div className="text-lg">{level.badge}</div>
                   </div>
                   <div className="flex justify-between text-xs mt-1">
@@ -1247,7 +3311,11 @@ const StrandSystem = () => {
                   
                   <div className="font-light text-amber-400">{connection.name}</div>
                   <div className="opacity-70 mt-1 flex justify-between">
-                    <span>NO CONTACT</span>
+                    <span>
+                      {getCurrentStrength(connection) < getDormantThreshold(settings.levels)
+                        ? 'NO CONTACT'
+                        : `BELOW ${getConnectionLevel(getTargetStrength(connection, settings.levels), settings.levels).label.toUpperCase()}`}
+                    </span>
                     <span className="font-light">{getDaysSinceContact(connection.lastContact)}d</span>
                   </div>
                 </div>
@@ -1255,11 +3323,158 @@ const StrandSystem = () => {
               
               {getNeedAttentionConnections().length === 0 && (
                 <div className="text-xs opacity-50 text-center p-2">
-                  No dormant connections
+                  No connections below target
                 </div>
               )}
             </div>
           </div>
+          
+          <div className={dottedSeparator}></div>
+          
+          <div className="mt-4">
+            <div className="flex justify-between items-center text-xs mb-2 tracking-wider">
+              <span className="opacity-70">
+                <span className="mr-2">- - -</span>
+                GROUPS
+                <span className="ml-2">- - -</span>
+              </span>
+              <button onClick={() => setShowTagsModal(true)} className="text-cyan-400 hover:text-cyan-200">MANAGE</button>
+            </div>
+            <div className="space-y-1 text-xs">
+              {tags.map(tag => {
+                const stats = getTagStats(connections, tag.id, systemClock, settings.levels);
+                return (
+                  <button
+                    key={tag.id}
+                    onClick={() => setTagFilter(tagFilter === tag.id ? null : tag.id)}
+                    className={`w-full p-1.5 text-left relative ${tagFilter === tag.id ? 'bg-cyan-900/40' : 'hover:bg-cyan-900/20'}`}
+                  >
+                    <div className="absolute left-0 top-0 bottom-0 w-0.5" style={{ backgroundColor: tag.color }}></div>
+                    <div className="flex justify-between pl-1">
+                      <span className="font-light">{tag.label}</span>
+                      <span className="opacity-70">{stats.count}</span>
+                    </div>
+                    <div className="flex justify-between pl-1 text-[10px] opacity-60">
+                      <span>AVG {Math.round(stats.averageStrength).toString().padStart(2, '0')}</span>
+                      <span className={stats.atRisk > 0 ? 'text-amber-400' : ''}>{stats.atRisk} AT RISK</span>
+                    </div>
+                  </button>
+                );
+              })}
+              {tags.length === 0 && (
+                <div className="opacity-50 text-center p-2">No groups defined</div>
+              )}
+            </div>
+          </div>
+          
+          <div className={dottedSeparator}></div>
+          
+          <button 
+            onClick={loadDemoNetwork}
+            disabled={!isLoaded}
+            className="w-full text-xs tracking-wider py-1 text-cyan-500/70 hover:text-cyan-300 hover:bg-cyan-900/20 transition-all duration-300"
+          >
+            LOAD DEMO NETWORK
+          </button>
+          
+          <div className="flex space-x-2 mt-2">
+            <button 
+              onClick={handleExportBackup}
+              disabled={!isLoaded}
+              className="flex-1 text-xs tracking-wider py-1 text-cyan-500/70 hover:text-cyan-300 hover:bg-cyan-900/20 transition-all duration-300"
+            >
+              EXPORT
+            </button>
+            <button 
+              onClick={() => importInputRef.current?.click()}
+              disabled={!isLoaded}
+              className="flex-1 text-xs tracking-wider py-1 text-cyan-500/70 hover:text-cyan-300 hover:bg-cyan-900/20 transition-all duration-300"
+            >
+              IMPORT
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImportFile(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          
+          <button 
+            onClick={() => setBackupPassphraseDraft({ mode: 'export', text: '', passphrase: '', confirm: '', error: null, isBusy: false })}
+            disabled={!isLoaded || !isCryptoSupported()}
+            className="w-full mt-2 text-xs tracking-wider py-1 text-cyan-500/70 hover:text-cyan-300 hover:bg-cyan-900/20 transition-all duration-300"
+          >
+            EXPORT ENCRYPTED
+          </button>
+          
+          <button 
+            onClick={() => vcardInputRef.current?.click()}
+            disabled={!isLoaded}
+            className="w-full mt-2 text-xs tracking-wider py-1 text-cyan-500/70 hover:text-cyan-300 hover:bg-cyan-900/20 transition-all duration-300"
+          >
+            IMPORT CONTACTS (.VCF)
+          </button>
+          <input
+            ref={vcardInputRef}
+            type="file"
+            accept="text/vcard,text/x-vcard,.vcf,.vcard"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleVCardFile(file);
+              e.target.value = '';
+            }}
+          />
+          
+          <button 
+            onClick={() => setGainModelDraft({ ...settings.gainModel })}
+            disabled={!isLoaded}
+            className="w-full mt-2 text-xs tracking-wider py-1 text-cyan-500/70 hover:text-cyan-300 hover:bg-cyan-900/20 transition-all duration-300"
+          >
+            GAIN MODEL
+          </button>
+          
+          <button 
+            onClick={() => setLevelsDraft(settings.levels.map(rung => ({ ...rung })))}
+            disabled={!isLoaded}
+            className="w-full mt-2 text-xs tracking-wider py-1 text-cyan-500/70 hover:text-cyan-300 hover:bg-cyan-900/20 transition-all duration-300"
+          >
+            LEVEL LADDER
+          </button>
+          
+          <button 
+            onClick={() => {
+              setReminderPermission(getReminderPermission());
+              setReminderDraft({ ...settings.reminders });
+            }}
+            disabled={!isLoaded}
+            className="w-full mt-2 text-xs tracking-wider py-1 text-cyan-500/70 hover:text-cyan-300 hover:bg-cyan-900/20 transition-all duration-300"
+          >
+            REMINDERS {settings.reminders.enabled ? '· ON' : '· OFF'}
+          </button>
+          {reminderError && settings.reminders.enabled && (
+            <div className="text-[10px] border border-red-800/50 bg-red-900/10 text-red-400 p-2 mt-1">
+              REMINDER ERROR: {reminderError}
+            </div>
+          )}
+          
+          <button 
+            onClick={() => setEncryptionDraft({ current: '', next: '', confirm: '', idleLockMinutes, error: null, isBusy: false })}
+            disabled={!isLoaded || !isCryptoSupported()}
+            className="w-full mt-2 text-xs tracking-wider py-1 text-cyan-500/70 hover:text-cyan-300 hover:bg-cyan-900/20 transition-all duration-300"
+          >
+            ENCRYPTION {isEncrypted ? '· ON' : '· OFF'}
+          </button>
+          
+          {importSummary && (
+            <div className="mt-2 text-[10px] opacity-70 leading-relaxed">{importSummary}</div>
+          )}
         </div>
         
         {/* Main panel - added glow and depth */}
@@ -1272,7 +3487,7 @@ const StrandSystem = () => {
             <div className="absolute bottom-0 left-0 right-0 h-px bg-gradient-to-r from-transparent via-cyan-500/30 to-transparent"></div>
             <Marker position="top-left" />
             <Marker position="top-right" />
-            {['NETWORK', 'STAR CHART', 'INTERACTION LOG', 'TIMEFALL FORECAST'].map((view, index) => {
+            {['NETWORK', 'STAR CHART', 'INTERACTION LOG', 'TIMEFALL FORECAST', 'MAINTENANCE'].map((view, index) => {
               const viewValue = view.toLowerCase().replace(/\s+/g, '-');
               return (
                 <button
@@ -1315,33 +3530,109 @@ const StrandSystem = () => {
                     <div className="text-xs opacity-70">
                       Strand connection visualization system
                     </div>
+                    <button
+                      onClick={() => setShowBridges(!showBridges)}
+                      className={`ml-auto px-2 py-0.5 text-xs tracking-wider ${showBridges ? 'bg-yellow-900/40 text-yellow-200' : 'bg-cyan-900/10 hover:bg-cyan-900/30'}`}
+                    >
+                      BRIDGES
+                    </button>
                   </div>
                   
-                  <div className="flex-1 relative bg-black/10 h-[calc(100%-4rem)] overflow-hidden">
-                    {/* Corner markers */}
-                    <div className="absolute top-0 left-0 w-3 h-px bg-cyan-400"></div>
-                    <div className="absolute top-0 left-0 w-px h-3 bg-cyan-400"></div>
-                    <div className="absolute top-0 right-0 w-3 h-px bg-cyan-400"></div>
-                    <div className="absolute top-0 right-0 w-px h-3 bg-cyan-400"></div>
-                    <div className="absolute bottom-0 left-0 w-3 h-px bg-cyan-400"></div>
+                  {/* Time scrubber: replay the past, project the future */}
+                  <div className="flex items-center gap-3 mb-3 px-4 text-xs">
+                    <button
+                      onClick={toggleScrubPlayback}
+                      className={`w-16 px-2 py-0.5 tracking-wider ${isScrubPlaying ? 'bg-cyan-700/40 text-cyan-100' : 'bg-cyan-900/20 hover:bg-cyan-900/40'}`}
+                    >
+                      {isScrubPlaying ? '❚❚ STOP' : '▶ PLAY'}
+                    </button>
+                    <span className="opacity-50 font-mono">{scrubMinDays}D</span>
+                    <input
+                      type="range"
+                      min={scrubMinDays}
+                      max={SCRUB_FORECAST_DAYS}
+                      step={1}
+                      value={Math.max(scrubMinDays, scrubDays)}
+                      onChange={(e) => {
+                        setIsScrubPlaying(false);
+                        setScrubDays(Number(e.target.value));
+                      }}
+                      className="flex-1 accent-cyan-400"
+                    />
+                    <span className="opacity-50 font-mono">+{SCRUB_FORECAST_DAYS}D</span>
+                    <div className={`w-48 text-right font-mono tracking-wider ${scrubDays === 0 ? 'text-cyan-300' : scrubDays < 0 ? 'text-blue-300' : 'text-yellow-200'}`}>
+                      {scrubbedNetwork.clock.now().toLocaleDateString()} · {scrubDays === 0 ? 'NOW' : scrubDays < 0 ? `REPLAY ${-scrubDays}D AGO` : `FORECAST +${scrubDays}D`}
+                    </div>
+                    <button
+                      onClick={() => {
+                        setIsScrubPlaying(false);
+                        setScrubDays(0);
+                      }}
+                      disabled={scrubDays === 0}
+                      className="px-2 py-0.5 bg-cyan-900/20 hover:bg-cyan-900/40 tracking-wider disabled:opacity-40"
+                    >
+                      NOW
+                    </button>
+                  </div>
+                  
+                  <div className="flex-1 relative bg-black/10 h-[calc(100%-6.5rem)] overflow-hidden">
+                    {/* Corner markers */}
+                    <div className="absolute top-0 left-0 w-3 h-px bg-cyan-400"></div>
+                    <div className="absolute top-0 left-0 w-px h-3 bg-cyan-400"></div>
+                    <div className="absolute top-0 right-0 w-3 h-px bg-cyan-400"></div>
+                    <div className="absolute top-0 right-0 w-px h-3 bg-cyan-400"></div>
+                    <div className="absolute bottom-0 left-0 w-3 h-px bg-cyan-400"></div>
                     <div className="absolute bottom-0 left-0 w-px h-3 bg-cyan-400"></div>
                     <div className="absolute bottom-0 right-0 w-3 h-px bg-cyan-400"></div>
                     <div className="absolute bottom-0 right-0 w-px h-3 bg-cyan-400"></div>
                     
                     {/* D3 Network Visualization - This will be rendered with useEffect */}
                     <NetworkGraph 
-                      connections={connections} 
+                      connections={scrubbedNetwork.connections} 
+                      relationships={relationships}
+                      tags={tags}
+                      levels={settings.levels}
+                      ownerName={getOwnerLabel(activeProfile)}
+                      showBridges={showBridges}
+                      clock={scrubbedNetwork.clock}
                       selectedConnectionId={selectedConnection?.id} 
                       setSelectedConnection={setSelectedConnection} 
-                      getCurrentStrength={getCurrentStrength}
-                      getConnectionLevel={getConnectionLevel}
                     />
                     
                     {/* Meta info overlay */}
                     <div className="absolute bottom-3 left-3 text-[10px] text-cyan-500/30 font-mono tracking-wider animate-pulse-slower">
-                      NODES: {connections.length + 1} | STRANDS: {connections.length} | UCA CONNECTION: ACTIVE
+                      NODES: {scrubbedNetwork.connections.length + 1} | STRANDS: {scrubbedNetwork.connections.length + relationships.length} | CLUSTERS: {findClusters(connections, relationships).length} | UCA CONNECTION: ACTIVE
                     </div>
                     
+                    {/* Contacts that hold separate groups together */}
+                    {showBridges && (() => {
+                      const bridges = findBridges(connections, relationships);
+                      const nameOf = (id: number) => connections.find(conn => conn.id === id)?.name || 'Unknown';
+                      return (
+                        <div className="absolute left-4 top-14 w-72 bg-black/60 border border-yellow-900/50 p-3 backdrop-blur-sm text-xs">
+                          <div className="tracking-wider text-yellow-200 mb-2">BRIDGES</div>
+                          {bridges.length === 0 ? (
+                            <div className="opacity-70">No single contact connects otherwise separate groups.</div>
+                          ) : (
+                            <div className="space-y-2">
+                              {bridges.map(bridge => (
+                                <button
+                                  key={bridge.connectionId}
+                                  onClick={() => setSelectedConnection(connections.find(conn => conn.id === bridge.connectionId) || null)}
+                                  className="block w-full text-left hover:bg-yellow-900/20 p-1"
+                                >
+                                  <div className="font-light">{nameOf(bridge.connectionId)} links {bridge.groups.length} groups</div>
+                                  <div className="text-[10px] opacity-60">
+                                    {bridge.groups.map(group => group.map(nameOf).join(', ')).join(' ↔ ')}
+                                  </div>
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })()}
+                    
                     {/* Coordinate grid markers */}
                     <div className="absolute top-3 right-3 text-[10px] text-cyan-500/30 font-mono tracking-wider animate-pulse-slower">
                       SEC A3 | MAP REF: 1140.2-38
@@ -1353,7 +3644,7 @@ const StrandSystem = () => {
                         <div className="flex justify-between items-center mb-2">
                           <div className="text-sm font-light tracking-wider">{selectedConnection.name}</div>
                           <div className="text-cyan-300">
-                            {getConnectionLevel(getCurrentStrength(selectedConnection)).badge}
+                            {getConnectionLevel(getCurrentStrength(selectedConnection), settings.levels).badge}
                           </div>
                         </div>
                         
@@ -1370,10 +3661,15 @@ const StrandSystem = () => {
                         </div>
                         
                         <div className="text-[10px] opacity-60">
-                          Time to dormancy: {getDaysUntilThreshold(selectedConnection, 15)} days
+                          Time to dormancy: {getDaysUntilThreshold(selectedConnection, getDormantThreshold(settings.levels))} days
                         </div>
+                        {selectedConnection.targetLevel !== undefined && (
+                          <div className="text-[10px] opacity-60">
+                            Time to leave target ({getConnectionLevel(getTargetStrength(selectedConnection, settings.levels), settings.levels).label}): {getDaysUntilThreshold(selectedConnection, getTargetStrength(selectedConnection, settings.levels))} days
+                          </div>
+                        )}
                         
-                        {getDaysUntilThreshold(selectedConnection, 15) <= 7 && (
+                        {isAtRisk(selectedConnection, systemClock, settings.levels) && (
                           <div className="mt-1.5 text-[10px] text-red-400 animate-pulse-fast">
                             WARNING: CRITICAL STRAND WEAKENING DETECTED
                           </div>
@@ -1386,13 +3682,177 @@ const StrandSystem = () => {
               
               {statsView === 'star-chart' && (
                 <div className="h-full">
-                  {selectedConnection ? (
+                  {starChartMode === 'ranking' ? (
+                    <div className="p-4">
+                      <div className="flex items-center mb-4 bg-gradient-to-r from-cyan-900/10 to-transparent px-4 py-2">
+                        <div className="text-xl font-light tracking-wider mr-3">STAR CHART: RANKING</div>
+                        <div className="text-xs opacity-70">
+                          Everyone ranked by one dimension
+                        </div>
+                        <div className="ml-auto">
+                          <div className="flex space-x-1 text-xs">
+                          {(['chart', 'ranking'] as const).map(mode => (
+                            <button
+                              key={mode}
+                              onClick={() => setStarChartMode(mode)}
+                              className={`px-2 py-0.5 tracking-wider ${starChartMode === mode ? 'bg-cyan-900/50 text-cyan-100' : 'bg-cyan-900/10 hover:bg-cyan-900/30'}`}
+                            >
+                              {mode.toUpperCase()}
+                            </button>
+                          ))}
+                        </div>
+                        </div>
+                      </div>
+                      
+                      <div className="flex space-x-1 text-xs mb-4 px-4">
+                        <span className="opacity-60 mr-1 self-center">RANK BY</span>
+                        {SCORE_DIMENSIONS.map(key => (
+                          <button
+                            key={key}
+                            onClick={() => setRankingDimension(key)}
+                            className={`px-2 py-0.5 tracking-wider ${rankingDimension === key ? 'bg-cyan-900/50 text-cyan-100' : 'bg-cyan-900/10 hover:bg-cyan-900/30'}`}
+                          >
+                            {key.toUpperCase()}
+                          </button>
+                        ))}
+                      </div>
+                      
+                      {visibleConnections.length === 0 ? (
+                        <div className="text-center text-cyan-300/60 py-12">No connections to rank</div>
+                      ) : (
+                        <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-3">
+                          {rankByScore(
+                            visibleConnections.map(conn => ({ connection: conn, scores: getLiveScores(conn, activities, interactionTypes) })),
+                            rankingDimension
+                          ).map(({ connection, scores }, rank) => (
+                            <button
+                              key={connection.id}
+                              onClick={() => {
+                                setSelectedConnection(connection);
+                                setStarChartMode('chart');
+                              }}
+                              className={`relative p-2 text-left bg-black/20 hover:bg-cyan-900/20 ${connection.id === selectedConnectionId ? 'border border-cyan-500/40' : 'border border-transparent'}`}
+                            >
+                              <div className="absolute top-0 left-0 w-2 h-px bg-cyan-400"></div>
+                              <div className="absolute top-0 left-0 w-px h-2 bg-cyan-400"></div>
+                              <div className="flex justify-between items-baseline text-xs">
+                                <span className="opacity-60 font-mono">#{rank + 1}</span>
+                                <span className="truncate mx-2 tracking-wider">{connection.name}</span>
+                                <span className="text-lg font-light text-cyan-300">{scores[rankingDimension]}</span>
+                              </div>
+                              <svg width="120" height="120" viewBox="0 0 120 120" className="mx-auto">
+                                <circle cx="60" cy="60" r="50" fill="none" stroke="rgba(6, 182, 212, 0.1)" />
+                                <circle cx="60" cy="60" r="25" fill="none" stroke="rgba(6, 182, 212, 0.1)" />
+                                {SCORE_DIMENSIONS.map((key, i) => {
+                                  const [x, y] = getRadarPoint(i, 100, 60, 50);
+                                  return (
+                                    <line
+                                      key={key}
+                                      x1="60"
+                                      y1="60"
+                                      x2={x}
+                                      y2={y}
+                                      stroke={key === rankingDimension ? 'rgba(6, 182, 212, 0.7)' : 'rgba(6, 182, 212, 0.2)'}
+                                      strokeDasharray="2,3"
+                                    />
+                                  );
+                                })}
+                                <path
+                                  d={getRadarPath(scores, 60, 50)}
+                                  fill="rgba(6, 182, 212, 0.2)"
+                                  stroke="rgba(6, 182, 212, 0.6)"
+                                  strokeWidth="1"
+                                />
+                              </svg>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ) : selectedConnection && selectedScores ? (
                     <div className="p-4">
-                      <div className="flex items-center mb-6 bg-gradient-to-r from-cyan-900/10 to-transparent px-4 py-2">
-                        <div className="text-xl font-light tracking-wider mr-3">STAR CHART: {selectedConnection.name.toUpperCase()}</div>
+                      <div className="flex items-center mb-4 bg-gradient-to-r from-cyan-900/10 to-transparent px-4 py-2">
+                        <div className="text-xl font-light tracking-wider mr-3">STAR CHART: {isComparing ? 'COMPARISON' : selectedConnection.name.toUpperCase()}</div>
                         <div className="text-xs opacity-70">
                           Connection quality metrics visualization
                         </div>
+                        <div className="ml-auto flex items-center space-x-3">
+                          {!isComparing && (
+                            <div className="flex space-x-1 text-xs">
+                              <span className="opacity-60 mr-1 self-center">COMPARE</span>
+                              {[null, 30, 90].map(days => (
+                                <button
+                                  key={days ?? 'none'}
+                                  onClick={() => setStarChartOverlay(days)}
+                                  className={`px-2 py-0.5 ${starChartOverlay === days ? 'bg-cyan-900/50 text-cyan-100' : 'bg-cyan-900/10 hover:bg-cyan-900/30'}`}
+                                >
+                                  {days === null ? 'OFF' : `${days}D AGO`}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                          <div className="flex space-x-1 text-xs">
+                          {(['chart', 'ranking'] as const).map(mode => (
+                            <button
+                              key={mode}
+                              onClick={() => setStarChartMode(mode)}
+                              className={`px-2 py-0.5 tracking-wider ${starChartMode === mode ? 'bg-cyan-900/50 text-cyan-100' : 'bg-cyan-900/10 hover:bg-cyan-900/30'}`}
+                            >
+                              {mode.toUpperCase()}
+                            </button>
+                          ))}
+                        </div>
+                        </div>
+                      </div>
+                      
+                      {/* Legend and comparison pickers */}
+                      <div className="flex flex-wrap items-center gap-2 mb-4 px-4 text-xs">
+                        {starChartSeries.map((series, i) => (
+                          <div key={series.id} className="flex items-center bg-black/30 px-2 py-0.5">
+                            <span className="w-3 h-0.5 mr-2" style={{ backgroundColor: series.color }}></span>
+                            <span className="tracking-wider">{series.label}</span>
+                            {i > 0 && (
+                              <button
+                                onClick={() => {
+                                  if (compareGroupId) setCompareGroupId(null);
+                                  else setCompareIds(compareIds.filter(id => id.toString() !== series.id));
+                                }}
+                                className="ml-2 opacity-60 hover:opacity-100"
+                                title="Remove from comparison"
+                              >
+                                ✕
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                        <select
+                          value=""
+                          onChange={(e) => {
+                            setCompareGroupId(null);
+                            setCompareIds([...comparedConnections.map(conn => conn.id), Number(e.target.value)]);
+                          }}
+                          disabled={!compareGroup && starChartSeries.length >= MAX_COMPARED}
+                          className="ml-auto bg-black/50 border border-cyan-900/50 px-2 py-0.5 tracking-wider disabled:opacity-40"
+                        >
+                          <option value="" disabled>+ CONNECTION</option>
+                          {connections
+                            .filter(conn => conn.id !== selectedConnection.id && !comparedConnections.includes(conn))
+                            .map(conn => (
+                              <option key={conn.id} value={conn.id}>{conn.name}</option>
+                            ))}
+                        </select>
+                        <select
+                          value={compareGroupId || ''}
+                          onChange={(e) => setCompareGroupId(e.target.value || null)}
+                          className="bg-black/50 border border-cyan-900/50 px-2 py-0.5 tracking-wider"
+                        >
+                          <option value="">GROUP AVERAGE: OFF</option>
+                          {tags
+                            .filter(tag => connections.some(conn => conn.tags.includes(tag.id)))
+                            .map(tag => (
+                              <option key={tag.id} value={tag.id}>{tag.label} average</option>
+                            ))}
+                        </select>
                       </div>
                       
                       <div className="flex flex-col md:flex-row gap-6">
@@ -1414,8 +3874,8 @@ const StrandSystem = () => {
                             <circle cx="150" cy="150" r="30" fill="none" stroke="rgba(6, 182, 212, 0.1)" />
                             
                             {/* Axis lines */}
-                            {Object.keys(selectedConnection.scores).map((key, i) => {
-                              const angle = (i / Object.keys(selectedConnection.scores).length) * Math.PI * 2;
+                            {Object.keys(selectedScores).map((key, i) => {
+                              const angle = (i / Object.keys(selectedScores).length) * Math.PI * 2;
                               return (
                                 <line 
                                   key={key}
@@ -1430,8 +3890,8 @@ const StrandSystem = () => {
                             })}
                             
                             {/* Data points */}
-                            {Object.entries(selectedConnection.scores).map(([key, value], i) => {
-                              const angle = (i / Object.keys(selectedConnection.scores).length) * Math.PI * 2;
+                            {Object.entries(selectedScores).map(([key, value], i) => {
+                              const angle = (i / Object.keys(selectedScores).length) * Math.PI * 2;
                               const radius = (value / 100) * 120;
                               const x = 150 + Math.cos(angle) * radius;
                               const y = 150 + Math.sin(angle) * radius;
@@ -1468,11 +3928,46 @@ const StrandSystem = () => {
                               );
                             })}
                             
+                            {/* Compared connections or group average */}
+                            {starChartSeries.slice(1).map(series => (
+                              <g key={series.id}>
+                                <path
+                                  d={getRadarPath(series.scores, 150, 120)}
+                                  fill={series.color}
+                                  fillOpacity="0.08"
+                                  stroke={series.color}
+                                  strokeOpacity="0.8"
+                                  strokeWidth="1.5"
+                                />
+                                {SCORE_DIMENSIONS.map((key, i) => {
+                                  const [x, y] = getRadarPoint(i, series.scores[key], 150, 120);
+                                  return <circle key={key} cx={x} cy={y} r="3" fill={series.color} />;
+                                })}
+                              </g>
+                            ))}
+                            
+                            {/* Earlier scores for comparison */}
+                            {overlayScores && !isComparing && (
+                              <path
+                                d={
+                                  Object.values(overlayScores).map((value, i) => {
+                                    const angle = (i / Object.keys(overlayScores).length) * Math.PI * 2;
+                                    const radius = (value / 100) * 120;
+                                    return (i === 0 ? "M" : "L") + (150 + Math.cos(angle) * radius) + "," + (150 + Math.sin(angle) * radius);
+                                  }).join(" ") + "Z"
+                                }
+                                fill="none"
+                                stroke="rgba(250, 204, 21, 0.6)"
+                                strokeWidth="1"
+                                strokeDasharray="4,3"
+                              />
+                            )}
+                            
                             {/* Connect the points */}
                             <path 
                               d={
-                                Object.entries(selectedConnection.scores).map(([key, value], i) => {
-                                  const angle = (i / Object.keys(selectedConnection.scores).length) * Math.PI * 2;
+                                Object.entries(selectedScores).map(([key, value], i) => {
+                                  const angle = (i / Object.keys(selectedScores).length) * Math.PI * 2;
                                   const radius = (value / 100) * 120;
                                   const x = 150 + Math.cos(angle) * radius;
                                   const y = 150 + Math.sin(angle) * radius;
@@ -1497,41 +3992,87 @@ const StrandSystem = () => {
                             <div className="absolute bottom-0 right-0 w-2 h-px bg-cyan-400"></div>
                             <div className="absolute bottom-0 right-0 w-px h-2 bg-cyan-400"></div>
                             
-                            <div className="text-lg font-light mb-4">Connection Quality Metrics</div>
-                            
-                            {Object.entries(selectedConnection.scores).map(([key, value]) => (
-                              <div key={key} className="mb-3">
-                                <div className="flex justify-between">
-                                  <div className="uppercase text-xs opacity-70">{key}</div>
-                                  <div className="text-xl font-light tracking-tighter">{value.toString().padStart(2, '0')}</div>
+                            {isComparing ? (
+                              <>
+                                <div className="text-lg font-light mb-4">Dimension Comparison</div>
+                                
+                                {SCORE_DIMENSIONS.map(key => (
+                                  <div key={key} className="mb-3">
+                                    <div className="uppercase text-xs opacity-70 mb-1">{key}</div>
+                                    {starChartSeries.map((series, i) => {
+                                      const diff = getScoreDiffs(series.scores, starChartSeries[0].scores)[key];
+                                      return (
+                                        <div key={series.id} className="flex items-center text-xs mb-0.5">
+                                          <div className="w-24 truncate opacity-80">{series.label}</div>
+                                          <div className="flex-1 h-1 bg-black/30 mx-2 overflow-hidden">
+                                            <div className="h-full" style={{ width: `${Math.min(series.scores[key], 100)}%`, backgroundColor: series.color }} />
+                                          </div>
+                                          <div className="w-6 text-right font-light">{series.scores[key]}</div>
+                                          <div className={`w-10 text-right text-[10px] ${i === 0 || diff === 0 ? 'opacity-40' : diff > 0 ? 'text-cyan-300' : 'text-yellow-400'}`}>
+                                            {i === 0 ? 'REF' : `${diff > 0 ? '+' : ''}${diff}`}
+                                          </div>
+                                        </div>
+                                      );
+                                    })}
+                                  </div>
+                                ))}
+                                
+                                <div className="mt-4 border-t border-dashed border-cyan-800/30 pt-3 text-xs opacity-70">
+                                  Differences are relative to {selectedConnection.name}.
                                 </div>
-                                <div className="mt-1 h-1 bg-black/30 w-full overflow-hidden">
-                                  <div 
-                                    className="h-full bg-cyan-500"
-                                    style={{ width: `${value}%` }}
-                                  />
+                              </>
+                            ) : (
+                              <>
+                              <div className="text-lg font-light mb-4">Connection Quality Metrics</div>
+                            
+                              {Object.entries(selectedScores).map(([key, value]) => {
+                                const earlier = overlayScores?.[key as keyof ConnectionScores];
+                                return (
+                                <div key={key} className="mb-3">
+                                  <div className="flex justify-between">
+                                    <div className="uppercase text-xs opacity-70">{key}</div>
+                                    <div className="flex items-baseline">
+                                      {earlier !== undefined && earlier !== value && (
+                                        <span className={`text-[10px] mr-2 ${value > earlier ? 'text-cyan-300' : 'text-yellow-400'}`}>
+                                          {value > earlier ? '+' : ''}{value - earlier} vs {starChartOverlay}d
+                                        </span>
+                                      )}
+                                      <div className="text-xl font-light tracking-tighter">{value.toString().padStart(2, '0')}</div>
+                                    </div>
+                                  </div>
+                                  <div className="mt-1 h-1 bg-black/30 w-full overflow-hidden relative">
+                                    <div 
+                                      className="h-full bg-cyan-500"
+                                      style={{ width: `${value}%` }}
+                                    />
+                                    {earlier !== undefined && (
+                                      <div className="absolute top-0 h-full w-px bg-yellow-400" style={{ left: `${Math.min(earlier, 100)}%` }} />
+                                    )}
+                                  </div>
                                 </div>
-                              </div>
-                            ))}
+                                );
+                              })}
                             
-                            <div className="mt-6 border-t border-dashed border-cyan-800/30 pt-4">
-                              <div className="text-lg font-light mb-2">Metrics Analysis</div>
-                              <div className="text-sm opacity-80">
-                                The connection with {selectedConnection.name} shows 
-                                {Math.max(...Object.values(selectedConnection.scores)) >= 80 ? 
-                                  " excellent scores in " + Object.entries(selectedConnection.scores)
-                                    .filter(([_, value]) => value >= 80)
-                                    .map(([key]) => key)
-                                    .join(", ") : 
-                                  " good overall quality"}.
-                                {Math.min(...Object.values(selectedConnection.scores)) <= 40 ? 
-                                  " Improvement areas include " + Object.entries(selectedConnection.scores)
-                                    .filter(([_, value]) => value <= 40)
-                                    .map(([key]) => key)
-                                    .join(", ") + "." : 
-                                  ""}
+                              <div className="mt-6 border-t border-dashed border-cyan-800/30 pt-4">
+                                <div className="text-lg font-light mb-2">Metrics Analysis</div>
+                                <div className="text-sm opacity-80">
+                                  The connection with {selectedConnection.name} shows 
+                                  {Math.max(...Object.values(selectedScores)) >= 80 ? 
+                                    " excellent scores in " + Object.entries(selectedScores)
+                                      .filter(([_, value]) => value >= 80)
+                                      .map(([key]) => key)
+                                      .join(", ") : 
+                                    " good overall quality"}.
+                                  {Math.min(...Object.values(selectedScores)) <= 40 ? 
+                                    " Improvement areas include " + Object.entries(selectedScores)
+                                      .filter(([_, value]) => value <= 40)
+                                      .map(([key]) => key)
+                                      .join(", ") + "." : 
+                                    ""}
+                                </div>
                               </div>
-                            </div>
+                              </>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -1541,6 +4082,12 @@ const StrandSystem = () => {
                       <div>
                         <div className="text-3xl mb-6 font-light animate-glow">STAR CHART</div>
                         <p className="text-cyan-300/60">Select connections from the sidebar</p>
+                        <button
+                          onClick={() => setStarChartMode('ranking')}
+                          className="mt-4 px-3 py-1 text-xs tracking-wider bg-cyan-900/20 hover:bg-cyan-900/40"
+                        >
+                          RANK EVERYONE
+                        </button>
                       </div>
                     </div>
                   )}
@@ -1561,6 +4108,7 @@ const StrandSystem = () => {
                       .filter(activity => !selectedConnection || activity.connectionId === selectedConnection.id)
                       .map(activity => {
                         const connection = connections.find(c => c.id === activity.connectionId);
+                        const gain = gainBreakdowns?.get(activity.id);
                         return (
                           <div key={activity.id} className="p-4 bg-cyan-900/10 relative">
                             <div className="absolute top-0 left-0 w-2 h-px bg-cyan-400"></div>
@@ -1572,10 +4120,98 @@ const StrandSystem = () => {
                             <div className="absolute bottom-0 right-0 w-2 h-px bg-cyan-400"></div>
                             <div className="absolute bottom-0 right-0 w-px h-2 bg-cyan-400"></div>
                             
+                            {editingActivityId === activity.id ? (
+                              <div className="space-y-3">
+                                <div className="grid grid-cols-4 gap-4">
+                                  <div>
+                                    <label className="text-xs opacity-70 mb-1 block">TYPE</label>
+                                    <select
+                                      value={activityDraft.type}
+                                      onChange={(e) => setActivityDraft(prev => ({
+                                        ...prev,
+                                        type: e.target.value,
+                                        points: getInteractionType(interactionTypes, e.target.value)?.points ?? prev.points
+                                      }))}
+                                      className="w-full bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                                    >
+                                      {!getInteractionType(interactionTypes, activityDraft.type) && (
+                                        <option value={activityDraft.type}>{activityDraft.type.toUpperCase()}</option>
+                                      )}
+                                      {interactionTypes
+                                        .filter(type => !type.retired || type.id === activityDraft.type)
+                                        .map(type => (
+                                          <option key={type.id} value={type.id}>{type.emoji} {type.label.toUpperCase()}</option>
+                                        ))}
+                                    </select>
+                                  </div>
+                                  <div>
+                                    <label className="text-xs opacity-70 mb-1 block">POINTS</label>
+                                    <input
+                                      type="number"
+                                      min="0"
+                                      value={activityDraft.points}
+                                      onChange={(e) => setActivityDraft(prev => ({ ...prev, points: parseInt(e.target.value) || 0 }))}
+                                      className="w-full bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                                    />
+                                  </div>
+                                  <div>
+                                    <label className="text-xs opacity-70 mb-1 block">DATE</label>
+                                    <input
+                                      type="datetime-local"
+                                      value={activityDraft.date}
+                                      max={toDateTimeInputValue(new Date())}
+                                      onChange={(e) => setActivityDraft(prev => ({ ...prev, date: e.target.value, error: null }))}
+                                      className="w-full bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                                    />
+                                  </div>
+                                  <div>
+                                    <label className="text-xs opacity-70 mb-1 block">DURATION (MIN)</label>
+                                    <input
+                                      type="number"
+                                      min="0"
+                                      value={activityDraft.duration}
+                                      placeholder="—"
+                                      onChange={(e) => setActivityDraft(prev => ({ ...prev, duration: e.target.value }))}
+                                      className="w-full bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                                    />
+                                  </div>
+                                </div>
+                                <div>
+                                  <label className="text-xs opacity-70 mb-1 block">NOTES</label>
+                                  <textarea
+                                    value={activityDraft.notes}
+                                    onChange={(e) => setActivityDraft(prev => ({ ...prev, notes: e.target.value }))}
+                                    rows={2}
+                                    className="w-full bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                                  />
+                                </div>
+                                {activityDraft.error && (
+                                  <div className="text-[10px] text-red-400">{activityDraft.error}</div>
+                                )}
+                                <div className="flex justify-end space-x-2 text-xs tracking-wider">
+                                  <button
+                                    onClick={() => setEditingActivityId(null)}
+                                    className="px-3 py-1 border border-cyan-800/50 hover:bg-cyan-900/20"
+                                  >
+                                    CANCEL
+                                  </button>
+                                  <button
+                                    onClick={saveActivityEdit}
+                                    className="px-3 py-1 bg-cyan-900/30 text-cyan-100 border border-cyan-700/50 hover:bg-cyan-800/40"
+                                  >
+                                    SAVE
+                                  </button>
+                                </div>
+                              </div>
+                            ) : (
+                            <>
                             <div className="grid grid-cols-4 gap-4">
                               <div className="col-span-1">
                                 <div className="text-xs opacity-70 mb-1">DATE</div>
                                 <div className="text-sm">{formatDate(activity.date)}</div>
+                                {!!activity.durationMinutes && (
+                                  <div className="text-[10px] opacity-60">{formatDuration(activity.durationMinutes)}</div>
+                                )}
                               </div>
                               
                               <div className="col-span-1">
@@ -1586,14 +4222,24 @@ const StrandSystem = () => {
                               <div className="col-span-1">
                                 <div className="text-xs opacity-70 mb-1">TYPE</div>
                                 <div className="flex items-center">
-                                  <span className="mr-2">{getActivityEmoji(activity.type)}</span>
-                                  <span className="text-xs uppercase">{activity.type}</span>
+                                  <span className="mr-2">{getInteractionDisplay(interactionTypes, activity.type).emoji}</span>
+                                  <span className="text-xs uppercase">{getInteractionDisplay(interactionTypes, activity.type).label}</span>
                                 </div>
                               </div>
                               
                               <div className="col-span-1">
                                 <div className="text-xs opacity-70 mb-1">POINTS</div>
-                                <div className="text-xl font-light tracking-tighter text-cyan-300">+{activity.points}</div>
+                                <div
+                                  className={`text-xl font-light tracking-tighter text-cyan-300 ${gain ? 'cursor-help' : ''}`}
+                                  title={gain ? explainGain(gain, settings.gainModel) : 'Part of the baseline strength, not replayed'}
+                                >
+                                  +{activity.points}
+                                </div>
+                                {gain && (
+                                  <div className="text-[10px] opacity-60">
+                                    STRENGTH +{(gain.after - gain.before).toFixed(1)}
+                                  </div>
+                                )}
                               </div>
                             </div>
                             
@@ -1603,6 +4249,23 @@ const StrandSystem = () => {
                                 <div className="text-sm">{activity.notes}</div>
                               </div>
                             )}
+                            
+                            <div className="mt-3 flex justify-end space-x-3 text-[10px] tracking-wider">
+                              <button
+                                onClick={() => startEditActivity(activity)}
+                                className="text-cyan-500/70 hover:text-cyan-300 transition-all duration-300"
+                              >
+                                EDIT
+                              </button>
+                              <button
+                                onClick={() => handleDeleteActivity(activity)}
+                                className="text-red-400/70 hover:text-red-300 transition-all duration-300"
+                              >
+                                DELETE
+                              </button>
+                            </div>
+                            </>
+                            )}
                           </div>
                         );
                       })
@@ -1625,10 +4288,29 @@ const StrandSystem = () => {
               {statsView === 'timefall-forecast' && (
                 <TimefallForecast 
                   connections={connections} 
-                  getCurrentStrength={getCurrentStrength}
-                  getProjectedStrength={getProjectedStrength}
-                  getDaysUntilThreshold={getDaysUntilThreshold}
-                  getConnectionLevel={getConnectionLevel}
+                  activities={activities}
+                  interactionTypes={interactionTypes}
+                  gainModel={settings.gainModel}
+                  plans={plans}
+                  levels={settings.levels}
+                  onSavePlan={savePlan}
+                  onDeletePlan={deletePlan}
+                  onExportPlan={handleExportPlan}
+                  onExportCalendar={handleExportCalendar}
+                />
+              )}
+              
+              {statsView === 'maintenance' && (
+                <MaintenanceAgenda
+                  connections={connections}
+                  activities={activities}
+                  interactionTypes={interactionTypes}
+                  gainModel={settings.gainModel}
+                  levels={settings.levels}
+                  budget={settings.maintenanceBudget}
+                  plan={maintenancePlan}
+                  onPlan={planMaintenance}
+                  onDone={completeMaintenanceItem}
                 />
               )}
             </div>
@@ -1650,207 +4332,1583 @@ const StrandSystem = () => {
                 CONNECTION DETAILS
                 <span className="ml-2">- - -</span>
               </div>
-              <div className="text-2xl font-light tracking-wider mb-4 border-b border-dashed border-cyan-700/30 pb-2">{selectedConnection.name}</div>
+              <div className="flex justify-between items-baseline mb-4 border-b border-dashed border-cyan-700/30 pb-2">
+                <div className="text-2xl font-light tracking-wider">{selectedConnection.name}</div>
+                <div className="flex space-x-2 text-[10px] tracking-wider">
+                  <button
+                    onClick={() => openEditConnection(selectedConnection)}
+                    className="text-cyan-500/70 hover:text-cyan-300 transition-all duration-300"
+                  >
+                    EDIT
+                  </button>
+                  <button
+                    onClick={() => handleDeleteConnection(selectedConnection)}
+                    className="text-red-400/70 hover:text-red-300 transition-all duration-300"
+                  >
+                    DELETE
+                  </button>
+                </div>
+              </div>
+              
+              <div className="grid grid-cols-2 gap-3 mb-6">
+                <div className="p-2 relative bg-gradient-to-b from-cyan-900/20 to-transparent">
+                  <Marker position="top-left" />
+                  <Marker position="bottom-left" />
+                  <div className="absolute top-0 right-0 w-1 h-1 bg-cyan-400"></div>
+                  <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-400"></div>
+                  <div className="text-xs opacity-70">CURRENT STR</div>
+                  <div className="text-2xl font-light tracking-tighter">{Math.round(getCurrentStrength(selectedConnection)).toString().padStart(2, '0')}</div>
+                </div>
+                <div className="p-2 relative bg-gradient-to-b from-cyan-900/20 to-transparent">
+                  <Marker position="top-left" />
+                  <Marker position="bottom-left" />
+                  <div className="absolute top-0 right-0 w-1 h-1 bg-cyan-400"></div>
+                  <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-400"></div>
+                  <div className="text-xs opacity-70">LEVEL</div>
+                  <div className="text-2xl font-light">{getConnectionLevel(getCurrentStrength(selectedConnection), settings.levels).badge}</div>
+                </div>
+                <div className="p-2 relative bg-gradient-to-b from-cyan-900/20 to-transparent">
+                  <Marker position="top-left" />
+                  <Marker position="bottom-left" />
+                  <div className="absolute top-0 right-0 w-1 h-1 bg-cyan-400"></div>
+                  <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-400"></div>
+                  <div className="text-xs opacity-70">HALF-LIFE</div>
+                  <div className="text-2xl font-light tracking-tighter">{selectedConnection.halfLife.toString().padStart(2, '0')}d</div>
+                  <div className="text-[10px] opacity-60 uppercase">
+                    {getDecayCurve(selectedConnection).label}
+                    {selectedConnection.halfLifeMode !== 'manual' && ` · ${selectedConnection.halfLifeMode}`}
+                  </div>
+                </div>
+                <div className="p-2 relative bg-gradient-to-b from-cyan-900/20 to-transparent">
+                  <Marker position="top-left" />
+                  <Marker position="bottom-left" />
+                  <div className="absolute top-0 right-0 w-1 h-1 bg-cyan-400"></div>
+                  <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-400"></div>
+                  <div className="text-xs opacity-70">LAST CONTACT</div>
+                  <div className="text-2xl font-light tracking-tighter">{getDaysSinceContact(selectedConnection.lastContact).toString().padStart(2, '0')}d</div>
+                </div>
+              </div>
+              
+              {(() => {
+                // Strength over the last 90 days, replayed from the activity log
+                const now = new Date();
+                const history = getStrengthHistory(selectedConnection, activities, new Date(now.getTime() - 90 * MS_PER_DAY), now, settings.gainModel);
+                const maxStrength = Math.max(100, ...history.map(point => point.strength));
+                const toY = (strength: number) => 40 - (strength / maxStrength) * 40;
+                const path = history
+                  .map((point, i) => `${i === 0 ? 'M' : 'L'}${(i / (history.length - 1)) * 200},${toY(point.strength)}`)
+                  .join(' ');
+                return (
+                  <div className="mb-4">
+                    <div className="text-xs opacity-70 mb-1 flex justify-between">
+                      <span>STRENGTH HISTORY</span>
+                      <span>90D</span>
+                    </div>
+                    <svg viewBox="0 0 200 40" preserveAspectRatio="none" className="w-full h-10 bg-black/20">
+                      <line x1="0" x2="200" y1={toY(15)} y2={toY(15)} stroke="rgba(255, 85, 85, 0.5)" strokeDasharray="2,3" strokeWidth="0.5" />
+                      <path d={path} fill="none" stroke="rgba(6, 182, 212, 0.8)" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+                    </svg>
+                  </div>
+                );
+              })()}
+              
+              {selectedConnection.halfLifeMode !== 'manual' && (() => {
+                // Half-life learned from the gaps between logged interactions
+                const estimate = estimateHalfLife(selectedConnection, activities);
+                return (
+                  <div className="mb-4 p-2 text-xs relative bg-cyan-900/10">
+                    <Marker position="top-left" />
+                    <Marker position="bottom-right" />
+                    <div className="opacity-70 mb-1">ADAPTIVE HALF-LIFE</div>
+                    {estimate.status === 'insufficient' ? (
+                      <div className="opacity-70">
+                        {estimate.gapCount} of {estimate.needed} gaps between interactions logged; keeping the manual {selectedConnection.halfLife}d.
+                      </div>
+                    ) : (
+                      <>
+                        <div className="flex justify-between items-baseline">
+                          <span className="font-light">
+                            {estimate.changed
+                              ? `Suggested ${estimate.suggested}d (now ${selectedConnection.halfLife}d)`
+                              : `${selectedConnection.halfLife}d matches the cadence`}
+                          </span>
+                          {estimate.changed && selectedConnection.halfLifeMode === 'suggest' && (
+                            <button
+                              onClick={() => acceptHalfLifeSuggestion(selectedConnection, estimate.suggested)}
+                              className="px-2 py-0.5 bg-cyan-900/30 text-cyan-100 border border-cyan-700/50 hover:bg-cyan-800/40"
+                            >
+                              ACCEPT
+                            </button>
+                          )}
+                        </div>
+                        <div className="mt-1 text-[10px] opacity-60 leading-relaxed">
+                          {estimate.evidence.gaps.length} gaps from {estimate.evidence.first.toLocaleDateString()} to {estimate.evidence.last.toLocaleDateString()} ·
+                          median {estimate.evidence.medianGap.toFixed(1)}d · recent trend {estimate.evidence.smoothedGap.toFixed(1)}d ·
+                          shortest {Math.min(...estimate.evidence.gaps).toFixed(1)}d · longest {Math.max(...estimate.evidence.gaps).toFixed(1)}d
+                        </div>
+                      </>
+                    )}
+                  </div>
+                );
+              })()}
+              
+              {(() => {
+                // People the selected connection knows, and a form to add more
+                const linked = getRelationshipsOf(selectedConnection.id, relationships);
+                const linkedIds = new Set(linked.map(r => getOtherId(r, selectedConnection.id)));
+                const candidates = connections.filter(conn => conn.id !== selectedConnection.id && !linkedIds.has(conn.id));
+                return (
+                  <div className="mb-4 text-xs">
+                    <div className="opacity-70 mb-1">KNOWS</div>
+                    {linked.length === 0 && <div className="opacity-50 mb-1">No relationships recorded</div>}
+                    {linked.map(relationship => {
+                      const other = connections.find(conn => conn.id === getOtherId(relationship, selectedConnection.id));
+                      const kind = getRelationshipKind(relationship.kind);
+                      return (
+                        <div key={relationship.id} className="flex justify-between items-center py-0.5">
+                          <button onClick={() => other && setSelectedConnection(other)} className="font-light hover:text-cyan-200">
+                            {other?.name || 'Unknown'}
+                          </button>
+                          <span className="flex items-center">
+                            <span className="mr-2" style={{ color: kind.color }}>
+                              {kind.label.toUpperCase()}{relationship.strength !== undefined && ` · ${relationship.strength}`}
+                            </span>
+                            <button
+                              onClick={() => removeRelationship(relationship)}
+                              className="text-red-400/70 hover:text-red-300"
+                              title="Remove relationship"
+                            >
+                              ×
+                            </button>
+                          </span>
+                        </div>
+                      );
+                    })}
+                    {candidates.length > 0 && (
+                      <div className="flex space-x-1 mt-1">
+                        <select
+                          value={relationshipDraft.targetId}
+                          onChange={(e) => setRelationshipDraft({ ...relationshipDraft, targetId: e.target.value })}
+                          className="flex-1 min-w-0 bg-cyan-900/10 border border-cyan-800/30 p-0.5 text-cyan-100 focus:outline-none"
+                        >
+                          <option value="">+ PERSON</option>
+                          {candidates.map(conn => (
+                            <option key={conn.id} value={conn.id}>{conn.name}</option>
+                          ))}
+                        </select>
+                        <select
+                          value={relationshipDraft.kind}
+                          onChange={(e) => setRelationshipDraft({ ...relationshipDraft, kind: e.target.value as RelationshipKind })}
+                          className="w-20 bg-cyan-900/10 border border-cyan-800/30 p-0.5 text-cyan-100 focus:outline-none"
+                        >
+                          {RELATIONSHIP_KINDS.map(kind => (
+                            <option key={kind.id} value={kind.id}>{kind.label}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          placeholder="STR"
+                          value={relationshipDraft.strength}
+                          onChange={(e) => setRelationshipDraft({ ...relationshipDraft, strength: e.target.value })}
+                          className="w-12 bg-cyan-900/10 border border-cyan-800/30 p-0.5 text-cyan-100 focus:outline-none"
+                        />
+                        <button
+                          onClick={addRelationship}
+                          disabled={!relationshipDraft.targetId}
+                          className={`px-1.5 bg-cyan-900/30 border border-cyan-700/50 ${!relationshipDraft.targetId ? 'opacity-50 cursor-not-allowed' : 'hover:bg-cyan-800/40'}`}
+                        >
+                          LINK
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })()}
+              
+              {selectedConnection.contact && (
+                <div className="mb-4 text-xs space-y-1">
+                  {selectedConnection.contact.phones.map(phone => (
+                    <div key={phone} className="flex justify-between">
+                      <span className="opacity-70">TEL</span>
+                      <a href={`tel:${phone}`} className="font-light hover:text-cyan-200">{phone}</a>
+                    </div>
+                  ))}
+                  {selectedConnection.contact.emails.map(email => (
+                    <div key={email} className="flex justify-between">
+                      <span className="opacity-70">EMAIL</span>
+                      <a href={`mailto:${email}`} className="font-light hover:text-cyan-200 truncate ml-2">{email}</a>
+                    </div>
+                  ))}
+                  {selectedConnection.contact.birthday && (
+                    <div className="flex justify-between">
+                      <span className="opacity-70">BIRTHDAY</span>
+                      <span className="font-light">{selectedConnection.contact.birthday.replace(/^--/, '')}</span>
+                    </div>
+                  )}
+                </div>
+              )}
+              
+              <div className={dottedSeparator}></div>
+              
+              <div className="text-xs tracking-wider opacity-70 mb-2">
+                <span className="mr-2">- - -</span>
+                ADD INTERACTION
+                <span className="ml-2">- - -</span>
+                <button
+                  onClick={() => setShowInteractionTypesModal(true)}
+                  className="float-right text-cyan-400 hover:text-cyan-200 transition-colors"
+                >
+                  MANAGE
+                </button>
+                <button
+                  onClick={() => detailedLog ? setDetailedLog(null) : openDetailedLog()}
+                  className="float-right mr-3 text-cyan-400 hover:text-cyan-200 transition-colors"
+                >
+                  {detailedLog ? 'QUICK' : 'DETAILED'}
+                </button>
+              </div>
+              {detailedLog ? (
+                <div className="space-y-2 mb-6 p-2 bg-cyan-900/10 relative text-xs">
+                  <Marker position="top-left" />
+                  <Marker position="bottom-right" />
+                  <div>
+                    <label className="opacity-70 mb-1 block">TYPE</label>
+                    <select
+                      value={detailedLog.type}
+                      onChange={(e) => setDetailedLog({ ...detailedLog, type: e.target.value })}
+                      className="w-full bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                    >
+                      {getActiveInteractionTypes(interactionTypes).map(type => (
+                        <option key={type.id} value={type.id}>{type.emoji} {type.label.toUpperCase()} (+{type.points})</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div className="col-span-2">
+                      <label className="opacity-70 mb-1 block">WHEN</label>
+                      <input
+                        type="datetime-local"
+                        value={detailedLog.date}
+                        max={toDateTimeInputValue(new Date())}
+                        onChange={(e) => setDetailedLog({ ...detailedLog, date: e.target.value, error: null })}
+                        className="w-full bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                      />
+                    </div>
+                    <div>
+                      <label className="opacity-70 mb-1 block">MINUTES</label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={detailedLog.duration}
+                        placeholder="—"
+                        onChange={(e) => setDetailedLog({ ...detailedLog, duration: e.target.value })}
+                        className="w-full bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="opacity-70 mb-1 block">NOTES</label>
+                    <textarea
+                      value={detailedLog.notes}
+                      onChange={(e) => setDetailedLog({ ...detailedLog, notes: e.target.value })}
+                      rows={2}
+                      className="w-full bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                    />
+                  </div>
+                  {detailedLog.error && (
+                    <div className="text-[10px] text-red-400">{detailedLog.error}</div>
+                  )}
+                  <button
+                    onClick={submitDetailedLog}
+                    disabled={!detailedLog.type}
+                    className={`w-full py-1 bg-cyan-900/30 text-cyan-100 border border-cyan-700/50 tracking-wider ${!detailedLog.type ? 'opacity-50 cursor-not-allowed' : 'hover:bg-cyan-800/40'}`}
+                  >
+                    LOG INTERACTION
+                  </button>
+                </div>
+              ) : (
+              <div className="grid grid-cols-3 gap-2 mb-6">
+                {getActiveInteractionTypes(interactionTypes).map(type => (
+                  <button key={type.id} onClick={() => addInteraction(selectedConnection.id, type.id)}
+                    title={type.label}
+                    className="p-2 hover:bg-cyan-900/30 hover:shadow-[0_0_10px_rgba(0,200,255,0.15)] text-center relative transition-all duration-300">
+                    <Marker position="top-left" />
+                    <Marker position="bottom-right" />
+                    <div className="text-lg">{type.emoji}</div>
+                    <div className="text-xs mt-1 font-light">+{type.points}</div>
+                  </button>
+                ))}
+              </div>
+              )}
+              
+              <div className={dottedSeparator}></div>
+              
+              <div className="text-xs tracking-wider opacity-70 mb-2">
+                <span className="mr-2">- - -</span>
+                RECENT ACTIVITY
+                <span className="ml-2">- - -</span>
+              </div>
+              <div className="space-y-2">
+                {activities
+                  .filter(activity => activity.connectionId === selectedConnection.id)
+                  .slice(0, 3)
+                  .map(activity => (
+                    <div key={activity.id} className="p-2 text-xs relative bg-gradient-to-b from-cyan-900/10 to-transparent">
+                      <Marker position="top-left" />
+                      <Marker position="bottom-left" />
+                      <div className="absolute top-0 right-0 w-1 h-1 bg-cyan-400"></div>
+                      <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-400"></div>
+                      <div className="flex justify-between">
+                        <div>{getInteractionDisplay(interactionTypes, activity.type).emoji} {getInteractionDisplay(interactionTypes, activity.type).label.toUpperCase()}</div>
+                        <div className="text-base font-light">+{activity.points}</div>
+                      </div>
+                      <div className="opacity-70 mt-1">
+                        {formatDate(activity.date)}
+                        {!!activity.durationMinutes && ` · ${formatDuration(activity.durationMinutes)}`}
+                      </div>
+                      {activity.notes && (
+                        <div className="mt-1 border-t border-dashed border-cyan-800/50 pt-1">
+                          {activity.notes}
+                        </div>
+                      )}
+                    </div>
+                  ))
+                }
+                
+                {activities.filter(a => a.connectionId === selectedConnection.id).length === 0 && (
+                  <div className="text-xs opacity-50 text-center p-2">
+                    No activity recorded
+                  </div>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="h-full flex items-center justify-center text-cyan-500 opacity-50">
+              <div className="text-center">
+                <div className="text-lg font-light tracking-wider">SELECT A CONNECTION</div>
+                <div className="text-xs mt-2">TO VIEW DETAILS</div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      
+      {/* Footer - added glow effect */}
+      <footer className={`${borderStyle} p-2 text-xs text-center text-cyan-500 flex justify-center items-center space-x-4 backdrop-blur-md bg-black/40 shadow-[0_0_15px_rgba(0,180,230,0.15)] relative overflow-hidden`}>
+        {/* Subtle footer glow */}
+        <div className="absolute bottom-0 left-0 right-0 h-px bg-gradient-to-r from-transparent via-cyan-500/40 to-transparent"></div>
+        <span>STRAND FRIENDS v1.0</span>
+        <span>•</span>
+        <span>PORTER ID: DS-34601</span>
+        <span>•</span>
+        <span>CURRENT DATE: {formatDate(new Date())}</span>
+      </footer>
+      
+      {/* Undo toast */}
+      {applyUpdate && (
+        <div className="fixed top-20 right-4 z-40 bg-black/80 border border-cyan-800/50 px-4 py-2 text-xs flex items-center space-x-4 backdrop-blur-sm shadow-[0_0_15px_rgba(0,180,230,0.15)]">
+          <Marker position="top-left" />
+          <Marker position="bottom-right" />
+          <span className="tracking-wider">NEW BUILD AVAILABLE</span>
+          <button
+            onClick={applyUpdate}
+            className="text-cyan-300 tracking-wider hover:text-cyan-100 border-l border-cyan-800/50 pl-4"
+          >
+            RELOAD
+          </button>
+          <button
+            onClick={() => setApplyUpdate(null)}
+            className="text-cyan-500/70 tracking-wider hover:text-cyan-300"
+          >
+            LATER
+          </button>
+        </div>
+      )}
+      
+      {toast && (
+        <div className="fixed bottom-12 left-1/2 -translate-x-1/2 z-40 bg-black/80 border border-cyan-800/50 px-4 py-2 text-xs flex items-center space-x-4 backdrop-blur-sm shadow-[0_0_15px_rgba(0,180,230,0.15)]">
+          <Marker position="top-left" />
+          <Marker position="bottom-right" />
+          <span className="tracking-wider">{toast.message}</span>
+          {toast.action && (
+            <button
+              onClick={toast.action === 'undo' ? handleUndo : handleRedo}
+              className="text-cyan-300 tracking-wider hover:text-cyan-100 border-l border-cyan-800/50 pl-4"
+              title={toast.action === 'undo' ? 'Ctrl+Z' : 'Ctrl+Shift+Z'}
+            >
+              {toast.action === 'undo' ? 'UNDO' : 'REDO'}
+            </button>
+          )}
+          <button onClick={() => setToast(null)} className="opacity-60 hover:opacity-100">×</button>
+        </div>
+      )}
+      
+      {/* Add Connection Modal */}
+      {showAddConnectionModal && (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="w-96 bg-black/80 border border-cyan-900/50 p-4 relative">
+            <Marker position="top-left" />
+            <Marker position="top-right" />
+            <Marker position="bottom-left" />
+            <Marker position="bottom-right" />
+            
+            {/* Dashed border inside */}
+            <div className="absolute inset-5 border border-dashed border-cyan-800/20 pointer-events-none"></div>
+            
+            <button 
+              onClick={closeConnectionModal}
+              className="absolute top-2 right-2 text-cyan-500 hover:text-cyan-300 hover:shadow-[0_0_8px_rgba(0,200,255,0.4)] transition-all duration-300"
+            >
+              ×
+            </button>
+            
+            <div className="text-center mb-4">
+              <div className="text-lg font-light tracking-widest text-cyan-300">{editingConnectionId !== null ? 'EDIT CONNECTION' : 'NEW CONNECTION'}</div>
+              <div className="text-xs opacity-70">{editingConnectionId !== null ? 'RECALIBRATE BRIDGE LINK' : 'ESTABLISH BRIDGE LINK'}</div>
+            </div>
+            
+            <div className="space-y-4">
+              <div>
+                <label className="text-xs tracking-wider opacity-70 mb-1 block">NAME</label>
+                <input
+                  type="text"
+                  value={newConnection.name}
+                  onChange={(e) => updateNewConnectionField('name', e.target.value)}
+                  className="w-full bg-cyan-900/10 border border-cyan-800/30 p-2 text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                />
+              </div>
+              
+              <div className={dottedSeparator}></div>
+              
+              <div>
+                <label className="text-xs tracking-wider opacity-70 mb-1 block">{editingConnectionId !== null ? 'BASE STRENGTH' : 'INITIAL STRENGTH'}</label>
+                <div className="flex items-center">
+                  <input
+                    type="range"
+                    min="15"
+                    max="100"
+                    value={newConnection.strength}
+                    onChange={(e) => updateNewConnectionField('strength', parseInt(e.target.value))}
+                    className="flex-1 accent-cyan-500"
+                  />
+                  <span className="ml-2 font-light text-xl tracking-tighter">
+                    {newConnection.strength.toString().padStart(2, '0')}
+                  </span>
+                </div>
+              </div>
+              
+              <div>
+                <label className="text-xs tracking-wider opacity-70 mb-1 block">HALF-LIFE (DAYS)</label>
+                <div className="flex space-x-2">
+                  {[14, 21, 30, 60, 90].map(days => (
+                    <button
+                      key={days}
+                      onClick={() => updateNewConnectionField('halfLife', days)}
+                      className={`flex-1 py-1 px-2 text-center relative ${newConnection.halfLife === days ? 'bg-cyan-900/50 text-cyan-100' : 'bg-cyan-900/10 hover:bg-cyan-900/30'}`}
+                    >
+                      {newConnection.halfLife === days && (
+                        <>
+                          <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-400"></div>
+                          <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-400"></div>
+                        </>
+                      )}
+                      {days}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              
+              <div>
+                <label className="text-xs tracking-wider opacity-70 mb-1 block">DECAY CURVE</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {DECAY_CURVE_TYPES.map(curveType => (
+                    <button
+                      key={curveType}
+                      onClick={() => updateNewConnectionField('decayCurve', curveType)}
+                      title={decayCurves[curveType].description}
+                      className={`py-1 px-2 text-xs text-center relative ${newConnection.decayCurve === curveType ? 'bg-cyan-900/50 text-cyan-100' : 'bg-cyan-900/10 hover:bg-cyan-900/30'}`}
+                    >
+                      {newConnection.decayCurve === curveType && (
+                        <>
+                          <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-400"></div>
+                          <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-400"></div>
+                        </>
+                      )}
+                      {decayCurves[curveType].label.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+                <div className="text-[10px] opacity-60 mt-1">{decayCurves[newConnection.decayCurve].description}</div>
+              </div>
+              
+              <div>
+                <label className="text-xs tracking-wider opacity-70 mb-1 block">ADAPTIVE HALF-LIFE</label>
+                <div className="flex space-x-2">
+                  {HALF_LIFE_MODES.map(mode => (
+                    <button
+                      key={mode.id}
+                      onClick={() => updateNewConnectionField('halfLifeMode', mode.id)}
+                      title={mode.description}
+                      className={`flex-1 py-1 px-2 text-xs text-center relative ${newConnection.halfLifeMode === mode.id ? 'bg-cyan-900/50 text-cyan-100' : 'bg-cyan-900/10 hover:bg-cyan-900/30'}`}
+                    >
+                      {newConnection.halfLifeMode === mode.id && (
+                        <>
+                          <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-400"></div>
+                          <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-400"></div>
+                        </>
+                      )}
+                      {mode.label.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+                <div className="text-[10px] opacity-60 mt-1">{HALF_LIFE_MODES.find(mode => mode.id === newConnection.halfLifeMode)?.description}</div>
+              </div>
+              
+              <div>
+                <label className="text-xs tracking-wider opacity-70 mb-1 block">TARGET LEVEL</label>
+                <div className="flex flex-wrap gap-1">
+                  {[undefined, ...settings.levels.map((_rung, i) => i).slice(1)].map(level => (
+                    <button
+                      key={level ?? 'none'}
+                      onClick={() => updateNewConnectionField('targetLevel', level)}
+                      className={`px-2 py-0.5 text-xs border ${newConnection.targetLevel === level ? 'bg-cyan-900/50 text-cyan-100' : 'bg-cyan-900/10 hover:bg-cyan-900/30 opacity-70'}`}
+                      style={{ borderColor: newConnection.targetLevel === level && level !== undefined ? settings.levels[level].color : 'transparent' }}
+                    >
+                      {level === undefined ? 'NONE' : `${settings.levels[level].badge} ${settings.levels[level].label.toUpperCase()}`}
+                    </button>
+                  ))}
+                </div>
+                <div className="text-[10px] opacity-60 mt-1">
+                  {newConnection.targetLevel === undefined
+                    ? 'At-risk warnings watch for dormancy'
+                    : `At-risk warnings start when the strand nears ${getLevelFloor(newConnection.targetLevel, settings.levels)}`}
+                </div>
+              </div>
+              
+              {tags.length > 0 && (
+                <div>
+                  <label className="text-xs tracking-wider opacity-70 mb-1 block">GROUPS</label>
+                  <div className="flex flex-wrap gap-1">
+                    {tags.map(tag => {
+                      const active = newConnection.tags.includes(tag.id);
+                      return (
+                        <button
+                          key={tag.id}
+                          onClick={() => updateNewConnectionField('tags', active
+                            ? newConnection.tags.filter(id => id !== tag.id)
+                            : [...newConnection.tags, tag.id])}
+                          className={`px-2 py-0.5 text-xs border ${active ? 'bg-cyan-900/50 text-cyan-100' : 'bg-cyan-900/10 hover:bg-cyan-900/30 opacity-70'}`}
+                          style={{ borderColor: active ? tag.color : 'transparent' }}
+                        >
+                          <span style={{ color: tag.color }}>●</span> {tag.label.toUpperCase()}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+              
+              <div className={dottedSeparator}></div>
+              
+              <div>
+                <label className="text-xs tracking-wider opacity-70 mb-1 block">CONNECTION METRICS</label>
+                <div className="space-y-2">
+                  {Object.entries(newConnection.scores).map(([key, value]) => (
+                    <div key={key} className="flex items-center">
+                      <div className="w-32 text-xs opacity-70 uppercase">{key}</div>
+                      <input
+                        type="range"
+                        min="0"
+                        max="100"
+                        value={value}
+                        onChange={(e) => updateNewConnectionScore(key, e.target.value)}
+                        className="flex-1 accent-cyan-500"
+                      />
+                      <span className="ml-2 w-8 text-right font-light">
+                        {value.toString().padStart(2, '0')}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              
+              <div className={dottedSeparator}></div>
+              
+              <div className="pt-4 flex space-x-2">
+                <button
+                  onClick={closeConnectionModal}
+                  className="flex-1 py-2 bg-transparent border border-cyan-800/50 text-cyan-400 hover:bg-cyan-900/20 relative"
+                >
+                  <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-800"></div>
+                  <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-800"></div>
+                  CANCEL
+                </button>
+                <button
+                  onClick={handleAddConnection}
+                  disabled={!newConnection.name.trim()}
+                  className={`flex-1 py-2 bg-cyan-900/30 text-cyan-100 border border-cyan-700/50 ${!newConnection.name.trim() ? 'opacity-50 cursor-not-allowed' : 'hover:bg-cyan-800/40'} relative`}
+                >
+                  <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-500"></div>
+                  <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-500"></div>
+                  {editingConnectionId !== null ? 'UPDATE' : 'ESTABLISH'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+      
+      {/* Interaction Types Modal */}
+      {showInteractionTypesModal && (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="w-[32rem] max-h-[90vh] overflow-y-auto bg-black/80 border border-cyan-900/50 p-4 relative">
+            <Marker position="top-left" />
+            <Marker position="top-right" />
+            <Marker position="bottom-left" />
+            <Marker position="bottom-right" />
+            
+            <button 
+              onClick={closeInteractionTypesModal}
+              className="absolute top-2 right-2 text-cyan-500 hover:text-cyan-300 hover:shadow-[0_0_8px_rgba(0,200,255,0.4)] transition-all duration-300"
+            >
+              ×
+            </button>
+            
+            <div className="text-center mb-4">
+              <div className="text-lg font-light tracking-widest text-cyan-300">INTERACTION TYPES</div>
+              <div className="text-xs opacity-70">CONFIGURE DELIVERY CATALOG</div>
+            </div>
+            
+            <div className="space-y-2 mb-4">
+              {interactionTypes.map(type => {
+                const usage = activities.filter(activity => activity.type === type.id).length;
+                return (
+                  <div key={type.id} className={`flex items-center p-2 bg-cyan-900/10 relative ${type.retired ? 'opacity-50' : ''}`}>
+                    <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-400"></div>
+                    <div className="w-8 text-lg">{type.emoji}</div>
+                    <div className="flex-1">
+                      <div className="text-sm font-light">{type.label.toUpperCase()}{type.retired && ' (RETIRED)'}</div>
+                      <div className="text-[10px] opacity-60">
+                        +{type.points} · {usage} logged
+                        {type.effects?.scores && Object.entries(type.effects.scores).map(([key, value]) =>
+                          ` · ${key} ${value > 0 ? '+' : ''}${value}`
+                        ).join('')}
+                      </div>
+                    </div>
+                    <div className="flex space-x-2 text-[10px] tracking-wider">
+                      <button onClick={() => startEditInteractionType(type)} className="text-cyan-400 hover:text-cyan-200">EDIT</button>
+                      <button onClick={() => toggleRetireInteractionType(type)} className="text-cyan-400 hover:text-cyan-200">
+                        {type.retired ? 'RESTORE' : 'RETIRE'}
+                      </button>
+                      <button
+                        onClick={() => handleDeleteInteractionType(type)}
+                        disabled={usage > 0}
+                        title={usage > 0 ? 'Logged interactions use this type; retire it instead' : undefined}
+                        className={usage > 0 ? 'text-red-400/30 cursor-not-allowed' : 'text-red-400 hover:text-red-300'}
+                      >
+                        DELETE
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            
+            <div className={dottedSeparator}></div>
+            
+            {typeDraft ? (
+              <div className="space-y-3">
+                <div className="text-xs tracking-wider opacity-70">{typeDraft.id === null ? 'NEW TYPE' : 'EDIT TYPE'}</div>
+                <div className="grid grid-cols-4 gap-2">
+                  <div className="col-span-2">
+                    <label className="text-xs opacity-70 mb-1 block">LABEL</label>
+                    <input
+                      type="text"
+                      value={typeDraft.label}
+                      onChange={(e) => setTypeDraft({ ...typeDraft, label: e.target.value })}
+                      className="w-full bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs opacity-70 mb-1 block">ICON</label>
+                    <input
+                      type="text"
+                      value={typeDraft.emoji}
+                      onChange={(e) => setTypeDraft({ ...typeDraft, emoji: e.target.value })}
+                      className="w-full bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs opacity-70 mb-1 block">POINTS</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={typeDraft.points}
+                      onChange={(e) => setTypeDraft({ ...typeDraft, points: parseInt(e.target.value) || 0 })}
+                      className="w-full bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="text-xs opacity-70 mb-1 block">DIMENSION WEIGHTS PER INTERACTION</label>
+                  <div className="grid grid-cols-5 gap-2">
+                    {SCORE_KEYS.map(key => (
+                      <div key={key}>
+                        <div className="text-[10px] opacity-60 uppercase truncate">{key}</div>
+                        <input
+                          type="number"
+                          value={typeDraft.scores[key] ?? 0}
+                          onChange={(e) => setTypeDraft({ ...typeDraft, scores: { ...typeDraft.scores, [key]: parseInt(e.target.value) || 0 } })}
+                          className="w-full bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => setTypeDraft(null)}
+                    className="flex-1 py-1 text-xs bg-transparent border border-cyan-800/50 text-cyan-400 hover:bg-cyan-900/20"
+                  >
+                    CANCEL
+                  </button>
+                  <button
+                    onClick={saveInteractionType}
+                    disabled={!typeDraft.label.trim()}
+                    className={`flex-1 py-1 text-xs bg-cyan-900/30 text-cyan-100 border border-cyan-700/50 ${!typeDraft.label.trim() ? 'opacity-50 cursor-not-allowed' : 'hover:bg-cyan-800/40'}`}
+                  >
+                    SAVE
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => startEditInteractionType()}
+                className="w-full py-2 bg-cyan-900/30 text-cyan-100 border border-cyan-700/50 hover:bg-cyan-800/40 relative"
+              >
+                <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-500"></div>
+                <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-500"></div>
+                + NEW INTERACTION TYPE
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+      
+      {/* Tags Modal */}
+      {showTagsModal && (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="w-96 bg-black/80 border border-cyan-900/50 p-4 relative">
+            <Marker position="top-left" />
+            <Marker position="top-right" />
+            <Marker position="bottom-left" />
+            <Marker position="bottom-right" />
+            
+            <button 
+              onClick={() => setShowTagsModal(false)}
+              className="absolute top-2 right-2 text-cyan-500 hover:text-cyan-300 hover:shadow-[0_0_8px_rgba(0,200,255,0.4)] transition-all duration-300"
+            >
+              ×
+            </button>
+            
+            <div className="text-center mb-4">
+              <div className="text-lg font-light tracking-widest text-cyan-300">GROUPS</div>
+              <div className="text-xs opacity-70">ORGANIZE YOUR CIRCLES</div>
+            </div>
+            
+            <div className="space-y-2 mb-4">
+              {tags.map(tag => (
+                <div key={tag.id} className="p-2 bg-cyan-900/10 relative">
+                  <div className="absolute left-0 top-0 bottom-0 w-0.5" style={{ backgroundColor: tag.color }}></div>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={tag.label}
+                      onChange={(e) => updateTag(tag.id, { label: e.target.value })}
+                      onBlur={(e) => !e.target.value.trim() && updateTag(tag.id, { label: tag.id })}
+                      className="flex-1 bg-transparent border-b border-cyan-800/30 p-0.5 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                    />
+                    <button onClick={() => handleDeleteTag(tag)} className="text-[10px] tracking-wider text-red-400 hover:text-red-300">
+                      DELETE
+                    </button>
+                  </div>
+                  <div className="flex space-x-1 mt-1.5">
+                    {TAG_COLORS.map(color => (
+                      <button
+                        key={color}
+                        onClick={() => updateTag(tag.id, { color })}
+                        className={`w-4 h-4 ${tag.color === color ? 'ring-1 ring-white' : 'opacity-60 hover:opacity-100'}`}
+                        style={{ backgroundColor: color }}
+                        title={color}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+            
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={newTagLabel}
+                placeholder="New group name"
+                onChange={(e) => setNewTagLabel(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addTag()}
+                className="flex-1 bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+              />
+              <button
+                onClick={addTag}
+                disabled={!newTagLabel.trim()}
+                className={`px-3 text-xs bg-cyan-900/30 text-cyan-100 border border-cyan-700/50 ${!newTagLabel.trim() ? 'opacity-50 cursor-not-allowed' : 'hover:bg-cyan-800/40'}`}
+              >
+                ADD
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+      
+      {/* Gain Model Modal */}
+      {gainModelDraft && (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="w-96 bg-black/80 border border-cyan-900/50 p-4 relative">
+            <Marker position="top-left" />
+            <Marker position="top-right" />
+            <Marker position="bottom-left" />
+            <Marker position="bottom-right" />
+            
+            <button 
+              onClick={() => setGainModelDraft(null)}
+              className="absolute top-2 right-2 text-cyan-500 hover:text-cyan-300 hover:shadow-[0_0_8px_rgba(0,200,255,0.4)] transition-all duration-300"
+            >
+              ×
+            </button>
+            
+            <div className="text-center mb-4">
+              <div className="text-lg font-light tracking-widest text-cyan-300">GAIN MODEL</div>
+              <div className="text-xs opacity-70">HOW INTERACTIONS REINFORCE STRANDS</div>
+            </div>
+            
+            <div className="space-y-3">
+              {GAIN_MODEL_FIELDS.map(field => (
+                <div key={field.key}>
+                  <div className="flex items-center">
+                    <label className="flex-1 text-xs tracking-wider opacity-70">{field.label}</label>
+                    <input
+                      type="number"
+                      step={field.step}
+                      min="0"
+                      value={gainModelDraft[field.key]}
+                      onChange={(e) => setGainModelDraft({ ...gainModelDraft, [field.key]: parseFloat(e.target.value) || 0 })}
+                      className="w-20 bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-right text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                    />
+                  </div>
+                  <div className="text-[10px] opacity-50">{field.hint}</div>
+                </div>
+              ))}
+              
+              {!isValidGainModel(gainModelDraft) && (
+                <div className="text-[10px] text-red-400">
+                  Saturation must start below the ceiling, the revival bonus must be at least 1 and the cooldown factor between 0 and 1.
+                </div>
+              )}
+              
+              <div className={dottedSeparator}></div>
+              
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setGainModelDraft({ ...DEFAULT_GAIN_MODEL })}
+                  className="flex-1 py-2 text-xs bg-transparent border border-cyan-800/50 text-cyan-400 hover:bg-cyan-900/20"
+                >
+                  DEFAULTS
+                </button>
+                <button
+                  onClick={applyGainModel}
+                  disabled={!isValidGainModel(gainModelDraft)}
+                  className={`flex-1 py-2 text-xs bg-cyan-900/30 text-cyan-100 border border-cyan-700/50 relative ${!isValidGainModel(gainModelDraft) ? 'opacity-50 cursor-not-allowed' : 'hover:bg-cyan-800/40'}`}
+                >
+                  <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-500"></div>
+                  <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-500"></div>
+                  APPLY &amp; REPLAY
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+      
+      {/* Level Ladder Modal */}
+      {levelsDraft && (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="w-[32rem] bg-black/80 border border-cyan-900/50 p-4 relative">
+            <Marker position="top-left" />
+            <Marker position="top-right" />
+            <Marker position="bottom-left" />
+            <Marker position="bottom-right" />
+            
+            <button 
+              onClick={() => setLevelsDraft(null)}
+              className="absolute top-2 right-2 text-cyan-500 hover:text-cyan-300 hover:shadow-[0_0_8px_rgba(0,200,255,0.4)] transition-all duration-300"
+            >
+              ×
+            </button>
+            
+            <div className="text-center mb-4">
+              <div className="text-lg font-light tracking-widest text-cyan-300">LEVEL LADDER</div>
+              <div className="text-xs opacity-70">NAMES, BADGES AND BOUNDS FOR EVERY VIEW</div>
+            </div>
+            
+            <div className="space-y-3">
+              {levelsDraft.length > 1 && (
+                <div>
+                  <div className="flex items-center">
+                    <label className="flex-1 text-xs tracking-wider opacity-70">DORMANCY CUTOFF</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={levelsDraft[1].minStrength}
+                      onChange={(e) => updateLevelDraft(1, { minStrength: parseFloat(e.target.value) || 0 })}
+                      className="w-20 bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-right text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                    />
+                  </div>
+                  <div className="text-[10px] opacity-50">Strands below this are dormant; it is also the lower bound of the first rung above dormancy</div>
+                </div>
+              )}
+              
+              <div className={dottedSeparator}></div>
+              
+              <div className="flex text-[10px] tracking-wider opacity-50 px-1">
+                <span className="w-8">COLOR</span>
+                <span className="w-16 ml-2">BADGE</span>
+                <span className="flex-1 ml-2">NAME</span>
+                <span className="w-16 ml-2 text-right">FROM</span>
+                <span className="w-6 ml-2"></span>
+              </div>
+              <div className="space-y-1 max-h-64 overflow-y-auto">
+                {levelsDraft.map((rung, i) => (
+                  <div key={i} className="flex items-center">
+                    <input
+                      type="color"
+                      value={rung.color}
+                      onChange={(e) => updateLevelDraft(i, { color: e.target.value.toUpperCase() })}
+                      className="w-8 h-7 bg-transparent border border-cyan-800/30 cursor-pointer"
+                    />
+                    <input
+                      type="text"
+                      value={rung.badge}
+                      onChange={(e) => updateLevelDraft(i, { badge: e.target.value })}
+                      className="w-16 ml-2 bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                    />
+                    <input
+                      type="text"
+                      value={rung.label}
+                      onChange={(e) => updateLevelDraft(i, { label: e.target.value })}
+                      className="flex-1 ml-2 bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      value={rung.minStrength}
+                      disabled={i === 0}
+                      onChange={(e) => updateLevelDraft(i, { minStrength: parseFloat(e.target.value) || 0 })}
+                      className={`w-16 ml-2 bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-right text-cyan-100 focus:border-cyan-400/50 focus:outline-none ${i === 0 ? 'opacity-50' : ''}`}
+                    />
+                    <button
+                      onClick={() => setLevelsDraft(levelsDraft.filter((_rung, j) => j !== i))}
+                      disabled={i === 0 || levelsDraft.length <= 2}
+                      title={i === 0 ? 'The dormant rung always stays' : 'Remove rung'}
+                      className={`w-6 ml-2 text-red-400 ${i === 0 || levelsDraft.length <= 2 ? 'opacity-20 cursor-not-allowed' : 'hover:text-red-300'}`}
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => {
+                  const top = levelsDraft[levelsDraft.length - 1];
+                  setLevelsDraft([...levelsDraft, { label: 'New Level', badge: `${top.badge}★`, minStrength: top.minStrength + 20, color: top.color }]);
+                }}
+                className="w-full py-1 text-xs tracking-wider text-cyan-500/70 hover:text-cyan-300 hover:bg-cyan-900/20"
+              >
+                + RUNG
+              </button>
+              
+              {getLadderProblems(levelsDraft).length > 0 && (
+                <div className="text-[10px] text-red-400">
+                  {getLadderProblems(levelsDraft).map(problem => problem.charAt(0).toUpperCase() + problem.slice(1)).join('. ')}.
+                </div>
+              )}
+              
+              <div className={dottedSeparator}></div>
+              
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setLevelsDraft(DEFAULT_LEVELS.map(rung => ({ ...rung })))}
+                  className="flex-1 py-2 text-xs bg-transparent border border-cyan-800/50 text-cyan-400 hover:bg-cyan-900/20"
+                >
+                  DEFAULTS
+                </button>
+                <button
+                  onClick={applyLevels}
+                  disabled={getLadderProblems(levelsDraft).length > 0}
+                  className={`flex-1 py-2 text-xs bg-cyan-900/30 text-cyan-100 border border-cyan-700/50 relative ${getLadderProblems(levelsDraft).length > 0 ? 'opacity-50 cursor-not-allowed' : 'hover:bg-cyan-800/40'}`}
+                >
+                  <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-500"></div>
+                  <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-500"></div>
+                  APPLY
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+      
+      {/* Reminders Modal */}
+      {showProfilesModal && (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="w-[28rem] bg-black/80 border border-cyan-900/50 p-4 relative">
+            <Marker position="top-left" />
+            <Marker position="top-right" />
+            <Marker position="bottom-left" />
+            <Marker position="bottom-right" />
+            
+            <button 
+              onClick={() => {
+                setShowProfilesModal(false);
+                setProfileDraft(null);
+              }}
+              className="absolute top-2 right-2 text-cyan-500 hover:text-cyan-300 hover:shadow-[0_0_8px_rgba(0,200,255,0.4)] transition-all duration-300"
+            >
+              ×
+            </button>
+            
+            <div className="text-center mb-4">
+              <div className="text-lg font-light tracking-widest text-cyan-300">PROFILES</div>
+              <div className="text-xs opacity-70">SEPARATE NETWORKS ON THIS DEVICE</div>
+            </div>
+            
+            <div className="max-h-64 overflow-y-auto space-y-1 mb-3">
+              {profiles.map(profile => {
+                const isActive = profile.id === activeProfileId;
+                return (
+                  <div key={profile.id} className={`p-2 text-xs relative ${isActive ? 'bg-cyan-900/30' : 'bg-cyan-900/5'}`}>
+                    {isActive && <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-500"></div>}
+                    <div className="flex justify-between items-baseline">
+                      <span className="font-light">{profile.name}</span>
+                      {isActive ? (
+                        <span className="text-[10px] text-cyan-400 tracking-wider">OPEN</span>
+                      ) : (
+                        <button
+                          onClick={() => switchProfile(profile.id)}
+                          disabled={!isLoaded}
+                          className="text-[10px] tracking-wider text-cyan-300 hover:text-cyan-100"
+                        >
+                          OPEN
+                        </button>
+                      )}
+                    </div>
+                    <div className="text-[10px] opacity-50">CENTER: {getOwnerLabel(profile)}</div>
+                    <div className="flex space-x-3 mt-1 text-[10px] tracking-wider">
+                      <button
+                        onClick={() => setProfileDraft({ id: profile.id, name: profile.name, ownerName: profile.ownerName })}
+                        className="text-cyan-500/70 hover:text-cyan-300"
+                      >
+                        RENAME
+                      </button>
+                      <button
+                        onClick={() => duplicateProfile(profile)}
+                        disabled={!isLoaded}
+                        className="text-cyan-500/70 hover:text-cyan-300"
+                      >
+                        DUPLICATE
+                      </button>
+                      <button
+                        onClick={() => exportProfile(profile)}
+                        disabled={!isLoaded}
+                        className="text-cyan-500/70 hover:text-cyan-300"
+                      >
+                        EXPORT
+                      </button>
+                      <button
+                        onClick={() => deleteProfile(profile)}
+                        disabled={!isLoaded || profiles.length <= 1}
+                        className="text-red-400/70 hover:text-red-300 disabled:opacity-30"
+                      >
+                        DELETE
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            
+            <div className={dottedSeparator}></div>
+            
+            {profileDraft ? (
+              <div className="space-y-2">
+                <div className="text-xs tracking-wider opacity-70">{profileDraft.id ? 'RENAME PROFILE' : 'NEW PROFILE'}</div>
+                <input
+                  type="text"
+                  placeholder="Profile name, e.g. Work"
+                  value={profileDraft.name}
+                  maxLength={MAX_PROFILE_NAME_LENGTH}
+                  onChange={(e) => setProfileDraft({ ...profileDraft, name: e.target.value })}
+                  className="w-full bg-cyan-900/10 border border-cyan-800/30 p-2 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                />
+                <input
+                  type="text"
+                  placeholder="Owner name, shown at the center of the graph"
+                  value={profileDraft.ownerName}
+                  maxLength={MAX_PROFILE_NAME_LENGTH}
+                  onChange={(e) => setProfileDraft({ ...profileDraft, ownerName: e.target.value })}
+                  className="w-full bg-cyan-900/10 border border-cyan-800/30 p-2 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                />
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => setProfileDraft(null)}
+                    className="flex-1 py-2 text-xs bg-transparent border border-cyan-800/50 text-cyan-400 hover:bg-cyan-900/20"
+                  >
+                    CANCEL
+                  </button>
+                  <button
+                    onClick={applyProfileDraft}
+                    disabled={!isLoaded}
+                    className="flex-1 py-2 text-xs bg-cyan-900/30 text-cyan-100 border border-cyan-700/50 relative hover:bg-cyan-800/40"
+                  >
+                    <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-500"></div>
+                    <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-500"></div>
+                    {profileDraft.id ? 'SAVE' : 'CREATE'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => setProfileDraft({ id: null, name: '', ownerName: '' })}
+                disabled={!isLoaded}
+                className="w-full text-xs tracking-wider py-1 text-cyan-300 hover:text-cyan-100 hover:bg-cyan-900/20 transition-all duration-300"
+              >
+                + NEW PROFILE
+              </button>
+            )}
+            
+            <div className="text-[10px] opacity-50 mt-3">
+              Each profile keeps its own connections, interactions, interaction types and settings. Every profile sends its own reminders, open or not; acting on one switches to its profile.
+            </div>
+          </div>
+        </div>
+      )}
+      
+      {encryptionDraft && (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="w-96 bg-black/80 border border-cyan-900/50 p-4 relative">
+            <Marker position="top-left" />
+            <Marker position="top-right" />
+            <Marker position="bottom-left" />
+            <Marker position="bottom-right" />
+            
+            <button 
+              onClick={() => setEncryptionDraft(null)}
+              className="absolute top-2 right-2 text-cyan-500 hover:text-cyan-300 hover:shadow-[0_0_8px_rgba(0,200,255,0.4)] transition-all duration-300"
+            >
+              ×
+            </button>
+            
+            <div className="text-center mb-4">
+              <div className="text-lg font-light tracking-widest text-cyan-300">ENCRYPTION</div>
+              <div className="text-xs opacity-70">{isEncrypted ? 'STORED NETWORKS ARE ENCRYPTED' : 'STORED NETWORKS ARE PLAIN TEXT'}</div>
+            </div>
+            
+            <div className="space-y-3">
+              <div>
+                <div className="flex items-center">
+                  <label className="flex-1 text-xs tracking-wider opacity-70">LOCK AFTER IDLE</label>
+                  <select
+                    value={encryptionDraft.idleLockMinutes}
+                    onChange={(e) => setEncryptionDraft({ ...encryptionDraft, idleLockMinutes: parseInt(e.target.value) })}
+                    className="w-24 bg-black border border-cyan-800/30 p-1 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                  >
+                    {IDLE_LOCK_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{minutes} MIN</option>)}
+                  </select>
+                </div>
+                <div className="text-[10px] opacity-50">The app locks itself after this long without input</div>
+              </div>
+              
+              {isEncrypted && (
+                <input
+                  type="password"
+                  placeholder="Current passphrase"
+                  autoComplete="current-password"
+                  value={encryptionDraft.current}
+                  onChange={(e) => setEncryptionDraft({ ...encryptionDraft, current: e.target.value, error: null })}
+                  className="w-full bg-cyan-900/10 border border-cyan-800/30 p-2 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                />
+              )}
+              <input
+                type="password"
+                placeholder={isEncrypted ? 'New passphrase' : 'Passphrase'}
+                autoComplete="new-password"
+                value={encryptionDraft.next}
+                onChange={(e) => setEncryptionDraft({ ...encryptionDraft, next: e.target.value, error: null })}
+                className="w-full bg-cyan-900/10 border border-cyan-800/30 p-2 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+              />
+              <input
+                type="password"
+                placeholder="Repeat passphrase"
+                autoComplete="new-password"
+                value={encryptionDraft.confirm}
+                onChange={(e) => setEncryptionDraft({ ...encryptionDraft, confirm: e.target.value, error: null })}
+                className="w-full bg-cyan-900/10 border border-cyan-800/30 p-2 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+              />
+              
+              {encryptionDraft.error && <div className="text-[10px] text-red-400">{encryptionDraft.error}</div>}
+              
+              <div className="text-[10px] opacity-50">
+                Connections, interactions and settings of every profile are encrypted with a key derived from the passphrase. It can't be recovered: without it the data is lost. Reminders are stored outside the encryption, so while it is on they leave out names and only say a strand needs attention. Undo history is not stored encrypted, so it is kept for the open tab only.
+              </div>
+              
+              <div className={dottedSeparator}></div>
+              
+              {isEncrypted ? (
+                <div className="space-y-2">
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => applyEncryption('idle')}
+                      disabled={encryptionDraft.isBusy}
+                      className="flex-1 py-2 text-xs bg-transparent border border-cyan-800/50 text-cyan-400 hover:bg-cyan-900/20"
+                    >
+                      SAVE IDLE LOCK
+                    </button>
+                    <button
+                      onClick={() => applyEncryption('change')}
+                      disabled={encryptionDraft.isBusy}
+                      className="flex-1 py-2 text-xs bg-cyan-900/30 text-cyan-100 border border-cyan-700/50 relative hover:bg-cyan-800/40"
+                    >
+                      <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-500"></div>
+                      <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-500"></div>
+                      {encryptionDraft.isBusy ? 'WORKING...' : 'CHANGE PASSPHRASE'}
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => applyEncryption('disable')}
+                    disabled={encryptionDraft.isBusy}
+                    className="w-full py-1 text-xs tracking-wider text-red-400/70 hover:text-red-300 hover:bg-red-900/10"
+                  >
+                    TURN OFF ENCRYPTION
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => applyEncryption('enable')}
+                  disabled={encryptionDraft.isBusy}
+                  className="w-full py-2 text-xs bg-cyan-900/30 text-cyan-100 border border-cyan-700/50 relative hover:bg-cyan-800/40"
+                >
+                  <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-500"></div>
+                  <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-500"></div>
+                  {encryptionDraft.isBusy ? 'ENCRYPTING...' : 'ENCRYPT'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+      
+      {backupPassphraseDraft && (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="w-96 bg-black/80 border border-cyan-900/50 p-4 relative">
+            <Marker position="top-left" />
+            <Marker position="top-right" />
+            <Marker position="bottom-left" />
+            <Marker position="bottom-right" />
+            
+            <button 
+              onClick={() => setBackupPassphraseDraft(null)}
+              className="absolute top-2 right-2 text-cyan-500 hover:text-cyan-300 hover:shadow-[0_0_8px_rgba(0,200,255,0.4)] transition-all duration-300"
+            >
+              ×
+            </button>
+            
+            <div className="text-center mb-4">
+              <div className="text-lg font-light tracking-widest text-cyan-300">
+                {backupPassphraseDraft.mode === 'export' ? 'ENCRYPTED BACKUP' : 'OPEN ENCRYPTED BACKUP'}
+              </div>
+              <div className="text-xs opacity-70">
+                {backupPassphraseDraft.mode === 'export' ? 'CHOOSE A PASSPHRASE FOR THE FILE' : 'ENTER THE PASSPHRASE IT WAS EXPORTED WITH'}
+              </div>
+            </div>
+            
+            <form
+              className="space-y-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                applyBackupPassphrase();
+              }}
+            >
+              <input
+                type="password"
+                placeholder="Passphrase"
+                autoComplete={backupPassphraseDraft.mode === 'export' ? 'new-password' : 'off'}
+                autoFocus
+                value={backupPassphraseDraft.passphrase}
+                onChange={(e) => setBackupPassphraseDraft({ ...backupPassphraseDraft, passphrase: e.target.value, error: null })}
+                className="w-full bg-cyan-900/10 border border-cyan-800/30 p-2 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+              />
+              {backupPassphraseDraft.mode === 'export' && (
+                <input
+                  type="password"
+                  placeholder="Repeat passphrase"
+                  autoComplete="new-password"
+                  value={backupPassphraseDraft.confirm}
+                  onChange={(e) => setBackupPassphraseDraft({ ...backupPassphraseDraft, confirm: e.target.value, error: null })}
+                  className="w-full bg-cyan-900/10 border border-cyan-800/30 p-2 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                />
+              )}
+              
+              {backupPassphraseDraft.error && <div className="text-[10px] text-red-400">{backupPassphraseDraft.error}</div>}
+              
+              {backupPassphraseDraft.mode === 'export' && (
+                <div className="text-[10px] opacity-50">
+                  The backup of {activeProfile?.name || 'this network'} can only be imported with this passphrase. It doesn't have to match the storage passphrase.
+                </div>
+              )}
+              
+              <button
+                type="submit"
+                disabled={backupPassphraseDraft.isBusy}
+                className="w-full py-2 text-xs bg-cyan-900/30 text-cyan-100 border border-cyan-700/50 relative hover:bg-cyan-800/40"
+              >
+                <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-500"></div>
+                <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-500"></div>
+                {backupPassphraseDraft.isBusy ? 'WORKING...' : backupPassphraseDraft.mode === 'export' ? 'EXPORT' : 'DECRYPT'}
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
+      
+      {isLocked && (
+        <div className="fixed inset-0 bg-black/95 backdrop-blur-md flex items-center justify-center z-[60]">
+          <form
+            className="w-80 border border-cyan-900/50 p-6 relative"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleUnlock();
+            }}
+          >
+            <Marker position="top-left" />
+            <Marker position="top-right" />
+            <Marker position="bottom-left" />
+            <Marker position="bottom-right" />
+            
+            <div className="text-center mb-6">
+              <div className="text-xl tracking-[0.2em] font-light text-cyan-300 text-shadow-glow">STRAND FRIENDS</div>
+              <div className="text-xs tracking-wider opacity-70 mt-1">LOCKED · ENTER PASSPHRASE</div>
+            </div>
+            
+            <input
+              type="password"
+              autoFocus
+              autoComplete="current-password"
+              placeholder="Passphrase"
+              value={unlockPassphrase}
+              onChange={(e) => {
+                setUnlockPassphrase(e.target.value);
+                setUnlockError(null);
+              }}
+              className="w-full bg-cyan-900/10 border border-cyan-800/30 p-2 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+            />
+            {unlockError && <div className="text-[10px] text-red-400 mt-2">{unlockError}</div>}
+            {storageError && <div className="text-[10px] text-red-400 mt-2">STORAGE ERROR: {storageError}</div>}
+            
+            <button
+              type="submit"
+              disabled={isUnlocking || !unlockPassphrase}
+              className="w-full mt-4 py-2 text-xs bg-cyan-900/30 text-cyan-100 border border-cyan-700/50 relative hover:bg-cyan-800/40"
+            >
+              <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-500"></div>
+              <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-500"></div>
+              {isUnlocking ? 'UNLOCKING...' : 'UNLOCK'}
+            </button>
+            <div className="text-[10px] opacity-50 mt-3 text-center">A wrong passphrase leaves stored data untouched</div>
+          </form>
+        </div>
+      )}
+      
+      {reminderDraft && (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="w-96 bg-black/80 border border-cyan-900/50 p-4 relative">
+            <Marker position="top-left" />
+            <Marker position="top-right" />
+            <Marker position="bottom-left" />
+            <Marker position="bottom-right" />
+            
+            <button 
+              onClick={() => setReminderDraft(null)}
+              className="absolute top-2 right-2 text-cyan-500 hover:text-cyan-300 hover:shadow-[0_0_8px_rgba(0,200,255,0.4)] transition-all duration-300"
+            >
+              ×
+            </button>
+            
+            <div className="text-center mb-4">
+              <div className="text-lg font-light tracking-widest text-cyan-300">REMINDERS</div>
+              <div className="text-xs opacity-70">NOTIFY BEFORE A STRAND SLIPS</div>
+            </div>
+            
+            <div className="space-y-3">
+              {reminderPermission === 'unsupported' ? (
+                <div className="text-[10px] text-amber-400">This browser can't show notifications from the app.</div>
+              ) : (
+                <label className="flex items-center text-xs tracking-wider cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={reminderDraft.enabled}
+                    onChange={(e) => setReminderDraft({ ...reminderDraft, enabled: e.target.checked })}
+                    className="mr-2 accent-cyan-500"
+                  />
+                  <span className="flex-1 opacity-70">SEND REMINDERS</span>
+                  <span className={`text-[10px] ${reminderPermission === 'granted' ? 'text-cyan-400' : reminderPermission === 'denied' ? 'text-red-400' : 'opacity-50'}`}>
+                    {reminderPermission === 'granted' ? 'ALLOWED' : reminderPermission === 'denied' ? 'BLOCKED' : 'NOT ASKED'}
+                  </span>
+                </label>
+              )}
+              {isEncrypted && (
+                <div className="text-[10px] opacity-50">The network is encrypted, so reminders leave out names and only say a strand needs attention.</div>
+              )}
               
-              <div className="grid grid-cols-2 gap-3 mb-6">
-                <div className="p-2 relative bg-gradient-to-b from-cyan-900/20 to-transparent">
-                  <Marker position="top-left" />
-                  <Marker position="bottom-left" />
-                  <div className="absolute top-0 right-0 w-1 h-1 bg-cyan-400"></div>
-                  <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-400"></div>
-                  <div className="text-xs opacity-70">CURRENT STR</div>
-                  <div className="text-2xl font-light tracking-tighter">{Math.round(getCurrentStrength(selectedConnection)).toString().padStart(2, '0')}</div>
-                </div>
-                <div className="p-2 relative bg-gradient-to-b from-cyan-900/20 to-transparent">
-                  <Marker position="top-left" />
-                  <Marker position="bottom-left" />
-                  <div className="absolute top-0 right-0 w-1 h-1 bg-cyan-400"></div>
-                  <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-400"></div>
-                  <div className="text-xs opacity-70">LEVEL</div>
-                  <div className="text-2xl font-light">{getConnectionLevel(getCurrentStrength(selectedConnection)).badge}</div>
-                </div>
-                <div className="p-2 relative bg-gradient-to-b from-cyan-900/20 to-transparent">
-                  <Marker position="top-left" />
-                  <Marker position="bottom-left" />
-                  <div className="absolute top-0 right-0 w-1 h-1 bg-cyan-400"></div>
-                  <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-400"></div>
-                  <div className="text-xs opacity-70">HALF-LIFE</div>
-                  <div className="text-2xl font-light tracking-tighter">{selectedConnection.halfLife.toString().padStart(2, '0')}d</div>
-                </div>
-                <div className="p-2 relative bg-gradient-to-b from-cyan-900/20 to-transparent">
-                  <Marker position="top-left" />
-                  <Marker position="bottom-left" />
-                  <div className="absolute top-0 right-0 w-1 h-1 bg-cyan-400"></div>
-                  <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-400"></div>
-                  <div className="text-xs opacity-70">LAST CONTACT</div>
-                  <div className="text-2xl font-light tracking-tighter">{getDaysSinceContact(selectedConnection.lastContact).toString().padStart(2, '0')}d</div>
+              <div>
+                <div className="flex items-center">
+                  <label className="flex-1 text-xs tracking-wider opacity-70">WARNING WINDOW (DAYS)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={reminderDraft.windowDays}
+                    onChange={(e) => setReminderDraft({ ...reminderDraft, windowDays: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="w-20 bg-cyan-900/10 border border-cyan-800/30 p-1 text-sm text-right text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                  />
                 </div>
+                <div className="text-[10px] opacity-50">Remind when a strand will go dormant or drop a level within this many days. With a target level set, only falling below the target counts, and strands already below it are reminded daily</div>
               </div>
               
-              <div className={dottedSeparator}></div>
+              {([
+                { key: 'batchHour', label: 'DAILY BATCH AT', hint: 'Due reminders are gathered into one delivery a day' },
+                { key: 'quietStart', label: 'QUIET FROM', hint: 'Nothing is sent from this hour...' },
+                { key: 'quietEnd', label: 'QUIET UNTIL', hint: '...until this one; batches wait for it to end' }
+              ] as { key: 'batchHour' | 'quietStart' | 'quietEnd'; label: string; hint: string }[]).map(field => (
+                <div key={field.key}>
+                  <div className="flex items-center">
+                    <label className="flex-1 text-xs tracking-wider opacity-70">{field.label}</label>
+                    <select
+                      value={reminderDraft[field.key]}
+                      onChange={(e) => setReminderDraft({ ...reminderDraft, [field.key]: parseInt(e.target.value) })}
+                      className="w-20 bg-black border border-cyan-800/30 p-1 text-sm text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
+                    >
+                      {REMINDER_HOURS.map(hour => <option key={hour} value={hour}>{formatHour(hour)}</option>)}
+                    </select>
+                  </div>
+                  <div className="text-[10px] opacity-50">{field.hint}</div>
+                </div>
+              ))}
               
-              <div className="text-xs tracking-wider opacity-70 mb-2">
-                <span className="mr-2">- - -</span>
-                ADD INTERACTION
-                <span className="ml-2">- - -</span>
-              </div>
-              <div className="grid grid-cols-3 gap-2 mb-6">
-                <button onClick={() => addInteraction(selectedConnection.id, 'react')}
-                  className="p-2 hover:bg-cyan-900/30 hover:shadow-[0_0_10px_rgba(0,200,255,0.15)] text-center relative transition-all duration-300">
-                  <Marker position="top-left" />
-                  <Marker position="bottom-right" />
-                  <div className="text-lg">↩️</div>
-                  <div className="text-xs mt-1 font-light">+1</div>
-                </button>
-                <button onClick={() => addInteraction(selectedConnection.id, 'text')}
-                  className="p-2 hover:bg-cyan-900/30 hover:shadow-[0_0_10px_rgba(0,200,255,0.15)] text-center relative transition-all duration-300">
-                  <Marker position="top-left" />
-                  <Marker position="bottom-right" />
-                  <div className="text-lg">💬</div>
-                  <div className="text-xs mt-1 font-light">+3</div>
-                </button>
-                <button onClick={() => addInteraction(selectedConnection.id, 'call')}
-                  className="p-2 hover:bg-cyan-900/30 hover:shadow-[0_0_10px_rgba(0,200,255,0.15)] text-center relative transition-all duration-300">
-                  <Marker position="top-left" />
-                  <Marker position="bottom-right" />
-                  <div className="text-lg">📞</div>
-                  <div className="text-xs mt-1 font-light">+8</div>
-                </button>
-                <button onClick={() => addInteraction(selectedConnection.id, 'game')}
-                  className="p-2 hover:bg-cyan-900/30 hover:shadow-[0_0_10px_rgba(0,200,255,0.15)] text-center relative transition-all duration-300">
-                  <Marker position="top-left" />
-                  <Marker position="bottom-right" />
-                  <div className="text-lg">🪄</div>
-                  <div className="text-xs mt-1 font-light">+10</div>
-                </button>
-                <button onClick={() => addInteraction(selectedConnection.id, 'in-person')}
-                  className="p-2 hover:bg-cyan-900/30 hover:shadow-[0_0_10px_rgba(0,200,255,0.15)] text-center relative transition-all duration-300">
-                  <Marker position="top-left" />
-                  <Marker position="bottom-right" />
-                  <div className="text-lg">☕</div>
-                  <div className="text-xs mt-1 font-light">+15</div>
-                </button>
-                <button onClick={() => addInteraction(selectedConnection.id, 'day-trip')}
-                  className="p-2 hover:bg-cyan-900/30 hover:shadow-[0_0_10px_rgba(0,200,255,0.15)] text-center relative transition-all duration-300">
-                  <Marker position="top-left" />
-                  <Marker position="bottom-right" />
-                  <div className="text-lg">🌄</div>
-                  <div className="text-xs mt-1 font-light">+25</div>
-                </button>
+              <div className="text-[10px] opacity-50">
+                Notifications offer LOG INTERACTION, which records the usual interaction for that connection, and SNOOZE, which silences it for a day.
               </div>
               
               <div className={dottedSeparator}></div>
               
-              <div className="text-xs tracking-wider opacity-70 mb-2">
-                <span className="mr-2">- - -</span>
-                RECENT ACTIVITY
-                <span className="ml-2">- - -</span>
-              </div>
-              <div className="space-y-2">
-                {activities
-                  .filter(activity => activity.connectionId === selectedConnection.id)
-                  .slice(0, 3)
-                  .map(activity => (
-                    <div key={activity.id} className="p-2 text-xs relative bg-gradient-to-b from-cyan-900/10 to-transparent">
-                      <Marker position="top-left" />
-                      <Marker position="bottom-left" />
-                      <div className="absolute top-0 right-0 w-1 h-1 bg-cyan-400"></div>
-                      <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-400"></div>
-                      <div className="flex justify-between">
-                        <div>{getActivityEmoji(activity.type)} {activity.type.toUpperCase()}</div>
-                        <div className="text-base font-light">+{activity.points}</div>
-                      </div>
-                      <div className="opacity-70 mt-1">
-                        {formatDate(activity.date)}
-                      </div>
-                      {activity.notes && (
-                        <div className="mt-1 border-t border-dashed border-cyan-800/50 pt-1">
-                          {activity.notes}
-                        </div>
-                      )}
-                    </div>
-                  ))
-                }
-                
-                {activities.filter(a => a.connectionId === selectedConnection.id).length === 0 && (
-                  <div className="text-xs opacity-50 text-center p-2">
-                    No activity recorded
-                  </div>
-                )}
-              </div>
-            </div>
-          ) : (
-            <div className="h-full flex items-center justify-center text-cyan-500 opacity-50">
-              <div className="text-center">
-                <div className="text-lg font-light tracking-wider">SELECT A CONNECTION</div>
-                <div className="text-xs mt-2">TO VIEW DETAILS</div>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setReminderDraft({ ...DEFAULT_REMINDER_SETTINGS, enabled: reminderDraft.enabled })}
+                  className="flex-1 py-2 text-xs bg-transparent border border-cyan-800/50 text-cyan-400 hover:bg-cyan-900/20"
+                >
+                  DEFAULTS
+                </button>
+                <button
+                  onClick={applyReminderSettings}
+                  className="flex-1 py-2 text-xs bg-cyan-900/30 text-cyan-100 border border-cyan-700/50 relative hover:bg-cyan-800/40"
+                >
+                  <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-500"></div>
+                  <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-500"></div>
+                  SAVE
+                </button>
               </div>
             </div>
-          )}
+          </div>
         </div>
-      </div>
-      
-      {/* Footer - added glow effect */}
-      <footer className={`${borderStyle} p-2 text-xs text-center text-cyan-500 flex justify-center items-center space-x-4 backdrop-blur-md bg-black/40 shadow-[0_0_15px_rgba(0,180,230,0.15)] relative overflow-hidden`}>
-        {/* Subtle footer glow */}
-        <div className="absolute bottom-0 left-0 right-0 h-px bg-gradient-to-r from-transparent via-cyan-500/40 to-transparent"></div>
-        <span>STRAND FRIENDS v1.0</span>
-        <span>•</span>
-        <span>PORTER ID: DS-34601</span>
-        <span>•</span>
-        <span>CURRENT DATE: {formatDate(new Date())}</span>
-      </footer>
+      )}
       
-      {/* Add Connection Modal */}
-      {showAddConnectionModal && (
+      {/* vCard Import Modal */}
+      {vcardImport && (
         <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
-          <div className="w-96 bg-black/80 border border-cyan-900/50 p-4 relative">
+          <div className="w-[28rem] bg-black/80 border border-cyan-900/50 p-4 relative">
             <Marker position="top-left" />
             <Marker position="top-right" />
             <Marker position="bottom-left" />
             <Marker position="bottom-right" />
             
-            {/* Dashed border inside */}
-            <div className="absolute inset-5 border border-dashed border-cyan-800/20 pointer-events-none"></div>
-            
             <button 
-              onClick={() => setShowAddConnectionModal(false)}
+              onClick={() => setVcardImport(null)}
               className="absolute top-2 right-2 text-cyan-500 hover:text-cyan-300 hover:shadow-[0_0_8px_rgba(0,200,255,0.4)] transition-all duration-300"
             >
               ×
             </button>
             
             <div className="text-center mb-4">
-              <div className="text-lg font-light tracking-widest text-cyan-300">NEW CONNECTION</div>
-              <div className="text-xs opacity-70">ESTABLISH BRIDGE LINK</div>
+              <div className="text-lg font-light tracking-widest text-cyan-300">IMPORT CONTACTS</div>
+              <div className="text-xs opacity-70">
+                {vcardImport.selected.length} OF {vcardImport.contacts.length} SELECTED
+              </div>
             </div>
             
+            <div className="max-h-56 overflow-y-auto space-y-1 mb-4">
+              {vcardImport.contacts.map((contact, index) => {
+                const exists = isExistingName(contact.name);
+                const isSelected = vcardImport.selected.includes(index);
+                return (
+                  <label 
+                    key={index}
+                    className={`flex items-start p-2 text-xs relative ${exists ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer hover:bg-cyan-900/20'} ${isSelected ? 'bg-cyan-900/30' : 'bg-cyan-900/5'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={isSelected}
+                      disabled={exists}
+                      onChange={() => toggleVCardContact(index)}
+                      className="mr-2 mt-0.5 accent-cyan-500"
+                    />
+                    <div className="flex-1">
+                      <div className="flex justify-between">
+                        <span className="font-light">{contact.name}</span>
+                        {exists && <span className="text-amber-400 text-[10px]">ALREADY EXISTS</span>}
+                      </div>
+                      <div className="opacity-60 text-[10px]">
+                        {[...contact.details.phones, ...contact.details.emails, contact.details.birthday && `BDAY ${contact.details.birthday.replace(/^--/, '')}`]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </div>
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+            
+            <div className={dottedSeparator}></div>
+            
             <div className="space-y-4">
               <div>
-                <label className="text-xs tracking-wider opacity-70 mb-1 block">NAME</label>
-                <input
-                  type="text"
-                  value={newConnection.name}
-                  onChange={(e) => updateNewConnectionField('name', e.target.value)}
-                  className="w-full bg-cyan-900/10 border border-cyan-800/30 p-2 text-cyan-100 focus:border-cyan-400/50 focus:outline-none"
-                />
-              </div>
-              
-              <div className={dottedSeparator}></div>
-              
-              <div>
-                <label className="text-xs tracking-wider opacity-70 mb-1 block">INITIAL STRENGTH</label>
+                <label className="text-xs tracking-wider opacity-70 mb-1 block">STARTING STRENGTH</label>
                 <div className="flex items-center">
                   <input
                     type="range"
                     min="15"
                     max="100"
-                    value={newConnection.strength}
-                    onChange={(e) => updateNewConnectionField('strength', parseInt(e.target.value))}
+                    value={vcardDefaults.strength}
+                    onChange={(e) => setVcardDefaults(prev => ({ ...prev, strength: parseInt(e.target.value) }))}
                     className="flex-1 accent-cyan-500"
                   />
                   <span className="ml-2 font-light text-xl tracking-tighter">
-                    {newConnection.strength.toString().padStart(2, '0')}
+                    {vcardDefaults.strength.toString().padStart(2, '0')}
                   </span>
                 </div>
               </div>
@@ -1861,85 +5919,136 @@ const StrandSystem = () => {
                   {[14, 21, 30, 60, 90].map(days => (
                     <button
                       key={days}
-                      onClick={() => updateNewConnectionField('halfLife', days)}
-                      className={`flex-1 py-1 px-2 text-center relative ${newConnection.halfLife === days ? 'bg-cyan-900/50 text-cyan-100' : 'bg-cyan-900/10 hover:bg-cyan-900/30'}`}
+                      onClick={() => setVcardDefaults(prev => ({ ...prev, halfLife: days }))}
+                      className={`flex-1 py-1 px-2 text-center relative ${vcardDefaults.halfLife === days ? 'bg-cyan-900/50 text-cyan-100' : 'bg-cyan-900/10 hover:bg-cyan-900/30'}`}
                     >
-                      {newConnection.halfLife === days && (
-                        <>
-                          <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-400"></div>
-                          <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-400"></div>
-                        </>
-                      )}
                       {days}
                     </button>
                   ))}
                 </div>
               </div>
               
-              <div className={dottedSeparator}></div>
-              
-              <div>
-                <label className="text-xs tracking-wider opacity-70 mb-1 block">CONNECTION METRICS</label>
-                <div className="space-y-2">
-                  {Object.entries(newConnection.scores).map(([key, value]) => (
-                    <div key={key} className="flex items-center">
-                      <div className="w-32 text-xs opacity-70 uppercase">{key}</div>
-                      <input
-                        type="range"
-                        min="0"
-                        max="100"
-                        value={value}
-                        onChange={(e) => updateNewConnectionScore(key, e.target.value)}
-                        className="flex-1 accent-cyan-500"
-                      />
-                      <span className="ml-2 w-8 text-right font-light">
-                        {value.toString().padStart(2, '0')}
-                      </span>
-                    </div>
-                  ))}
-                </div>
-              </div>
-              
-              <div className={dottedSeparator}></div>
-              
-              <div className="pt-4 flex space-x-2">
+              <div className="pt-2 flex space-x-2">
                 <button
-                  onClick={() => setShowAddConnectionModal(false)}
+                  onClick={() => setVcardImport(null)}
                   className="flex-1 py-2 bg-transparent border border-cyan-800/50 text-cyan-400 hover:bg-cyan-900/20 relative"
                 >
-                  <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-800"></div>
-                  <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-800"></div>
                   CANCEL
                 </button>
                 <button
-                  onClick={handleAddConnection}
-                  disabled={!newConnection.name.trim()}
-                  className={`flex-1 py-2 bg-cyan-900/30 text-cyan-100 border border-cyan-700/50 ${!newConnection.name.trim() ? 'opacity-50 cursor-not-allowed' : 'hover:bg-cyan-800/40'} relative`}
+                  onClick={applyVCardImport}
+                  disabled={vcardImport.selected.length === 0}
+                  className={`flex-1 py-2 bg-cyan-900/30 text-cyan-100 border border-cyan-700/50 ${vcardImport.selected.length === 0 ? 'opacity-50 cursor-not-allowed' : 'hover:bg-cyan-800/40'} relative`}
                 >
-                  <div className="absolute top-0 left-0 w-1 h-1 bg-cyan-500"></div>
-                  <div className="absolute bottom-0 right-0 w-1 h-1 bg-cyan-500"></div>
-                  ESTABLISH
+                  IMPORT {vcardImport.selected.length}
                 </button>
               </div>
             </div>
           </div>
         </div>
       )}
+      
+      {/* Import Backup Modal */}
+      {pendingImport && (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="w-[28rem] bg-black/80 border border-cyan-900/50 p-4 relative">
+            <Marker position="top-left" />
+            <Marker position="top-right" />
+            <Marker position="bottom-left" />
+            <Marker position="bottom-right" />
+            
+            <button 
+              onClick={() => setPendingImport(null)}
+              className="absolute top-2 right-2 text-cyan-500 hover:text-cyan-300 hover:shadow-[0_0_8px_rgba(0,200,255,0.4)] transition-all duration-300"
+            >
+              ×
+            </button>
+            
+            <div className="text-center mb-4">
+              <div className="text-lg font-light tracking-widest text-cyan-300">IMPORT BACKUP</div>
+              <div className="text-xs opacity-70">
+                {pendingImport.exportedAt ? `EXPORTED ${pendingImport.exportedAt.toLocaleString()}` : 'RESTORE NETWORK DATA'}
+              </div>
+            </div>
+            
+            {pendingImport.data && (
+              <div className="grid grid-cols-2 gap-3 mb-4">
+                <div className="p-2 relative bg-gradient-to-b from-cyan-900/20 to-transparent">
+                  <div className="text-xs opacity-70">CONNECTIONS</div>
+                  <div className="text-2xl font-light tracking-tighter">{pendingImport.data.connections.length.toString().padStart(2, '0')}</div>
+                </div>
+                <div className="p-2 relative bg-gradient-to-b from-cyan-900/20 to-transparent">
+                  <div className="text-xs opacity-70">INTERACTIONS</div>
+                  <div className="text-2xl font-light tracking-tighter">{pendingImport.data.activities.length.toString().padStart(2, '0')}</div>
+                </div>
+              </div>
+            )}
+            
+            {pendingImport.issues.length > 0 && (
+              <div className="mb-4">
+                <div className="text-xs tracking-wider text-amber-400 opacity-80 mb-2">
+                  {pendingImport.issues.length} PROBLEM{pendingImport.issues.length === 1 ? '' : 'S'} FOUND
+                </div>
+                <div className="max-h-40 overflow-y-auto space-y-1">
+                  {pendingImport.issues.map((issue, index) => (
+                    <div key={index} className="text-[10px] border-l-2 border-amber-500 bg-amber-900/10 pl-2 py-1">
+                      <span className="uppercase opacity-70 mr-1">
+                        {issue.section}{issue.index !== undefined ? ` #${issue.index + 1}` : ''}{issue.id !== undefined ? ` (id ${issue.id})` : ''}:
+                      </span>
+                      {issue.message}
+                    </div>
+                  ))}
+                </div>
+                {pendingImport.data && (
+                  <div className="text-[10px] opacity-60 mt-1">Records with problems will be skipped.</div>
+                )}
+              </div>
+            )}
+            
+            <div className={dottedSeparator}></div>
+            
+            <div className="pt-2 flex space-x-2">
+              <button
+                onClick={() => setPendingImport(null)}
+                className="flex-1 py-2 bg-transparent border border-cyan-800/50 text-cyan-400 hover:bg-cyan-900/20 relative"
+              >
+                CANCEL
+              </button>
+              <button
+                onClick={() => applyImport('merge')}
+                disabled={!pendingImport.data}
+                className={`flex-1 py-2 bg-cyan-900/30 text-cyan-100 border border-cyan-700/50 ${!pendingImport.data ? 'opacity-50 cursor-not-allowed' : 'hover:bg-cyan-800/40'} relative`}
+              >
+                MERGE
+              </button>
+              <button
+                onClick={() => window.confirm('Replace your entire network with this backup?') && applyImport('replace')}
+                disabled={!pendingImport.data}
+                className={`flex-1 py-2 bg-red-900/20 text-red-300 border border-red-800/50 ${!pendingImport.data ? 'opacity-50 cursor-not-allowed' : 'hover:bg-red-900/40'} relative`}
+              >
+                REPLACE
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
 
 // Helper functions
-const getActivityEmoji = (type: string): string => {
-  switch(type) {
-    case 'react': return '↩️';
-    case 'text': return '💬';
-    case 'call': return '📞';
-    case 'game': return '🪄';
-    case 'in-person': return '☕';
-    case 'day-trip': return '🌄';
-    default: return '📝';
-  }
+// Format a duration in minutes as e.g. "1h 30m"
+const formatDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+// Format a date for a datetime-local input (local time, minute precision)
+const toDateTimeInputValue = (date: Date): string => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
 };
 
 const formatDate = (date: Date): string => {
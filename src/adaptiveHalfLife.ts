@@ -0,0 +1,99 @@
+import type { ConnectionType, ActivityType, HalfLifeMode } from './types';
+import { MS_PER_DAY } from './strandEngine';
+
+// Adaptive half-life: estimate how quickly a strand should fade from the
+// rhythm of its logged interactions. The typical gap between contacts is
+// the median of the observed gaps, which a few unusually long silences
+// can't drag around; an exponentially smoothed gap is reported alongside
+// it to show whether the cadence has recently sped up or slowed down.
+
+export const HALF_LIFE_MODES: { id: HalfLifeMode; label: string; description: string }[] = [
+  { id: 'manual', label: 'Manual', description: 'Keep the half-life you picked' },
+  { id: 'suggest', label: 'Suggest', description: 'Suggest a half-life from the interaction cadence' },
+  { id: 'auto', label: 'Auto', description: 'Apply the suggested half-life automatically' }
+];
+
+// Fewer gaps than this and the manual value is kept
+export const MIN_CADENCE_GAPS = 4;
+
+// Interactions closer together than this count as one session
+const SESSION_GAP_DAYS = 0.25;
+
+// A strand should keep about 70% of its strength over a typical gap
+const HALF_LIFE_PER_GAP = 2;
+
+const EMA_ALPHA = 0.3;
+
+const MIN_HALF_LIFE = 7;
+const MAX_HALF_LIFE = 180;
+
+// Suggestions within this fraction of the current value aren't worth raising
+const MIN_RELATIVE_CHANGE = 0.15;
+
+export interface CadenceEvidence {
+  gaps: number[];
+  medianGap: number;
+  smoothedGap: number;
+  first: Date;
+  last: Date;
+}
+
+export type HalfLifeEstimate =
+  | { status: 'insufficient'; gapCount: number; needed: number }
+  | { status: 'ok'; suggested: number; current: number; changed: boolean; evidence: CadenceEvidence };
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+// Gaps in days between consecutive interaction sessions, oldest first
+export const getContactGaps = (connection: ConnectionType, activities: ActivityType[]): number[] => {
+  const times = activities
+    .filter(activity => activity.connectionId === connection.id)
+    .map(activity => activity.date.getTime())
+    .sort((a, b) => a - b);
+
+  const gaps: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    const gap = (times[i] - times[i - 1]) / MS_PER_DAY;
+    if (gap >= SESSION_GAP_DAYS) gaps.push(gap);
+  }
+  return gaps;
+};
+
+export const estimateHalfLife = (connection: ConnectionType, activities: ActivityType[]): HalfLifeEstimate => {
+  const gaps = getContactGaps(connection, activities);
+  if (gaps.length < MIN_CADENCE_GAPS) {
+    return { status: 'insufficient', gapCount: gaps.length, needed: MIN_CADENCE_GAPS };
+  }
+
+  const dates = activities
+    .filter(activity => activity.connectionId === connection.id)
+    .map(activity => activity.date.getTime());
+  const medianGap = median(gaps);
+  const smoothedGap = gaps.slice(1).reduce((ema, gap) => EMA_ALPHA * gap + (1 - EMA_ALPHA) * ema, gaps[0]);
+  const suggested = Math.round(Math.min(MAX_HALF_LIFE, Math.max(MIN_HALF_LIFE, medianGap * HALF_LIFE_PER_GAP)));
+
+  return {
+    status: 'ok',
+    suggested,
+    current: connection.halfLife,
+    changed: Math.abs(suggested - connection.halfLife) / connection.halfLife >= MIN_RELATIVE_CHANGE,
+    evidence: {
+      gaps,
+      medianGap,
+      smoothedGap,
+      first: new Date(Math.min(...dates)),
+      last: new Date(Math.max(...dates))
+    }
+  };
+};
+
+// Apply the estimate to connections in auto mode; others are returned unchanged
+export const applyAdaptiveHalfLife = (connection: ConnectionType, activities: ActivityType[]): ConnectionType => {
+  if (connection.halfLifeMode !== 'auto') return connection;
+  const estimate = estimateHalfLife(connection, activities);
+  return estimate.status === 'ok' && estimate.changed ? { ...connection, halfLife: estimate.suggested } : connection;
+};
@@ -0,0 +1,614 @@
+import type {
+  ConnectionType,
+  ContactDetails,
+  ActivityType,
+  AppSettings,
+  InteractionPlan,
+  InteractionTypeDefinition,
+  MaintenancePlan,
+  RelationshipType,
+  TagDefinition
+} from './types';
+import {
+  SCHEMA_VERSION,
+  DEFAULT_SETTINGS,
+  migrateDocument,
+  reviveConnection,
+  reviveActivity,
+  reviveMaintenancePlan,
+  revivePlan
+} from './storage';
+import type { PersistedData, StoredDocument } from './storage';
+import { getNextId } from './ids';
+import { DECAY_CURVE_TYPES, getLadderProblems } from './strandEngine';
+import { DEFAULT_INTERACTION_TYPES } from './interactionTypes';
+import { HALF_LIFE_MODES } from './adaptiveHalfLife';
+import { RELATIONSHIP_KINDS, findRelationship } from './relationships';
+import { DEFAULT_TAGS } from './tags';
+import { MAX_PLAN_WEEKS } from './maintenance';
+import type { DecayCurveType } from './types';
+import { createKeyDerivation, decryptText, deriveKey, encryptText, isEncryptedPayload, isKeyDerivation } from './crypto';
+import type { EncryptedPayload, KeyDerivation } from './crypto';
+
+// JSON backup export/import. A backup is the stored document plus a format
+// marker, so older backups go through the same schema migrations as local data.
+// An encrypted backup wraps a plain one, sealed with its own passphrase.
+
+export const BACKUP_FORMAT = 'strand-friends-backup';
+export const ENCRYPTED_BACKUP_FORMAT = 'strand-friends-encrypted-backup';
+
+export type ImportMode = 'replace' | 'merge';
+
+export interface ImportIssue {
+  section: 'file' | 'connections' | 'activities' | 'relationships' | 'tags' | 'interactionTypes' | 'plans' | 'maintenancePlan' | 'settings';
+  index?: number;
+  id?: number;
+  message: string;
+}
+
+export interface ParsedBackup {
+  data: PersistedData | null;
+  issues: ImportIssue[];
+  exportedAt: Date | null;
+}
+
+export interface MergeResult {
+  data: PersistedData;
+  connectionsAdded: number;
+  connectionsMatched: number;
+  activitiesAdded: number;
+  activitiesSkipped: number;
+  relationshipsAdded: number;
+  tagsAdded: number;
+  interactionTypesAdded: number;
+  plansAdded: number;
+  remappedIds: number;
+}
+
+interface BackupDocument extends StoredDocument {
+  format: typeof BACKUP_FORMAT;
+  exportedAt: string;
+}
+
+interface EncryptedBackupDocument {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  exportedAt: string;
+  derivation: KeyDerivation;
+  payload: EncryptedPayload;
+}
+
+const SCORE_KEYS = ['communication', 'reliability', 'emotional', 'shared', 'support'];
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isValidDate = (value: unknown): boolean =>
+  (typeof value === 'string' || typeof value === 'number') && !isNaN(new Date(value).getTime());
+
+export const createBackup = (data: PersistedData): string => {
+  const now = new Date();
+  const doc: BackupDocument = {
+    format: BACKUP_FORMAT,
+    version: SCHEMA_VERSION,
+    exportedAt: now.toISOString(),
+    savedAt: now.toISOString(),
+    connections: data.connections as unknown as Record<string, unknown>[],
+    activities: data.activities as unknown as Record<string, unknown>[],
+    relationships: data.relationships,
+    tags: data.tags,
+    interactionTypes: data.interactionTypes,
+    plans: data.plans as unknown as Record<string, unknown>[],
+    maintenancePlan: data.maintenancePlan as unknown as Record<string, unknown> | null,
+    settings: data.settings
+  };
+  return JSON.stringify(doc, null, 2);
+};
+
+export const createEncryptedBackup = async (data: PersistedData, passphrase: string): Promise<string> => {
+  const derivation = createKeyDerivation();
+  const doc: EncryptedBackupDocument = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    exportedAt: new Date().toISOString(),
+    derivation,
+    payload: await encryptText(createBackup(data), await deriveKey(passphrase, derivation))
+  };
+  return JSON.stringify(doc, null, 2);
+};
+
+const parseEncryptedBackup = (text: string): EncryptedBackupDocument | null => {
+  try {
+    const parsed = JSON.parse(text) as EncryptedBackupDocument;
+    return parsed && parsed.format === ENCRYPTED_BACKUP_FORMAT && isKeyDerivation(parsed.derivation) && isEncryptedPayload(parsed.payload)
+      ? parsed
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isEncryptedBackup = (text: string): boolean => parseEncryptedBackup(text) !== null;
+
+// The plain backup inside, ready for parseBackup
+export const decryptBackup = async (text: string, passphrase: string): Promise<string> => {
+  const doc = parseEncryptedBackup(text);
+  if (!doc) throw new Error('File is not an encrypted Strand Friends backup');
+  try {
+    return await decryptText(doc.payload, await deriveKey(passphrase, doc.derivation));
+  } catch {
+    throw new Error('Wrong passphrase, or the file is damaged');
+  }
+};
+
+const validateConnection = (raw: Record<string, unknown>): string[] => {
+  const problems: string[] = [];
+  if (!Number.isInteger(raw.id)) problems.push('missing or non-integer id');
+  if (typeof raw.name !== 'string' || !raw.name.trim()) problems.push('missing name');
+  if (!isFiniteNumber(raw.strength) || raw.strength < 0) problems.push('invalid strength');
+  if (!isFiniteNumber(raw.halfLife) || raw.halfLife <= 0) problems.push('invalid half-life');
+  if (!isValidDate(raw.lastContact)) problems.push('invalid lastContact date');
+  if (!isFiniteNumber(raw.baseStrength) || raw.baseStrength < 0) problems.push('invalid base strength');
+  if (!isValidDate(raw.baselineDate)) problems.push('invalid baseline date');
+  if (!DECAY_CURVE_TYPES.includes(raw.decayCurve as DecayCurveType)) problems.push('unknown decay curve');
+  if (!HALF_LIFE_MODES.some(mode => mode.id === raw.halfLifeMode)) problems.push('unknown half-life mode');
+  if (!Array.isArray(raw.tags) || raw.tags.some(tag => typeof tag !== 'string')) problems.push('invalid tags');
+  if (raw.targetLevel !== undefined && !(Number.isInteger(raw.targetLevel) && (raw.targetLevel as number) >= 0)) {
+    problems.push('invalid target level');
+  }
+
+  const scores = raw.scores as Record<string, unknown> | undefined;
+  if (!scores || typeof scores !== 'object') {
+    problems.push('missing scores');
+  } else {
+    const badKeys = SCORE_KEYS.filter(key => !isFiniteNumber(scores[key]));
+    if (badKeys.length > 0) problems.push(`invalid scores: ${badKeys.join(', ')}`);
+  }
+
+  const contact = raw.contact as Record<string, unknown> | undefined;
+  if (contact !== undefined && (
+    typeof contact !== 'object' ||
+    !Array.isArray(contact.phones) ||
+    !Array.isArray(contact.emails) ||
+    (contact.birthday !== undefined && typeof contact.birthday !== 'string')
+  )) {
+    problems.push('invalid contact details');
+  }
+  return problems;
+};
+
+const validateActivity = (raw: Record<string, unknown>, connectionIds: Set<number>): string[] => {
+  const problems: string[] = [];
+  if (!Number.isInteger(raw.id)) problems.push('missing or non-integer id');
+  if (!Number.isInteger(raw.connectionId)) {
+    problems.push('missing connectionId');
+  } else if (!connectionIds.has(raw.connectionId as number)) {
+    problems.push(`references unknown connection ${raw.connectionId}`);
+  }
+  if (typeof raw.type !== 'string' || !raw.type) problems.push('missing type');
+  if (!isFiniteNumber(raw.points)) problems.push('invalid points');
+  if (!isValidDate(raw.date)) problems.push('invalid date');
+  if (raw.notes !== undefined && typeof raw.notes !== 'string') problems.push('notes must be text');
+  if (raw.durationMinutes !== undefined && !(isFiniteNumber(raw.durationMinutes) && raw.durationMinutes >= 0)) {
+    problems.push('invalid duration');
+  }
+  return problems;
+};
+
+const validateRelationship = (raw: Record<string, unknown>, connectionIds: Set<number>): string[] => {
+  const problems: string[] = [];
+  if (!Number.isInteger(raw.id)) problems.push('missing or non-integer id');
+  [raw.sourceId, raw.targetId].forEach(id => {
+    if (!Number.isInteger(id)) problems.push('missing connection id');
+    else if (!connectionIds.has(id as number)) problems.push(`references unknown connection ${id}`);
+  });
+  if (raw.sourceId === raw.targetId) problems.push('links a connection to itself');
+  if (!RELATIONSHIP_KINDS.some(kind => kind.id === raw.kind)) problems.push('unknown relationship kind');
+  if (raw.strength !== undefined && !(isFiniteNumber(raw.strength) && raw.strength >= 0)) problems.push('invalid strength');
+  return problems;
+};
+
+const validateTag = (raw: Record<string, unknown>): string[] => {
+  const problems: string[] = [];
+  if (typeof raw.id !== 'string' || !raw.id) problems.push('missing id');
+  if (typeof raw.label !== 'string' || !raw.label.trim()) problems.push('missing label');
+  if (typeof raw.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(raw.color)) problems.push('invalid color');
+  return problems;
+};
+
+const validateInteractionType = (raw: Record<string, unknown>): string[] => {
+  const problems: string[] = [];
+  if (typeof raw.id !== 'string' || !raw.id) problems.push('missing id');
+  if (typeof raw.label !== 'string' || !raw.label.trim()) problems.push('missing label');
+  if (typeof raw.emoji !== 'string') problems.push('missing emoji');
+  if (!isFiniteNumber(raw.points)) problems.push('invalid points');
+  if (raw.effects !== undefined && (typeof raw.effects !== 'object' || raw.effects === null)) problems.push('invalid effects');
+  return problems;
+};
+
+const validatePlan = (raw: Record<string, unknown>, connectionIds: Set<number>): string[] => {
+  const problems: string[] = [];
+  if (!Number.isInteger(raw.id)) problems.push('missing or non-integer id');
+  if (typeof raw.name !== 'string' || !raw.name.trim()) problems.push('missing name');
+  if (!isValidDate(raw.createdAt)) problems.push('invalid createdAt date');
+  if (!Array.isArray(raw.items)) {
+    problems.push('missing items');
+    return problems;
+  }
+  (raw.items as Record<string, unknown>[]).forEach((item, index) => {
+    if (!item || typeof item !== 'object') {
+      problems.push(`item ${index}: not an object`);
+      return;
+    }
+    if (!Number.isInteger(item.id)) problems.push(`item ${index}: missing id`);
+    if (!connectionIds.has(item.connectionId as number)) problems.push(`item ${index}: references unknown connection ${item.connectionId}`);
+    if (typeof item.type !== 'string' || !item.type) problems.push(`item ${index}: missing type`);
+    if (!isValidDate(item.date)) problems.push(`item ${index}: invalid date`);
+    if (item.repeatDays !== undefined && !(Number.isInteger(item.repeatDays) && (item.repeatDays as number) > 0)) {
+      problems.push(`item ${index}: invalid repeat interval`);
+    }
+  });
+  return problems;
+};
+
+const validateMaintenancePlan = (raw: Record<string, unknown>, connectionIds: Set<number>): string[] => {
+  const problems: string[] = [];
+  if (!isValidDate(raw.generatedAt)) problems.push('invalid generatedAt date');
+  if (!Number.isInteger(raw.weeks) || (raw.weeks as number) < 1) problems.push('invalid weeks');
+  if (!Array.isArray(raw.items)) {
+    problems.push('missing items');
+    return problems;
+  }
+  (raw.items as Record<string, unknown>[]).forEach((item, index) => {
+    if (!item || typeof item !== 'object' || !Number.isInteger(item.id) || typeof item.type !== 'string' || !isValidDate(item.date)) {
+      problems.push(`item ${index}: invalid`);
+    } else if (!connectionIds.has(item.connectionId as number)) {
+      problems.push(`item ${index}: references unknown connection ${item.connectionId}`);
+    }
+  });
+  return problems;
+};
+
+// Copy numeric fields that are present and valid, reporting the rest
+const copyNumbers = <T extends object>(defaults: T, raw: Partial<T>, issues: ImportIssue[], prefix = ''): T => {
+  const result = { ...defaults };
+  (Object.keys(defaults) as (keyof T)[]).forEach(key => {
+    if (typeof defaults[key] !== 'number' || raw[key] === undefined) return;
+    if (isFiniteNumber(raw[key])) {
+      result[key] = raw[key] as T[keyof T];
+    } else {
+      issues.push({ section: 'settings', message: `invalid value for ${prefix}${String(key)}, using default` });
+    }
+  });
+  return result;
+};
+
+const validateSettings = (raw: Partial<AppSettings> | undefined, issues: ImportIssue[]): AppSettings => {
+  if (!raw) return { ...DEFAULT_SETTINGS };
+  const settings = copyNumbers(DEFAULT_SETTINGS, raw, issues);
+  if (raw.gainModel !== undefined) {
+    if (typeof raw.gainModel === 'object' && raw.gainModel !== null) {
+      settings.gainModel = copyNumbers(DEFAULT_SETTINGS.gainModel, raw.gainModel, issues, 'gainModel.');
+    } else {
+      issues.push({ section: 'settings', message: 'invalid gainModel, using defaults' });
+    }
+  }
+  if (raw.maintenanceBudget !== undefined) {
+    const budget = raw.maintenanceBudget as unknown as Record<string, unknown>;
+    const perWeek = budget && typeof budget === 'object' ? budget.perWeek as Record<string, unknown> : undefined;
+    const isValidBudget = Number.isInteger(budget?.weeks) && (budget.weeks as number) >= 1 && (budget.weeks as number) <= MAX_PLAN_WEEKS &&
+      !!perWeek && typeof perWeek === 'object' &&
+      Object.values(perWeek).every(count => Number.isInteger(count) && (count as number) >= 0);
+    if (isValidBudget) {
+      settings.maintenanceBudget = { perWeek: { ...perWeek } as Record<string, number>, weeks: budget.weeks as number };
+    } else {
+      issues.push({ section: 'settings', message: 'invalid maintenanceBudget, using defaults' });
+    }
+  }
+  if (raw.reminders !== undefined) {
+    if (typeof raw.reminders === 'object' && raw.reminders !== null) {
+      const reminders = copyNumbers(DEFAULT_SETTINGS.reminders, raw.reminders, issues, 'reminders.');
+      const hours = [reminders.quietStart, reminders.quietEnd, reminders.batchHour];
+      if (reminders.windowDays >= 0 && hours.every(hour => Number.isInteger(hour) && hour >= 0 && hour <= 23)) {
+        settings.reminders = { ...reminders, enabled: raw.reminders.enabled === true };
+      } else {
+        issues.push({ section: 'settings', message: 'invalid reminder hours or window, using defaults' });
+      }
+    } else {
+      issues.push({ section: 'settings', message: 'invalid reminders, using defaults' });
+    }
+  }
+  if (raw.levels !== undefined) {
+    const levels = raw.levels as unknown;
+    const isWellFormed = Array.isArray(levels) && levels.every(rung =>
+      typeof rung === 'object' && rung !== null &&
+      typeof rung.label === 'string' && typeof rung.badge === 'string' &&
+      isFiniteNumber(rung.minStrength) && typeof rung.color === 'string'
+    );
+    if (isWellFormed && getLadderProblems(levels).length === 0) {
+      settings.levels = levels.map(({ label, badge, minStrength, color }) => ({ label, badge, minStrength, color }));
+    } else {
+      issues.push({ section: 'settings', message: 'invalid level ladder, using defaults' });
+    }
+  }
+  return settings;
+};
+
+// Validate a backup file, keeping valid records and reporting the rest
+export const parseBackup = (text: string): ParsedBackup => {
+  const issues: ImportIssue[] = [];
+  const fail = (message: string): ParsedBackup => ({
+    data: null,
+    issues: [...issues, { section: 'file', message }],
+    exportedAt: null
+  });
+
+  let parsed: BackupDocument;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return fail('File is not valid JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || parsed.format !== BACKUP_FORMAT) {
+    return fail('File is not a Strand Friends backup');
+  }
+  if (!Array.isArray(parsed.connections) || !Array.isArray(parsed.activities)) {
+    return fail('Backup is missing connections or activities');
+  }
+
+  let doc: StoredDocument;
+  try {
+    doc = migrateDocument(parsed);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : String(error));
+  }
+
+  const connections: ConnectionType[] = [];
+  const seenConnectionIds = new Set<number>();
+  doc.connections.forEach((raw, index) => {
+    const problems = validateConnection(raw);
+    if (problems.length === 0 && seenConnectionIds.has(raw.id as number)) {
+      problems.push('duplicate id');
+    }
+    if (problems.length > 0) {
+      issues.push({ section: 'connections', index, id: raw.id as number, message: problems.join('; ') });
+      return;
+    }
+    seenConnectionIds.add(raw.id as number);
+    connections.push(reviveConnection(raw));
+  });
+
+  const activities: ActivityType[] = [];
+  const seenActivityIds = new Set<number>();
+  doc.activities.forEach((raw, index) => {
+    const problems = validateActivity(raw, seenConnectionIds);
+    if (problems.length === 0 && seenActivityIds.has(raw.id as number)) {
+      problems.push('duplicate id');
+    }
+    if (problems.length > 0) {
+      issues.push({ section: 'activities', index, id: raw.id as number, message: problems.join('; ') });
+      return;
+    }
+    seenActivityIds.add(raw.id as number);
+    activities.push(reviveActivity(raw));
+  });
+
+  const relationships: RelationshipType[] = [];
+  (doc.relationships || []).forEach((raw, index) => {
+    const record = raw as unknown as Record<string, unknown>;
+    const problems = validateRelationship(record, seenConnectionIds);
+    if (problems.length === 0 && relationships.some(r => r.id === raw.id)) {
+      problems.push('duplicate id');
+    }
+    if (problems.length === 0 && findRelationship(raw.sourceId, raw.targetId, relationships)) {
+      problems.push('duplicate relationship');
+    }
+    if (problems.length > 0) {
+      issues.push({ section: 'relationships', index, id: record.id as number | undefined, message: problems.join('; ') });
+      return;
+    }
+    relationships.push(raw);
+  });
+
+  const tags: TagDefinition[] = [];
+  (doc.tags || DEFAULT_TAGS).forEach((raw, index) => {
+    const problems = validateTag(raw as unknown as Record<string, unknown>);
+    if (problems.length === 0 && tags.some(tag => tag.id === raw.id)) {
+      problems.push('duplicate id');
+    }
+    if (problems.length > 0) {
+      issues.push({ section: 'tags', index, message: problems.join('; ') });
+      return;
+    }
+    tags.push(raw);
+  });
+
+  const interactionTypes: InteractionTypeDefinition[] = [];
+  (doc.interactionTypes || DEFAULT_INTERACTION_TYPES).forEach((raw, index) => {
+    const record = raw as unknown as Record<string, unknown>;
+    const problems = validateInteractionType(record);
+    if (problems.length === 0 && interactionTypes.some(type => type.id === raw.id)) {
+      problems.push('duplicate id');
+    }
+    if (problems.length > 0) {
+      issues.push({ section: 'interactionTypes', index, message: problems.join('; ') });
+      return;
+    }
+    interactionTypes.push(raw);
+  });
+
+  const plans: InteractionPlan[] = [];
+  (doc.plans || []).forEach((raw, index) => {
+    const problems = validatePlan(raw, seenConnectionIds);
+    if (problems.length === 0 && plans.some(plan => plan.id === raw.id)) {
+      problems.push('duplicate id');
+    }
+    if (problems.length > 0) {
+      issues.push({ section: 'plans', index, id: raw.id as number | undefined, message: problems.join('; ') });
+      return;
+    }
+    plans.push(revivePlan(raw));
+  });
+
+  let maintenancePlan: MaintenancePlan | null = null;
+  if (doc.maintenancePlan) {
+    const problems = validateMaintenancePlan(doc.maintenancePlan, seenConnectionIds);
+    if (problems.length > 0) {
+      issues.push({ section: 'maintenancePlan', message: `${problems.join('; ')}; plan dropped` });
+    } else {
+      maintenancePlan = reviveMaintenancePlan(doc.maintenancePlan);
+    }
+  }
+
+  const settings = validateSettings(doc.settings, issues);
+
+  return {
+    data: { connections, activities, relationships, tags, interactionTypes, plans, maintenancePlan, settings },
+    issues,
+    exportedAt: isValidDate(parsed.exportedAt) ? new Date(parsed.exportedAt) : null
+  };
+};
+
+const normalizeName = (name: string): string => name.trim().toLowerCase();
+
+const mergeContact = (local?: ContactDetails, incoming?: ContactDetails): ContactDetails | undefined => {
+  if (!local || !incoming) return local || incoming;
+  return {
+    phones: [...new Set([...local.phones, ...incoming.phones])],
+    emails: [...new Set([...local.emails, ...incoming.emails])],
+    ...(local.birthday || incoming.birthday ? { birthday: local.birthday || incoming.birthday } : {})
+  };
+};
+
+// The same person on both sides. Local settings for the strand win, tags and
+// contact details are combined, and the earlier baseline is kept so the
+// merged history replays from the start of either copy.
+const mergeConnection = (local: ConnectionType, incoming: ConnectionType): ConnectionType => {
+  const baseline = incoming.baselineDate.getTime() < local.baselineDate.getTime() ? incoming : local;
+  // The cache is rebuilt from the merged activities after the merge
+  const latest = incoming.lastContact.getTime() > local.lastContact.getTime() ? incoming : local;
+  const targetLevel = local.targetLevel ?? incoming.targetLevel;
+  const contact = mergeContact(local.contact, incoming.contact);
+  return {
+    ...local,
+    baseStrength: baseline.baseStrength,
+    baselineDate: baseline.baselineDate,
+    strength: latest.strength,
+    lastContact: latest.lastContact,
+    tags: [...new Set([...local.tags, ...incoming.tags])],
+    ...(targetLevel !== undefined ? { targetLevel } : {}),
+    ...(contact ? { contact } : {})
+  };
+};
+
+// Merge imported records into the current network. Connections with the same
+// name are treated as the same person; colliding ids are reassigned and
+// activity connectionIds remapped to match.
+export const mergeData = (current: PersistedData, incoming: PersistedData): MergeResult => {
+  const connections = [...current.connections];
+  const connectionIdMap = new Map<number, number>();
+  let connectionsAdded = 0;
+  let connectionsMatched = 0;
+  let remappedIds = 0;
+
+  incoming.connections.forEach(conn => {
+    const matchIndex = connections.findIndex(c => normalizeName(c.name) === normalizeName(conn.name));
+
+    if (matchIndex >= 0) {
+      const match = connections[matchIndex];
+      connectionIdMap.set(conn.id, match.id);
+      connectionsMatched++;
+      connections[matchIndex] = mergeConnection(match, conn);
+      return;
+    }
+
+    const id = connections.some(c => c.id === conn.id) ? getNextId(connections) : conn.id;
+    if (id !== conn.id) remappedIds++;
+    connectionIdMap.set(conn.id, id);
+    connections.push({ ...conn, id });
+    connectionsAdded++;
+  });
+
+  const activities = [...current.activities];
+  let activitiesAdded = 0;
+  let activitiesSkipped = 0;
+
+  incoming.activities.forEach(activity => {
+    const connectionId = connectionIdMap.get(activity.connectionId) ?? activity.connectionId;
+    const isDuplicate = activities.some(a =>
+      a.connectionId === connectionId &&
+      a.type === activity.type &&
+      a.date.getTime() === activity.date.getTime()
+    );
+    if (isDuplicate) {
+      activitiesSkipped++;
+      return;
+    }
+
+    const id = activities.some(a => a.id === activity.id) ? getNextId(activities) : activity.id;
+    if (id !== activity.id) remappedIds++;
+    activities.push({ ...activity, id, connectionId });
+    activitiesAdded++;
+  });
+
+  activities.sort((a, b) => b.date.getTime() - a.date.getTime());
+
+  const relationships = [...current.relationships];
+  let relationshipsAdded = 0;
+
+  incoming.relationships.forEach(relationship => {
+    const sourceId = connectionIdMap.get(relationship.sourceId) ?? relationship.sourceId;
+    const targetId = connectionIdMap.get(relationship.targetId) ?? relationship.targetId;
+    // Two imported people can match the same local one
+    if (sourceId === targetId || findRelationship(sourceId, targetId, relationships)) return;
+
+    const id = relationships.some(r => r.id === relationship.id) ? getNextId(relationships) : relationship.id;
+    if (id !== relationship.id) remappedIds++;
+    relationships.push({ ...relationship, id, sourceId, targetId });
+    relationshipsAdded++;
+  });
+
+  // Imported plans point at the merged connections; a local plan with the same name wins
+  const plans = [...current.plans];
+  let plansAdded = 0;
+  incoming.plans.forEach(plan => {
+    if (current.plans.some(p => normalizeName(p.name) === normalizeName(plan.name))) return;
+    const id = plans.some(p => p.id === plan.id) ? getNextId(plans) : plan.id;
+    if (id !== plan.id) remappedIds++;
+    plans.push({
+      ...plan,
+      id,
+      items: plan.items.map(item => ({ ...item, connectionId: connectionIdMap.get(item.connectionId) ?? item.connectionId }))
+    });
+    plansAdded++;
+  });
+
+  // Keep local definitions and add any tags or interaction types we don't know yet
+  const newTags = incoming.tags.filter(tag => !current.tags.some(existing => existing.id === tag.id));
+  const newTypes = incoming.interactionTypes.filter(type =>
+    !current.interactionTypes.some(existing => existing.id === type.id)
+  );
+
+  return {
+    // Local settings win over imported ones when merging
+    data: {
+      connections,
+      activities,
+      relationships,
+      tags: [...current.tags, ...newTags],
+      interactionTypes: [...current.interactionTypes, ...newTypes],
+      plans,
+      // The maintenance plan refers to local activity ids, so the local one is kept
+      maintenancePlan: current.maintenancePlan,
+      settings: current.settings
+    },
+    connectionsAdded,
+    connectionsMatched,
+    activitiesAdded,
+    activitiesSkipped,
+    relationshipsAdded,
+    tagsAdded: newTags.length,
+    interactionTypesAdded: newTypes.length,
+    plansAdded,
+    remappedIds
+  };
+};
@@ -0,0 +1,95 @@
+// Passphrase encryption on top of WebCrypto: PBKDF2 turns the passphrase into
+// an AES-GCM key, and every payload carries its own random IV. GCM
+// authenticates the ciphertext, so a wrong key fails to decrypt instead of
+// producing garbage.
+
+export const PBKDF2_ITERATIONS = 600000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// How the key is derived from the passphrase; stored alongside the data
+export interface KeyDerivation {
+  kdf: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+  salt: string;
+}
+
+export interface EncryptedPayload {
+  cipher: 'AES-GCM';
+  iv: string;
+  data: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so large documents don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const isCryptoSupported = (): boolean =>
+  typeof crypto !== 'undefined' && typeof crypto.subtle !== 'undefined';
+
+// A fresh random salt; a new derivation is made whenever the passphrase changes
+export const createKeyDerivation = (): KeyDerivation => ({
+  kdf: 'PBKDF2',
+  hash: 'SHA-256',
+  iterations: PBKDF2_ITERATIONS,
+  salt: toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)))
+});
+
+// The key is not extractable, so it never leaves WebCrypto
+export const deriveKey = async (passphrase: string, derivation: KeyDerivation): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(derivation.salt), iterations: derivation.iterations, hash: derivation.hash },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptText = async (text: string, key: CryptoKey): Promise<EncryptedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(text));
+  return { cipher: 'AES-GCM', iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+// Rejects if the key is wrong or the payload was tampered with
+export const decryptText = async (payload: EncryptedPayload, key: CryptoKey): Promise<string> => {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+  return decoder.decode(data);
+};
+
+// Whether a key opens a payload, without surfacing the decrypt error
+export const canDecrypt = (payload: EncryptedPayload, key: CryptoKey): Promise<boolean> =>
+  decryptText(payload, key).then(() => true, () => false);
+
+export const isEncryptedPayload = (value: unknown): value is EncryptedPayload =>
+  typeof value === 'object' && value !== null &&
+  (value as EncryptedPayload).cipher === 'AES-GCM' &&
+  typeof (value as EncryptedPayload).iv === 'string' &&
+  typeof (value as EncryptedPayload).data === 'string';
+
+export const isKeyDerivation = (value: unknown): value is KeyDerivation =>
+  typeof value === 'object' && value !== null &&
+  (value as KeyDerivation).kdf === 'PBKDF2' &&
+  (value as KeyDerivation).hash === 'SHA-256' &&
+  Number.isInteger((value as KeyDerivation).iterations) && (value as KeyDerivation).iterations > 0 &&
+  typeof (value as KeyDerivation).salt === 'string';
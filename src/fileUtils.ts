@@ -0,0 +1,31 @@
+// Browser file helpers shared by the import/export features
+
+// Trigger a download of generated text content
+export const downloadFile = (filename: string, content: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const readFileAsText = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsText(file);
+});
+
+// Date stamp for exported file names, e.g. 2025-05-16
+export const getFileDateStamp = (date = new Date()): string => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Lowercase, dash-separated form of a name for file names and ids
+export const slugify = (name: string, fallback: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || fallback;
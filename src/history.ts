@@ -0,0 +1,87 @@
+// Bounded undo/redo stack of serialized network snapshots. Snapshots are the
+// same JSON documents the storage layer writes, so they can be kept in
+// sessionStorage and survive reloads within a browser session.
+
+export const HISTORY_LIMIT = 50;
+
+const SESSION_KEY = 'strand-friends:history';
+
+export interface HistoryEntry {
+  label: string;
+  snapshot: string;
+}
+
+export interface HistoryStack {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const emptyHistory: HistoryStack = { past: [], future: [] };
+
+// Record the state before a change; any redo entries are discarded
+export const pushHistory = (stack: HistoryStack, entry: HistoryEntry, limit = HISTORY_LIMIT): HistoryStack => ({
+  past: [...stack.past, entry].slice(-limit),
+  future: []
+});
+
+// Step back: returns the snapshot to restore and moves the current state to the redo stack
+export const undoHistory = (stack: HistoryStack, currentSnapshot: string): { stack: HistoryStack; entry: HistoryEntry } | null => {
+  const entry = stack.past[stack.past.length - 1];
+  if (!entry) return null;
+  return {
+    entry,
+    stack: {
+      past: stack.past.slice(0, -1),
+      future: [{ label: entry.label, snapshot: currentSnapshot }, ...stack.future]
+    }
+  };
+};
+
+// Step forward again after an undo
+export const redoHistory = (stack: HistoryStack, currentSnapshot: string): { stack: HistoryStack; entry: HistoryEntry } | null => {
+  const entry = stack.future[0];
+  if (!entry) return null;
+  return {
+    entry,
+    stack: {
+      past: [...stack.past, { label: entry.label, snapshot: currentSnapshot }],
+      future: stack.future.slice(1)
+    }
+  };
+};
+
+export const loadSessionHistory = (): HistoryStack => {
+  try {
+    const raw = window.sessionStorage.getItem(SESSION_KEY);
+    if (!raw) return emptyHistory;
+    const parsed = JSON.parse(raw) as HistoryStack;
+    return Array.isArray(parsed.past) && Array.isArray(parsed.future) ? parsed : emptyHistory;
+  } catch {
+    return emptyHistory;
+  }
+};
+
+export const saveSessionHistory = (stack: HistoryStack): void => {
+  try {
+    window.sessionStorage.setItem(SESSION_KEY, JSON.stringify(stack));
+  } catch {
+    // Quota exceeded or storage disabled: keep only the newest half in session storage
+    try {
+      window.sessionStorage.setItem(SESSION_KEY, JSON.stringify({
+        past: stack.past.slice(-Math.floor(stack.past.length / 2)),
+        future: []
+      }));
+    } catch {
+      // History stays in memory only
+    }
+  }
+};
+
+// Drop the session copy; with encryption on, history stays in memory only
+export const clearSessionHistory = (): void => {
+  try {
+    window.sessionStorage.removeItem(SESSION_KEY);
+  } catch {
+    // Storage disabled: nothing to clear
+  }
+};
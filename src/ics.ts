@@ -0,0 +1,185 @@
+import type { ConnectionType, InteractionPlan, InteractionTypeDefinition, LevelDefinition } from './types';
+import { DEFAULT_LEVELS, fixedClock, getCurrentStrength, getDaysUntilThreshold, getDormantThreshold } from './strandEngine';
+import { getInteractionDisplay } from './interactionTypes';
+
+// iCalendar (.ics) export of projected dormancy dates and level drops, and
+// of what-if plans as scheduled reminders. UIDs are derived from the profile
+// and record ids so re-imported feeds update existing events instead of
+// duplicating them, and profiles reusing the same ids don't collide.
+
+const PRODUCT_ID = '-//Strand Friends//Timefall Forecast//EN';
+const UID_DOMAIN = 'strand-friends';
+const ALARM_DAYS_BEFORE = 3;
+// Planned interactions remind on the morning of the day
+const PLAN_ALARM_TRIGGER = 'PT9H';
+
+interface CalendarEvent {
+  uid: string;
+  date: Date;
+  summary: string;
+  description: string;
+  repeatDays?: number;
+  // Last day a repeating event may fall on
+  repeatUntil?: Date;
+}
+
+const pad = (n: number): string => n.toString().padStart(2, '0');
+
+const formatDateValue = (date: Date): string =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+const formatTimestamp = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Fold content lines longer than 75 octets (RFC 5545 §3.1)
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// Build the forecast events for every connection that is not already dormant
+export const getCalendarEvents = (
+  connections: ConnectionType[],
+  profileId: string,
+  now = new Date(),
+  levels: LevelDefinition[] = DEFAULT_LEVELS
+): CalendarEvent[] => {
+  const events: CalendarEvent[] = [];
+  const clock = fixedClock(now);
+  const dormantThreshold = getDormantThreshold(levels);
+
+  connections.forEach(connection => {
+    const currentStrength = getCurrentStrength(connection, clock);
+    if (currentStrength <= dormantThreshold) return;
+
+    // Every rung above the first non-dormant one is a drop worth a warning.
+    // UIDs use the rung's index, so editing its bounds updates the event.
+    levels
+      .map((rung, i) => ({ rungIndex: i, threshold: rung.minStrength, nextLevel: levels[i - 1] }))
+      .filter(({ rungIndex, threshold }) => rungIndex > 1 && currentStrength > threshold)
+      .forEach(({ rungIndex, threshold, nextLevel }) => {
+        const days = getDaysUntilThreshold(connection, threshold, clock);
+        events.push({
+          uid: `strand-${profileId}-${connection.id}-level-${rungIndex}@${UID_DOMAIN}`,
+          date: addDays(now, days),
+          summary: `${connection.name}: strand drops to ${nextLevel.label}`,
+          description: `Strength with ${connection.name} is projected to fall below ${threshold} ` +
+            `(${nextLevel.label}) in ${days} days. An interaction before then keeps the current level.`
+        });
+      });
+
+    const daysUntilDormant = getDaysUntilThreshold(connection, dormantThreshold, clock);
+    events.push({
+      uid: `strand-${profileId}-${connection.id}-dormant@${UID_DOMAIN}`,
+      date: addDays(now, daysUntilDormant),
+      summary: `${connection.name}: strand goes dormant`,
+      description: `Strength with ${connection.name} is projected to fall below ${dormantThreshold} ` +
+        `and become dormant in ${daysUntilDormant} days. Reach out before the timefall takes it.`
+    });
+  });
+
+  return events.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+const buildCalendar = (name: string, events: CalendarEvent[], alarmTrigger: string, now: Date): string => {
+  const stamp = formatTimestamp(now);
+  // Increases on every export so clients replace the previous copy of each event
+  const sequence = Math.floor(now.getTime() / 60000);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`
+  ];
+
+  events.forEach(event => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `SEQUENCE:${sequence}`,
+      `DTSTART;VALUE=DATE:${formatDateValue(event.date)}`,
+      `DTEND;VALUE=DATE:${formatDateValue(addDays(event.date, 1))}`,
+      ...(event.repeatDays
+        ? [`RRULE:FREQ=DAILY;INTERVAL=${event.repeatDays}${event.repeatUntil ? `;UNTIL=${formatDateValue(event.repeatUntil)}` : ''}`]
+        : []),
+      `SUMMARY:${escapeText(event.summary)}`,
+      `DESCRIPTION:${escapeText(event.description)}`,
+      'TRANSP:TRANSPARENT',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.summary)}`,
+      `TRIGGER:${alarmTrigger}`,
+      'END:VALARM',
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const createDormancyCalendar = (
+  connections: ConnectionType[],
+  profileId: string,
+  now = new Date(),
+  levels: LevelDefinition[] = DEFAULT_LEVELS
+): string =>
+  buildCalendar('Strand Friends Timefall', getCalendarEvents(connections, profileId, now, levels), `-P${ALARM_DAYS_BEFORE}D`, now);
+
+// A what-if plan as reminders: one event per planned interaction, recurring
+// ones as a series that ends at `until`, the end of the forecast horizon
+export const createPlanCalendar = (
+  plan: InteractionPlan,
+  profileId: string,
+  connections: ConnectionType[],
+  catalog: InteractionTypeDefinition[],
+  until: Date,
+  now = new Date()
+): string => {
+  const events = plan.items.map(item => {
+    const name = connections.find(conn => conn.id === item.connectionId)?.name || 'Unknown';
+    const { label } = getInteractionDisplay(catalog, item.type);
+    return {
+      uid: `plan-${profileId}-${plan.id}-item-${item.id}@${UID_DOMAIN}`,
+      date: item.date,
+      summary: `${label} with ${name}`,
+      description: `Planned in "${plan.name}"` +
+        (item.repeatDays ? `, repeating every ${item.repeatDays} days until ${until.toLocaleDateString()}.` : '.') +
+        ' Log it in Strand Friends once it happens.',
+      repeatDays: item.repeatDays,
+      repeatUntil: item.date.getTime() > until.getTime() ? item.date : until
+    };
+  });
+  return buildCalendar(`Strand Friends: ${plan.name}`, events, PLAN_ALARM_TRIGGER, now);
+};
@@ -0,0 +1,3 @@
+// Next free numeric id for a list of records
+export const getNextId = (records: { id: number }[]): number =>
+  Math.max(0, ...records.map(record => record.id)) + 1;
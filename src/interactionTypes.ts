@@ -0,0 +1,48 @@
+import type { InteractionTypeDefinition } from './types';
+import { slugify } from './fileUtils';
+
+// Catalog of interaction types. Activities store the type id, so renaming a
+// type or retiring it keeps old records rendering with the current label.
+
+// Score effects are per-interaction boosts to the star chart dimensions
+export const DEFAULT_INTERACTION_TYPES: InteractionTypeDefinition[] = [
+  { id: 'react', label: 'React', emoji: '↩️', points: 1,
+    effects: { scores: { communication: 1 } } },
+  { id: 'text', label: 'Text', emoji: '💬', points: 3,
+    effects: { scores: { communication: 2 } } },
+  { id: 'call', label: 'Call', emoji: '📞', points: 8,
+    effects: { scores: { communication: 4, emotional: 2 } } },
+  { id: 'game', label: 'Game', emoji: '🪄', points: 10,
+    effects: { scores: { shared: 4, communication: 1 } } },
+  { id: 'in-person', label: 'In-person', emoji: '☕', points: 15,
+    effects: { scores: { emotional: 4, shared: 3, support: 2 } } },
+  { id: 'day-trip', label: 'Day-trip', emoji: '🌄', points: 25,
+    effects: { scores: { shared: 6, emotional: 4, reliability: 2 } } }
+];
+
+const FALLBACK_EMOJI = '📝';
+
+export const getInteractionType = (catalog: InteractionTypeDefinition[], typeId: string): InteractionTypeDefinition | undefined =>
+  catalog.find(type => type.id === typeId);
+
+// Types offered when logging new interactions
+export const getActiveInteractionTypes = (catalog: InteractionTypeDefinition[]): InteractionTypeDefinition[] =>
+  catalog.filter(type => !type.retired);
+
+// Label and emoji for an activity, falling back to the raw id for unknown types
+export const getInteractionDisplay = (catalog: InteractionTypeDefinition[], typeId: string): { label: string; emoji: string } => {
+  const type = getInteractionType(catalog, typeId);
+  return type
+    ? { label: type.label, emoji: type.emoji || FALLBACK_EMOJI }
+    : { label: typeId, emoji: FALLBACK_EMOJI };
+};
+
+// Stable id for a new type, derived from its label
+export const createInteractionTypeId = (label: string, catalog: InteractionTypeDefinition[]): string => {
+  const base = slugify(label, 'interaction');
+  let id = base;
+  for (let n = 2; catalog.some(type => type.id === id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+};
@@ -0,0 +1,196 @@
+import type {
+  ActivityType,
+  ConnectionType,
+  GainModel,
+  InteractionTypeDefinition,
+  LevelDefinition,
+  MaintenanceBudget,
+  MaintenanceItem,
+  MaintenancePlan
+} from './types';
+import {
+  DEFAULT_GAIN_MODEL,
+  DEFAULT_LEVELS,
+  MS_PER_DAY,
+  getConnectionLevel,
+  getCurrentStrength,
+  getTargetStrength,
+  getStrengthAt,
+  systemClock
+} from './strandEngine';
+import type { Clock } from './strandEngine';
+import { getActiveInteractionTypes, getInteractionType } from './interactionTypes';
+
+// Maintenance planner: spend a weekly budget of interactions where they keep
+// the most connections above their target level at the end of each week.
+// Plans are built greedily week by week; every candidate contact is replayed
+// with the history and earlier picks, so the gain model and decay curves
+// decide what a contact is worth.
+
+export const MAX_PLAN_WEEKS = 12;
+
+export const DEFAULT_MAINTENANCE_BUDGET: MaintenanceBudget = {
+  perWeek: { call: 3, 'in-person': 1 },
+  weeks: 4
+};
+
+// Planned contacts this far in the past count as missed
+const OVERDUE_GRACE_DAYS = 1;
+
+// Keep each connection at its target level, or the level it has reached
+// when it has none, and always out of dormancy
+export const getMaintenanceTarget = (
+  connection: ConnectionType,
+  clock: Clock = systemClock,
+  levels: LevelDefinition[] = DEFAULT_LEVELS
+): number => {
+  const targetLevel = connection.targetLevel ?? getConnectionLevel(getCurrentStrength(connection, clock), levels).level;
+  return getTargetStrength({ ...connection, targetLevel }, levels);
+};
+
+// The end of every planned week from `fromWeek` on
+const getCheckpoints = (start: Date, fromWeek: number, weeks: number): Date[] =>
+  Array.from({ length: weeks - fromWeek }, (_, i) => new Date(start.getTime() + (fromWeek + i + 1) * 7 * MS_PER_DAY));
+
+// Checkpoints met count most; the shortfall at the rest breaks ties
+const scoreCoverage = (
+  connection: ConnectionType,
+  activities: ActivityType[],
+  target: number,
+  checkpoints: Date[],
+  model: GainModel
+): number =>
+  checkpoints.reduce((score, date) => {
+    const strength = getStrengthAt(connection, activities, date, model);
+    return score + (strength >= target ? 1000 : -(target - strength));
+  }, 0);
+
+// Just before the strand would slip below target this week, otherwise spread over the week
+const getContactDate = (
+  connection: ConnectionType,
+  activities: ActivityType[],
+  target: number,
+  weekStart: Date,
+  spread: number,
+  model: GainModel
+): Date => {
+  for (let day = 1; day <= 7; day++) {
+    const date = new Date(weekStart.getTime() + day * MS_PER_DAY);
+    if (getStrengthAt(connection, activities, date, model) < target) {
+      return new Date(weekStart.getTime() + Math.max(0, day - 1) * MS_PER_DAY);
+    }
+  }
+  return new Date(weekStart.getTime() + spread * 7 * MS_PER_DAY);
+};
+
+// Hypothetical activities for items that haven't been done yet
+export const getPendingActivities = (items: MaintenanceItem[], catalog: InteractionTypeDefinition[]): ActivityType[] =>
+  items
+    .filter(item => item.activityId === undefined)
+    .map((item, i) => ({
+      id: -(i + 1),
+      connectionId: item.connectionId,
+      type: item.type,
+      points: getInteractionType(catalog, item.type)?.points || 0,
+      date: item.date,
+      notes: ''
+    }));
+
+export const generateMaintenancePlan = (
+  connections: ConnectionType[],
+  activities: ActivityType[],
+  catalog: InteractionTypeDefinition[],
+  budget: MaintenanceBudget,
+  model: GainModel = DEFAULT_GAIN_MODEL,
+  clock: Clock = systemClock,
+  levels: LevelDefinition[] = DEFAULT_LEVELS
+): MaintenancePlan => {
+  const now = clock.now();
+  const weeks = Math.min(MAX_PLAN_WEEKS, Math.max(1, Math.round(budget.weeks)));
+  const targets = new Map(connections.map(conn => [conn.id, getMaintenanceTarget(conn, clock, levels)]));
+  // Stronger interactions are placed first so they go where they matter most
+  const slots = getActiveInteractionTypes(catalog)
+    .flatMap(type => Array.from({ length: Math.max(0, Math.floor(budget.perWeek[type.id] || 0)) }, () => type))
+    .sort((a, b) => b.points - a.points);
+
+  const simulated = [...activities];
+  const items: MaintenanceItem[] = [];
+
+  for (let week = 0; week < weeks; week++) {
+    const weekStart = new Date(now.getTime() + week * 7 * MS_PER_DAY);
+    const checkpoints = getCheckpoints(now, week, weeks);
+    // One planned contact per person per week
+    const contacted = new Set<number>();
+
+    slots.forEach((type, slotIndex) => {
+      let best: { activity: ActivityType; improvement: number; margin: number } | null = null;
+
+      for (const conn of connections) {
+        if (contacted.has(conn.id)) continue;
+        const target = targets.get(conn.id)!;
+        const date = getContactDate(conn, simulated, target, weekStart, (slotIndex + 1) / (slots.length + 1), model);
+        const activity: ActivityType = { id: -1, connectionId: conn.id, type: type.id, points: type.points, date, notes: '' };
+        const improvement = scoreCoverage(conn, [...simulated, activity], target, checkpoints, model) -
+          scoreCoverage(conn, simulated, target, checkpoints, model);
+        // Closest to slipping wins a tie
+        const margin = getStrengthAt(conn, simulated, checkpoints[0], model) - target;
+        if (improvement > 0.01 && (!best || improvement > best.improvement || (improvement === best.improvement && margin < best.margin))) {
+          best = { activity, improvement, margin };
+        }
+      }
+
+      if (!best) return;
+      const { activity } = best;
+      items.push({ id: items.length + 1, connectionId: activity.connectionId, type: activity.type, date: activity.date });
+      simulated.push(activity);
+      contacted.add(activity.connectionId);
+    });
+  }
+
+  return { generatedAt: now, weeks, items: items.sort((a, b) => a.date.getTime() - b.date.getTime()) };
+};
+
+export interface MaintenanceCoverage {
+  // Connections above target at the end of every planned week
+  covered: number;
+  total: number;
+}
+
+export const getMaintenanceCoverage = (
+  connections: ConnectionType[],
+  activities: ActivityType[],
+  weeks: number,
+  model: GainModel = DEFAULT_GAIN_MODEL,
+  clock: Clock = systemClock,
+  levels: LevelDefinition[] = DEFAULT_LEVELS
+): MaintenanceCoverage => {
+  const checkpoints = getCheckpoints(clock.now(), 0, weeks);
+  return {
+    covered: connections.filter(conn => {
+      const target = getMaintenanceTarget(conn, clock, levels);
+      return checkpoints.every(date => getStrengthAt(conn, activities, date, model) >= target);
+    }).length,
+    total: connections.length
+  };
+};
+
+export interface PlanDivergence {
+  overdue: MaintenanceItem[];
+  // Interactions logged since the plan was made that it didn't schedule
+  unplanned: ActivityType[];
+}
+
+export const getPlanDivergence = (
+  plan: MaintenancePlan,
+  activities: ActivityType[],
+  clock: Clock = systemClock
+): PlanDivergence => {
+  const cutoff = clock.now().getTime() - OVERDUE_GRACE_DAYS * MS_PER_DAY;
+  const doneIds = new Set(plan.items.map(item => item.activityId));
+  return {
+    overdue: plan.items.filter(item => item.activityId === undefined && item.date.getTime() < cutoff),
+    unplanned: activities.filter(activity =>
+      activity.date.getTime() > plan.generatedAt.getTime() && !doneIds.has(activity.id)
+    )
+  };
+};
@@ -0,0 +1,27 @@
+import type { Profile } from './types';
+
+// Profile list helpers. Each profile is a separate network; storage keeps
+// one document per profile id.
+
+export const MAX_PROFILE_NAME_LENGTH = 40;
+
+// Ids only need to be unique within this install
+export const createProfileId = (profiles: Profile[]): string => {
+  const base = Date.now().toString(36);
+  let id = base;
+  for (let n = 2; profiles.some(profile => profile.id === id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+// The name as typed, or "Name (2)" etc. if another profile already has it
+export const getUniqueProfileName = (name: string, profiles: Profile[], exceptId?: string): string => {
+  const base = name.trim().slice(0, MAX_PROFILE_NAME_LENGTH) || 'Untitled';
+  const taken = new Set(profiles.filter(profile => profile.id !== exceptId).map(profile => profile.name.toLowerCase()));
+  let candidate = base;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) candidate = `${base} (${n})`;
+  return candidate;
+};
+
+// Center label of the network graph
+export const getOwnerLabel = (profile: Profile | undefined): string =>
+  profile?.ownerName.trim() || 'YOU';
@@ -0,0 +1,124 @@
+import type { ConnectionType, RelationshipType, RelationshipKind } from './types';
+
+// Relationships between the people in the network, independent of your own
+// strands to them. Links are undirected: source and target are interchangeable.
+
+export const RELATIONSHIP_KINDS: { id: RelationshipKind; label: string; color: string }[] = [
+  { id: 'friend', label: 'Friends', color: '#33AAFF' },
+  { id: 'family', label: 'Family', color: '#FFAA33' },
+  { id: 'partner', label: 'Partners', color: '#FF6699' },
+  { id: 'colleague', label: 'Colleagues', color: '#AAAAFF' },
+  { id: 'other', label: 'Know each other', color: '#88CCCC' }
+];
+
+// Strength assumed for relationships recorded without one
+export const DEFAULT_RELATIONSHIP_STRENGTH = 50;
+
+export const getRelationshipKind = (kind: RelationshipKind) =>
+  RELATIONSHIP_KINDS.find(k => k.id === kind) || RELATIONSHIP_KINDS[RELATIONSHIP_KINDS.length - 1];
+
+// The other end of a relationship
+export const getOtherId = (relationship: RelationshipType, connectionId: number): number =>
+  relationship.sourceId === connectionId ? relationship.targetId : relationship.sourceId;
+
+export const getRelationshipsOf = (connectionId: number, relationships: RelationshipType[]): RelationshipType[] =>
+  relationships.filter(r => r.sourceId === connectionId || r.targetId === connectionId);
+
+export const findRelationship = (a: number, b: number, relationships: RelationshipType[]): RelationshipType | undefined =>
+  relationships.find(r => (r.sourceId === a && r.targetId === b) || (r.sourceId === b && r.targetId === a));
+
+// Ids of everyone directly related to a connection
+export const getNeighbourIds = (connectionId: number, relationships: RelationshipType[]): Set<number> =>
+  new Set(getRelationshipsOf(connectionId, relationships).map(r => getOtherId(r, connectionId)));
+
+const buildAdjacency = (connections: ConnectionType[], relationships: RelationshipType[]): Map<number, number[]> => {
+  const adjacency = new Map<number, number[]>(connections.map(conn => [conn.id, []]));
+  relationships.forEach(r => {
+    if (!adjacency.has(r.sourceId) || !adjacency.has(r.targetId)) return;
+    adjacency.get(r.sourceId)!.push(r.targetId);
+    adjacency.get(r.targetId)!.push(r.sourceId);
+  });
+  return adjacency;
+};
+
+// Groups of people who are linked to each other, largest first. People with
+// no relationships are left out.
+export const findClusters = (connections: ConnectionType[], relationships: RelationshipType[]): number[][] => {
+  const adjacency = buildAdjacency(connections, relationships);
+  const seen = new Set<number>();
+  const clusters: number[][] = [];
+
+  adjacency.forEach((neighbours, id) => {
+    if (seen.has(id) || neighbours.length === 0) return;
+    const cluster: number[] = [];
+    const stack = [id];
+    seen.add(id);
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      cluster.push(current);
+      adjacency.get(current)!.forEach(next => {
+        if (!seen.has(next)) {
+          seen.add(next);
+          stack.push(next);
+        }
+      });
+    }
+    clusters.push(cluster);
+  });
+
+  return clusters.sort((a, b) => b.length - a.length);
+};
+
+export interface BridgeContact {
+  connectionId: number;
+  // The groups that would fall apart without this person
+  groups: number[][];
+}
+
+// People whose removal splits their cluster (articulation points), found with
+// Tarjan's low-link depth-first search
+export const findBridges = (connections: ConnectionType[], relationships: RelationshipType[]): BridgeContact[] => {
+  const adjacency = buildAdjacency(connections, relationships);
+  const order = new Map<number, number>();
+  const low = new Map<number, number>();
+  const articulation = new Set<number>();
+  let counter = 0;
+
+  const visit = (id: number, parent: number | null): void => {
+    order.set(id, counter);
+    low.set(id, counter);
+    counter++;
+    let children = 0;
+
+    for (const next of adjacency.get(id)!) {
+      if (next === parent) continue;
+      if (order.has(next)) {
+        low.set(id, Math.min(low.get(id)!, order.get(next)!));
+        continue;
+      }
+      children++;
+      visit(next, id);
+      low.set(id, Math.min(low.get(id)!, low.get(next)!));
+      if (parent !== null && low.get(next)! >= order.get(id)!) articulation.add(id);
+    }
+
+    if (parent === null && children > 1) articulation.add(id);
+  };
+
+  adjacency.forEach((_, id) => {
+    if (!order.has(id)) visit(id, null);
+  });
+
+  // Describe each bridge by the clusters left once it is removed
+  return [...articulation].map(connectionId => {
+    const remaining = connections.filter(conn => conn.id !== connectionId);
+    const neighbours = getNeighbourIds(connectionId, relationships);
+    const groups = findClusters(remaining, relationships.filter(r => r.sourceId !== connectionId && r.targetId !== connectionId))
+      .filter(cluster => cluster.some(id => neighbours.has(id)));
+    // Neighbours with no other relationships are groups of one
+    neighbours.forEach(id => {
+      if (!groups.some(cluster => cluster.includes(id))) groups.push([id]);
+    });
+    return { connectionId, groups };
+  }).sort((a, b) => b.groups.length - a.groups.length);
+};
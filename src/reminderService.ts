@@ -0,0 +1,205 @@
+import type { ReminderBatch, ReminderNotification, ReminderSnoozes } from './reminders';
+import { isBatchDue } from './reminders';
+import { systemClock } from './strandEngine';
+import type { Clock } from './strandEngine';
+import { registerServiceWorker } from './serviceWorker';
+import { DEFAULT_PROFILE_ID } from './storage';
+
+// Browser side of reminders. The app plans each profile's next batch and
+// leaves it in a small IndexedDB outbox; whoever is awake when one falls due
+// delivers it: the open tab, or the service worker on a periodic sync. The
+// worker records snoozes in the same database, so snoozing never needs to
+// open the app. public/reminder-sw.js reads the same database and must stay
+// in step.
+
+const DB_NAME = 'strand-friends-reminders';
+const STORE_NAME = 'state';
+const OUTBOX_KEY = 'outbox';
+const SNOOZES_KEY = 'snoozes';
+const LAST_DELIVERED_KEY = 'lastDeliveredAt';
+
+const PERIODIC_SYNC_TAG = 'strand-reminders';
+const PERIODIC_SYNC_INTERVAL_MS = 60 * 60 * 1000;
+
+// Messages posted by the worker when a notification is clicked
+export type ReminderAction = 'open' | 'log';
+
+export interface ReminderActionMessage {
+  type: 'reminder-action';
+  action: ReminderAction;
+  profileId: string;
+  connectionId: number;
+}
+
+interface StoredBatch {
+  profileId: string;
+  deliverAt: string;
+  quietStart: number;
+  quietEnd: number;
+  snoozeDays: number;
+  notifications: ReminderNotification[];
+}
+
+// Notification actions aren't in every DOM typing yet
+interface ReminderNotificationOptions extends NotificationOptions {
+  actions?: { action: string; title: string }[];
+}
+
+export const isReminderSupported = (): boolean =>
+  typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator && typeof indexedDB !== 'undefined';
+
+export const getReminderPermission = (): NotificationPermission | 'unsupported' =>
+  isReminderSupported() ? Notification.permission : 'unsupported';
+
+export const requestReminderPermission = async (): Promise<NotificationPermission | 'unsupported'> =>
+  isReminderSupported() ? Notification.requestPermission() : 'unsupported';
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+      request.result.createObjectStore(STORE_NAME);
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Run one transaction on the store and close the connection afterwards
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request ? request.result : undefined);
+    };
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const readValue = <T>(key: string): Promise<T | undefined> =>
+  withStore<T>('readonly', store => store.get(key) as IDBRequest<T>);
+
+// Each profile has its own outbox, snoozes and last delivery. The default
+// profile keeps the original keys, like its stored network.
+const getProfileKey = (key: string, profileId: string): string =>
+  profileId === DEFAULT_PROFILE_ID ? key : `${key}:${profileId}`;
+
+const isOutboxKey = (key: IDBValidKey): boolean =>
+  typeof key === 'string' && (key === OUTBOX_KEY || key.startsWith(`${OUTBOX_KEY}:`));
+
+export const readSnoozes = async (profileId: string): Promise<ReminderSnoozes> => {
+  const stored = (await readValue<Record<string, string>>(getProfileKey(SNOOZES_KEY, profileId))) || {};
+  const snoozes: ReminderSnoozes = {};
+  Object.entries(stored).forEach(([id, until]) => {
+    snoozes[Number(id)] = new Date(until);
+  });
+  return snoozes;
+};
+
+export const readLastDelivered = async (profileId: string): Promise<Date | null> => {
+  const stored = await readValue<string>(getProfileKey(LAST_DELIVERED_KEY, profileId));
+  return stored ? new Date(stored) : null;
+};
+
+// Replace a profile's pending batch; null clears it
+export const scheduleReminderBatch = (profileId: string, batch: ReminderBatch | null): Promise<unknown> =>
+  withStore('readwrite', store => {
+    if (batch) {
+      const stored: StoredBatch = { ...batch, profileId, deliverAt: batch.deliverAt.toISOString() };
+      store.put(stored, getProfileKey(OUTBOX_KEY, profileId));
+    } else {
+      store.delete(getProfileKey(OUTBOX_KEY, profileId));
+    }
+  });
+
+// Forget everything kept for a deleted profile
+export const clearReminderState = (profileId: string): Promise<unknown> =>
+  withStore('readwrite', store => {
+    [OUTBOX_KEY, SNOOZES_KEY, LAST_DELIVERED_KEY].forEach(key => store.delete(getProfileKey(key, profileId)));
+  });
+
+export const registerReminderWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!isReminderSupported()) return null;
+  const registration = await registerServiceWorker();
+  if (!registration) return null;
+  // Lets the worker deliver while the app is closed, where the browser allows it
+  const periodicSync = (registration as ServiceWorkerRegistration & {
+    periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> };
+  }).periodicSync;
+  if (periodicSync) {
+    await periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_INTERVAL_MS }).catch(() => undefined);
+  }
+  return registration;
+};
+
+// Show every profile's pending batch that is due. A batch found late, during
+// its quiet hours, waits for them to end, and connections snoozed after it
+// was planned are left out. Outboxes are claimed in the same
+// transaction that reads them, so the tab and the worker never both deliver one.
+// Resolves to the number of batches claimed.
+export const deliverDueReminders = async (clock: Clock = systemClock): Promise<number> => {
+  if (getReminderPermission() !== 'granted') return 0;
+  const now = clock.now();
+  const due: StoredBatch[] = [];
+  await withStore('readwrite', store => {
+    const keys = store.getAllKeys();
+    keys.onsuccess = () => keys.result.filter(isOutboxKey).forEach(key => {
+      const request = store.get(key) as IDBRequest<StoredBatch | undefined>;
+      request.onsuccess = () => {
+        const batch = request.result;
+        if (!batch || !isBatchDue(new Date(batch.deliverAt), batch, now)) return;
+        store.delete(key);
+        store.put(now.toISOString(), getProfileKey(LAST_DELIVERED_KEY, batch.profileId));
+        // Drop connections snoozed since the batch was planned
+        const snoozes = store.get(getProfileKey(SNOOZES_KEY, batch.profileId)) as IDBRequest<Record<string, string> | undefined>;
+        snoozes.onsuccess = () => {
+          const isSnoozed = (id: number | null) => id !== null && new Date(snoozes.result?.[id] || 0).getTime() > now.getTime();
+          due.push({ ...batch, notifications: batch.notifications.filter(notification => !isSnoozed(notification.connectionId)) });
+        };
+      };
+    });
+  });
+  if (due.length === 0) return 0;
+
+  const registration = await navigator.serviceWorker.ready;
+  const notifications = due.flatMap(batch => batch.notifications.map(notification => ({ batch, notification })));
+  await Promise.all(notifications.map(({ batch, notification }) => {
+    const options: ReminderNotificationOptions = {
+      body: notification.body,
+      tag: notification.tag,
+      data: { profileId: batch.profileId, connectionId: notification.connectionId, snoozeDays: batch.snoozeDays },
+      actions: notification.connectionId === null ? [] : [
+        { action: 'log', title: 'Log interaction' },
+        { action: 'snooze', title: `Snooze ${batch.snoozeDays}d` }
+      ]
+    };
+    return registration.showNotification(notification.title, options);
+  }));
+  return due.length;
+};
+
+export const isReminderActionMessage = (data: unknown): data is ReminderActionMessage =>
+  typeof data === 'object' && data !== null && (data as ReminderActionMessage).type === 'reminder-action' &&
+  typeof (data as ReminderActionMessage).profileId === 'string';
+
+// A notification click that opened the app passes its action in the URL;
+// read it once and tidy the address bar
+export const takeReminderActionFromUrl = (): ReminderActionMessage | null => {
+  const url = new URL(window.location.href);
+  const action = url.searchParams.get('reminder');
+  const profileId = url.searchParams.get('profile');
+  const connectionId = parseInt(url.searchParams.get('connection') || '', 10);
+  if ((action !== 'open' && action !== 'log') || !profileId || isNaN(connectionId)) return null;
+  url.searchParams.delete('reminder');
+  url.searchParams.delete('profile');
+  url.searchParams.delete('connection');
+  window.history.replaceState(null, '', url.href);
+  return { type: 'reminder-action', action, profileId, connectionId };
+};
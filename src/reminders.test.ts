@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import type { ConnectionType, ReminderSettings } from './types';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  MAX_BATCH_NOTIFICATIONS,
+  SNOOZE_DAYS,
+  getDueReminders,
+  getNextBatchTime,
+  isBatchDue,
+  isQuietTime,
+  planReminderBatch,
+  redactReminderBatch
+} from './reminders';
+import { fixedClock } from './strandEngine';
+
+const at = (day: number, hour: number, minute = 0): Date => new Date(2025, 4, day, hour, minute);
+
+const NOW = at(20, 12);
+
+const settings: ReminderSettings = { ...DEFAULT_REMINDER_SETTINGS, enabled: true, windowDays: 7 };
+
+const createConnection = (id: number, strength: number, changes: Partial<ConnectionType> = {}): ConnectionType => ({
+  id,
+  name: `Porter ${id}`,
+  baseStrength: strength,
+  baselineDate: NOW,
+  strength,
+  lastContact: NOW,
+  halfLife: 14,
+  decayCurve: 'exponential',
+  halfLifeMode: 'manual',
+  tags: [],
+  scores: { communication: 50, reliability: 50, emotional: 50, shared: 50, support: 50 },
+  ...changes
+});
+
+describe('isQuietTime', () => {
+  it('wraps quiet hours around midnight', () => {
+    expect(isQuietTime(at(20, 22), settings)).toBe(true);
+    expect(isQuietTime(at(20, 23, 30), settings)).toBe(true);
+    expect(isQuietTime(at(21, 3), settings)).toBe(true);
+    expect(isQuietTime(at(21, 7, 59), settings)).toBe(true);
+    expect(isQuietTime(at(21, 8), settings)).toBe(false);
+    expect(isQuietTime(at(20, 21, 59), settings)).toBe(false);
+  });
+
+  it('handles quiet hours within one day', () => {
+    const afternoon = { quietStart: 13, quietEnd: 15 };
+    expect(isQuietTime(at(20, 14), afternoon)).toBe(true);
+    expect(isQuietTime(at(20, 15), afternoon)).toBe(false);
+    expect(isQuietTime(at(20, 12), afternoon)).toBe(false);
+  });
+
+  it('is never quiet when start and end are equal', () => {
+    expect(isQuietTime(at(20, 3), { quietStart: 8, quietEnd: 8 })).toBe(false);
+  });
+});
+
+describe('getNextBatchTime', () => {
+  it('waits for the batch hour', () => {
+    expect(getNextBatchTime(null, settings, fixedClock(at(20, 6))).getTime()).toBe(at(20, 9).getTime());
+  });
+
+  it('delivers right away once the batch hour has passed', () => {
+    expect(getNextBatchTime(null, settings, fixedClock(NOW)).getTime()).toBe(NOW.getTime());
+  });
+
+  it('moves to tomorrow once today has had its delivery', () => {
+    expect(getNextBatchTime(at(20, 9), settings, fixedClock(NOW)).getTime()).toBe(at(21, 9).getTime());
+  });
+
+  it('pushes a batch hour inside quiet hours to their end', () => {
+    const late = { ...settings, batchHour: 23 };
+    expect(getNextBatchTime(null, late, fixedClock(NOW)).getTime()).toBe(at(21, 8).getTime());
+  });
+});
+
+describe('isBatchDue', () => {
+  const deliverAt = at(20, 21);
+
+  it('holds a batch until its time', () => {
+    expect(isBatchDue(deliverAt, settings, at(20, 20))).toBe(false);
+    expect(isBatchDue(deliverAt, settings, at(20, 21))).toBe(true);
+  });
+
+  it('holds a late batch until quiet hours end', () => {
+    expect(isBatchDue(deliverAt, settings, at(20, 23))).toBe(false);
+    expect(isBatchDue(deliverAt, settings, at(21, 7))).toBe(false);
+    expect(isBatchDue(deliverAt, settings, at(21, 8))).toBe(true);
+  });
+});
+
+describe('getDueReminders', () => {
+  it('puts dormancy first, then drops, then strands below target, soonest first', () => {
+    const connections = [
+      createConnection(1, 32, { targetLevel: 3 }),
+      createConnection(2, 65),
+      createConnection(3, 17),
+      createConnection(4, 16)
+    ];
+    const reminders = getDueReminders(connections, settings, {}, fixedClock(NOW));
+    expect(reminders.map(reminder => [reminder.connectionId, reminder.kind])).toEqual([
+      [4, 'dormant'],
+      [3, 'dormant'],
+      [2, 'level-drop'],
+      [1, 'below-target']
+    ]);
+  });
+
+  it('leaves out snoozed connections until the snooze ends', () => {
+    const connections = [createConnection(1, 16)];
+    const snoozes = { 1: at(21, 12) };
+    expect(getDueReminders(connections, settings, snoozes, fixedClock(NOW))).toEqual([]);
+    expect(getDueReminders(connections, settings, snoozes, fixedClock(at(21, 13)))).toHaveLength(1);
+  });
+});
+
+describe('planReminderBatch', () => {
+  it('plans nothing while reminders are off', () => {
+    const connections = [createConnection(1, 16)];
+    expect(planReminderBatch('default', connections, { ...settings, enabled: false }, {}, null, fixedClock(NOW))).toBeNull();
+  });
+
+  it('plans nothing when no strand is due', () => {
+    expect(planReminderBatch('default', [createConnection(1, 50)], settings, {}, null, fixedClock(NOW))).toBeNull();
+  });
+
+  it('carries the profile, quiet hours and snooze length', () => {
+    const batch = planReminderBatch('work', [createConnection(1, 16)], settings, {}, at(20, 9), fixedClock(NOW));
+    expect(batch).toMatchObject({
+      profileId: 'work',
+      deliverAt: at(21, 9),
+      quietStart: settings.quietStart,
+      quietEnd: settings.quietEnd,
+      snoozeDays: SNOOZE_DAYS
+    });
+    expect(batch?.notifications[0]).toMatchObject({ tag: 'strand-work-1', title: 'Porter 1 is going dormant', connectionId: 1 });
+  });
+
+  it('folds reminders past the limit into a summary', () => {
+    const connections = [1, 2, 3, 4, 5].map(id => createConnection(id, 16));
+    const batch = planReminderBatch('default', connections, settings, {}, null, fixedClock(NOW));
+    expect(batch?.notifications).toHaveLength(MAX_BATCH_NOTIFICATIONS + 1);
+    expect(batch?.notifications[MAX_BATCH_NOTIFICATIONS]).toMatchObject({
+      tag: 'strand-summary-default',
+      title: '2 more strands need attention',
+      connectionId: null
+    });
+  });
+});
+
+describe('redactReminderBatch', () => {
+  it('leaves no names in the batch', () => {
+    const connections = [1, 2, 3, 4, 5].map(id => createConnection(id, 16));
+    const batch = planReminderBatch('default', connections, settings, {}, null, fixedClock(NOW));
+    const redacted = redactReminderBatch(batch!);
+    expect(JSON.stringify(redacted.notifications)).not.toContain('Porter');
+    expect(redacted.notifications.map(notification => notification.tag)).toEqual(batch!.notifications.map(notification => notification.tag));
+  });
+});
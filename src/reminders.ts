@@ -0,0 +1,209 @@
+import type { ConnectionType, LevelDefinition, ReminderSettings } from './types';
+import {
+  DEFAULT_LEVELS,
+  getConnectionLevel,
+  getCurrentStrength,
+  getDaysUntilThreshold,
+  getDormantThreshold,
+  getLevelFloor,
+  getTargetStrength,
+  fixedClock,
+  systemClock
+} from './strandEngine';
+import type { Clock } from './strandEngine';
+
+// Reminder scheduling: which strands are about to slip, and when to say so.
+// Everything here is pure and takes a clock, so a fake clock can walk it
+// through quiet hours and day boundaries. Delivery lives in reminderService.
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  windowDays: 3,
+  quietStart: 22,
+  quietEnd: 8,
+  batchHour: 9
+};
+
+// A snooze silences one connection for this long
+export const SNOOZE_DAYS = 1;
+
+// Individual notifications per batch; the rest are folded into a summary
+export const MAX_BATCH_NOTIFICATIONS = 3;
+
+export type ReminderKind = 'dormant' | 'level-drop' | 'below-target';
+
+// Order within a batch: dormancy first, then drops, then strands already below target
+const REMINDER_KIND_RANK: Record<ReminderKind, number> = { dormant: 0, 'level-drop': 1, 'below-target': 2 };
+
+export interface Reminder {
+  connectionId: number;
+  name: string;
+  kind: ReminderKind;
+  // Whole days until the drop, 0 if it is due today or already happened
+  days: number;
+  // Level label after the drop; for 'below-target', the target level
+  nextLevel: string;
+}
+
+// What the service worker shows; `connectionId` is null for the summary
+export interface ReminderNotification {
+  tag: string;
+  title: string;
+  body: string;
+  connectionId: number | null;
+}
+
+// Connection ids repeat across profiles, so a batch names its profile. It
+// also carries the quiet hours and snooze length, so a late delivery and the
+// snooze action follow the settings it was planned with.
+export interface ReminderBatch {
+  profileId: string;
+  deliverAt: Date;
+  quietStart: number;
+  quietEnd: number;
+  snoozeDays: number;
+  notifications: ReminderNotification[];
+}
+
+// Snoozed connections, keyed by id, with the moment the snooze ends
+export type ReminderSnoozes = Record<number, Date>;
+
+// Dormancy first, then the soonest drop. A connection with a target level is
+// only reminded about that level: when it is below it, or about to fall below.
+export const getDueReminders = (
+  connections: ConnectionType[],
+  settings: ReminderSettings,
+  snoozes: ReminderSnoozes = {},
+  clock: Clock = systemClock,
+  levels: LevelDefinition[] = DEFAULT_LEVELS
+): Reminder[] => {
+  const now = clock.now().getTime();
+  return connections
+    .filter(conn => !(snoozes[conn.id] && snoozes[conn.id].getTime() > now))
+    .flatMap((conn): Reminder[] => {
+      const strength = getCurrentStrength(conn, clock);
+      const level = getConnectionLevel(strength, levels).level;
+      // Already dormant strands have nothing left to lose
+      if (level === 0) return [];
+      const target = getTargetStrength(conn, levels);
+      if (conn.targetLevel !== undefined && strength < target) {
+        return [{ connectionId: conn.id, name: conn.name, kind: 'below-target', days: 0, nextLevel: getConnectionLevel(target, levels).label }];
+      }
+      const dormantDays = getDaysUntilThreshold(conn, getDormantThreshold(levels), clock);
+      if (dormantDays <= settings.windowDays) {
+        return [{ connectionId: conn.id, name: conn.name, kind: 'dormant', days: dormantDays, nextLevel: levels[0].label }];
+      }
+      const floor = conn.targetLevel !== undefined ? target : getLevelFloor(level, levels);
+      const dropDays = getDaysUntilThreshold(conn, floor, clock);
+      if (floor > getDormantThreshold(levels) && dropDays <= settings.windowDays) {
+        const nextLevel = levels[getConnectionLevel(floor, levels).level - 1].label;
+        return [{ connectionId: conn.id, name: conn.name, kind: 'level-drop', days: dropDays, nextLevel }];
+      }
+      return [];
+    })
+    .sort((a, b) => REMINDER_KIND_RANK[a.kind] - REMINDER_KIND_RANK[b.kind] || a.days - b.days);
+};
+
+const atHour = (date: Date, hour: number): Date => {
+  const result = new Date(date.getTime());
+  result.setHours(hour, 0, 0, 0);
+  return result;
+};
+
+// Whether a local time falls inside the quiet hours
+export const isQuietTime = (date: Date, settings: Pick<ReminderSettings, 'quietStart' | 'quietEnd'>): boolean => {
+  const hour = date.getHours() + date.getMinutes() / 60;
+  const { quietStart, quietEnd } = settings;
+  if (quietStart === quietEnd) return false;
+  return quietStart < quietEnd
+    ? hour >= quietStart && hour < quietEnd
+    : hour >= quietStart || hour < quietEnd;
+};
+
+// The first moment from `date` on that is outside the quiet hours
+const afterQuietHours = (date: Date, settings: ReminderSettings): Date => {
+  if (!isQuietTime(date, settings)) return date;
+  const end = atHour(date, settings.quietEnd);
+  if (end.getTime() <= date.getTime()) end.setDate(end.getDate() + 1);
+  return end;
+};
+
+// One batch a day: from the batch hour on, once nothing has been delivered
+// today, pushed past the quiet hours
+export const getNextBatchTime = (
+  lastDeliveredAt: Date | null,
+  settings: ReminderSettings,
+  clock: Clock = systemClock
+): Date => {
+  const now = clock.now();
+  const batch = atHour(now, settings.batchHour);
+  if (lastDeliveredAt && lastDeliveredAt.getTime() >= atHour(now, 0).getTime()) {
+    batch.setDate(batch.getDate() + 1);
+  }
+  return afterQuietHours(batch.getTime() > now.getTime() ? batch : now, settings);
+};
+
+// Whether a planned batch goes out now. A batch found late, during its
+// quiet hours, waits for them to end.
+export const isBatchDue = (
+  deliverAt: Date,
+  quietHours: Pick<ReminderSettings, 'quietStart' | 'quietEnd'>,
+  now: Date
+): boolean => deliverAt.getTime() <= now.getTime() && !isQuietTime(now, quietHours);
+
+const describeDays = (days: number): string =>
+  days === 0 ? 'today' : days === 1 ? 'tomorrow' : `in ${days} days`;
+
+// Tags carry the profile so batches from different profiles don't replace each other
+export const buildNotifications = (reminders: Reminder[], profileId: string): ReminderNotification[] => {
+  const shown = reminders.slice(0, MAX_BATCH_NOTIFICATIONS).map(reminder => ({
+    tag: `strand-${profileId}-${reminder.connectionId}`,
+    title: reminder.kind === 'dormant' ? `${reminder.name} is going dormant`
+      : reminder.kind === 'below-target' ? `${reminder.name} is below target`
+        : `${reminder.name} is slipping`,
+    body: reminder.kind === 'below-target'
+      ? `Strand is under ${reminder.nextLevel}; an interaction will lift it back.`
+      : `Strand drops to ${reminder.nextLevel} ${describeDays(reminder.days)}.`,
+    connectionId: reminder.connectionId
+  }));
+  const rest = reminders.length - shown.length;
+  if (rest > 0) {
+    shown.push({
+      tag: `strand-summary-${profileId}`,
+      title: `${rest} more strand${rest === 1 ? '' : 's'} need attention`,
+      body: reminders.slice(MAX_BATCH_NOTIFICATIONS).map(reminder => reminder.name).join(', '),
+      connectionId: null
+    });
+  }
+  return shown;
+};
+
+// The outbox sits outside the passphrase encryption, so an encrypted
+// network's batch names no one: only how many strands need attention
+export const redactReminderBatch = (batch: ReminderBatch): ReminderBatch => ({
+  ...batch,
+  notifications: batch.notifications.map(notification => ({
+    ...notification,
+    title: notification.connectionId === null ? notification.title : 'A strand needs attention',
+    body: 'Open Strand Friends to see who.'
+  }))
+});
+
+// A profile's next batch, with reminders worked out as of its delivery time.
+// Null when reminders are off or nothing will be due.
+export const planReminderBatch = (
+  profileId: string,
+  connections: ConnectionType[],
+  settings: ReminderSettings,
+  snoozes: ReminderSnoozes,
+  lastDeliveredAt: Date | null,
+  clock: Clock = systemClock,
+  levels: LevelDefinition[] = DEFAULT_LEVELS
+): ReminderBatch | null => {
+  if (!settings.enabled) return null;
+  const deliverAt = getNextBatchTime(lastDeliveredAt, settings, clock);
+  const notifications = buildNotifications(getDueReminders(connections, settings, snoozes, fixedClock(deliverAt), levels), profileId);
+  if (notifications.length === 0) return null;
+  const { quietStart, quietEnd } = settings;
+  return { profileId, deliverAt, quietStart, quietEnd, snoozeDays: SNOOZE_DAYS, notifications };
+};
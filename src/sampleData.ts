@@ -0,0 +1,36 @@
+import type { ConnectionType, ActivityType, RelationshipType } from './types';
+
+// Demo network seeded on first run or via "load demo network".
+// Each strength is its own baseline, so the sample activities are not replayed on top.
+export const getSampleConnections = (): ConnectionType[] => ([
+  { id: 1, name: 'Sam', strength: 75, lastContact: new Date(2025, 4, 15), halfLife: 21, decayCurve: 'exponential', tags: ['work'],
+    scores: { communication: 80, reliability: 70, emotional: 85, shared: 65, support: 75 } },
+  { id: 2, name: 'Fragile', strength: 45, lastContact: new Date(2025, 4, 10), halfLife: 14, decayCurve: 'exponential', tags: ['work'],
+    scores: { communication: 50, reliability: 40, emotional: 55, shared: 35, support: 45 } },
+  { id: 3, name: 'Deadman', strength: 28, lastContact: new Date(2025, 4, 5), halfLife: 30, decayCurve: 'exponential', tags: ['hobby'],
+    scores: { communication: 30, reliability: 25, emotional: 35, shared: 20, support: 30 } },
+  { id: 4, name: 'Heartman', strength: 95, lastContact: new Date(2025, 4, 16), halfLife: 14, decayCurve: 'exponential', tags: ['hobby'],
+    scores: { communication: 90, reliability: 100, emotional: 95, shared: 85, support: 105 } },
+  { id: 5, name: 'Mama', strength: 15, lastContact: new Date(2025, 3, 20), halfLife: 21, decayCurve: 'exponential', tags: ['family'],
+    scores: { communication: 15, reliability: 20, emotional: 10, shared: 15, support: 15 } },
+] as Omit<ConnectionType, 'baseStrength' | 'baselineDate' | 'halfLifeMode'>[]).map(conn => ({
+  ...conn,
+  halfLifeMode: 'manual' as const,
+  baseStrength: conn.strength,
+  baselineDate: conn.lastContact
+}));
+
+export const getSampleActivities = (): ActivityType[] => [
+  { id: 1, connectionId: 1, type: 'call', points: 8, date: new Date(2025, 4, 15), notes: 'Discussed upcoming projects' },
+  { id: 2, connectionId: 4, type: 'in-person', points: 15, date: new Date(2025, 4, 16), notes: 'Coffee meetup' },
+  { id: 3, connectionId: 2, type: 'text', points: 3, date: new Date(2025, 4, 10), notes: 'Quick check-in' },
+  { id: 4, connectionId: 3, type: 'react', points: 1, date: new Date(2025, 4, 5), notes: 'Liked photo' },
+  { id: 5, connectionId: 5, type: 'text', points: 3, date: new Date(2025, 3, 20), notes: 'Birthday wishes' },
+];
+
+export const getSampleRelationships = (): RelationshipType[] => [
+  { id: 1, sourceId: 1, targetId: 2, kind: 'friend', strength: 60 },
+  { id: 2, sourceId: 1, targetId: 5, kind: 'family', strength: 90 },
+  { id: 3, sourceId: 3, targetId: 4, kind: 'colleague', strength: 70 },
+  { id: 4, sourceId: 2, targetId: 3, kind: 'other' },
+];
@@ -0,0 +1,54 @@
+import type { ConnectionScores } from './types';
+
+// Comparing star chart scores across connections: overlays of a few people
+// or a group average, and rankings by a single dimension.
+
+// Connections shown on one radar, the selected one included
+export const MAX_COMPARED = 4;
+
+// One color per compared series; the first matches the single-connection chart
+export const COMPARE_COLORS = ['#06B6D4', '#FF6699', '#66DD88', '#DD66FF'];
+
+export const SCORE_DIMENSIONS: (keyof ConnectionScores)[] = ['communication', 'reliability', 'emotional', 'shared', 'support'];
+
+// Mean of each dimension, rounded like the scores themselves
+export const averageScores = (list: ConnectionScores[]): ConnectionScores | null => {
+  if (list.length === 0) return null;
+  const average = {} as ConnectionScores;
+  SCORE_DIMENSIONS.forEach(key => {
+    average[key] = Math.round(list.reduce((sum, scores) => sum + scores[key], 0) / list.length);
+  });
+  return average;
+};
+
+// Per-dimension difference from a reference series
+export const getScoreDiffs = (scores: ConnectionScores, reference: ConnectionScores): ConnectionScores => {
+  const diffs = {} as ConnectionScores;
+  SCORE_DIMENSIONS.forEach(key => {
+    diffs[key] = scores[key] - reference[key];
+  });
+  return diffs;
+};
+
+// Highest first; ties keep their original order
+export const rankByScore = <T extends { scores: ConnectionScores }>(entries: T[], key: keyof ConnectionScores): T[] =>
+  [...entries].sort((a, b) => b.scores[key] - a.scores[key]);
+
+// Point of a score on its radar axis
+export const getRadarPoint = (
+  index: number,
+  value: number,
+  center: number,
+  radius: number
+): [number, number] => {
+  const angle = (index / SCORE_DIMENSIONS.length) * Math.PI * 2;
+  const r = (Math.min(value, 100) / 100) * radius;
+  return [center + Math.cos(angle) * r, center + Math.sin(angle) * r];
+};
+
+// Closed radar outline for a set of scores
+export const getRadarPath = (scores: ConnectionScores, center: number, radius: number): string =>
+  SCORE_DIMENSIONS.map((key, i) => {
+    const [x, y] = getRadarPoint(i, scores[key], center, radius);
+    return (i === 0 ? 'M' : 'L') + x + ',' + y;
+  }).join(' ') + 'Z';
@@ -0,0 +1,62 @@
+// Service worker registration, shared by the offline app shell and
+// reminders. Production builds register sw.js, which precaches the shell and
+// loads the reminder handlers; the dev server has no build to precache, so
+// it registers the reminder worker on its own.
+
+const WORKER_URL = `${import.meta.env.BASE_URL}${import.meta.env.PROD ? 'sw.js' : 'reminder-sw.js'}`;
+
+// Long-running tabs look for a new build this often
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+let registrationPromise: Promise<ServiceWorkerRegistration | null> | null = null;
+
+export const isServiceWorkerSupported = (): boolean =>
+  typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+// Registers once per page; later calls share the same registration
+export const registerServiceWorker = (): Promise<ServiceWorkerRegistration | null> => {
+  if (!registrationPromise) {
+    registrationPromise = isServiceWorkerSupported()
+      ? navigator.serviceWorker.register(WORKER_URL)
+      : Promise.resolve(null);
+  }
+  return registrationPromise;
+};
+
+// Activate the waiting worker and reload onto the new build
+const applyUpdate = (worker: ServiceWorker): void => {
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  worker.postMessage({ type: 'skip-waiting' });
+};
+
+// Calls back once a new build has installed and is waiting to take over.
+// The first install is not an update, so it only counts while a worker
+// already controls the page. Returns a cleanup function.
+export const watchForUpdates = (
+  registration: ServiceWorkerRegistration,
+  onUpdateReady: (apply: () => void) => void
+): (() => void) => {
+  const notifyIfWaiting = () => {
+    const waiting = registration.waiting;
+    if (waiting && navigator.serviceWorker.controller) onUpdateReady(() => applyUpdate(waiting));
+  };
+  const handleUpdateFound = () => {
+    const worker = registration.installing;
+    worker?.addEventListener('statechange', () => {
+      if (worker.state === 'installed') notifyIfWaiting();
+    });
+  };
+  const checkForUpdate = () => {
+    registration.update().catch(() => undefined);
+  };
+
+  notifyIfWaiting();
+  registration.addEventListener('updatefound', handleUpdateFound);
+  window.addEventListener('online', checkForUpdate);
+  const timer = window.setInterval(checkForUpdate, UPDATE_CHECK_MS);
+  return () => {
+    registration.removeEventListener('updatefound', handleUpdateFound);
+    window.removeEventListener('online', checkForUpdate);
+    window.clearInterval(timer);
+  };
+};
@@ -0,0 +1,538 @@
+import type {
+  ConnectionType,
+  ActivityType,
+  AppSettings,
+  InteractionPlan,
+  InteractionTypeDefinition,
+  MaintenanceItem,
+  MaintenancePlan,
+  PlannedInteraction,
+  Profile,
+  RelationshipType,
+  TagDefinition
+} from './types';
+import { DEFAULT_INTERACTION_TYPES } from './interactionTypes';
+import { DEFAULT_TAGS } from './tags';
+import { DEFAULT_GAIN_MODEL, DEFAULT_LEVELS } from './strandEngine';
+import { DEFAULT_MAINTENANCE_BUDGET } from './maintenance';
+import { DEFAULT_REMINDER_SETTINGS } from './reminders';
+import { canDecrypt, createKeyDerivation, decryptText, deriveKey, encryptText, isEncryptedPayload } from './crypto';
+import type { EncryptedPayload, KeyDerivation } from './crypto';
+
+// Persistence layer: IndexedDB when available, localStorage otherwise.
+// Each profile's network is stored as a single versioned JSON document so
+// migrations can upgrade older saves before they reach the UI. A small
+// profile index lists the profiles and remembers the active one. With
+// encryption on, every stored value except the encryption header is sealed
+// with a key derived from the user's passphrase.
+
+export const SCHEMA_VERSION = 14;
+
+const DB_NAME = 'strand-friends';
+const STORE_NAME = 'documents';
+const DOCUMENT_KEY = 'network';
+const PROFILES_KEY = 'profiles';
+const ENCRYPTION_KEY = 'encryption';
+// Sealed into the header so a passphrase can be checked before any data is read
+const CHECK_TEXT = 'strand-friends';
+const LOCAL_STORAGE_PREFIX = 'strand-friends:';
+
+// The profile that owns networks saved before profiles existed
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  defaultStrength: 30,
+  defaultHalfLife: 21,
+  gainModel: DEFAULT_GAIN_MODEL,
+  maintenanceBudget: DEFAULT_MAINTENANCE_BUDGET,
+  reminders: DEFAULT_REMINDER_SETTINGS,
+  levels: DEFAULT_LEVELS
+};
+
+export interface PersistedData {
+  connections: ConnectionType[];
+  activities: ActivityType[];
+  relationships: RelationshipType[];
+  tags: TagDefinition[];
+  interactionTypes: InteractionTypeDefinition[];
+  plans: InteractionPlan[];
+  maintenancePlan: MaintenancePlan | null;
+  settings: AppSettings;
+}
+
+export interface StoredDocument {
+  version: number;
+  savedAt: string;
+  connections: Record<string, unknown>[];
+  activities: Record<string, unknown>[];
+  relationships?: RelationshipType[];
+  tags?: TagDefinition[];
+  interactionTypes?: InteractionTypeDefinition[];
+  plans?: Record<string, unknown>[];
+  maintenancePlan?: Record<string, unknown> | null;
+  settings?: Partial<AppSettings>;
+}
+
+export interface ProfileIndex {
+  activeId: string;
+  profiles: Profile[];
+}
+
+export const DEFAULT_IDLE_LOCK_MINUTES = 5;
+
+// Kept in plain text: how to derive the key, a payload to test a passphrase
+// against, and how long the app may sit idle before it locks
+export interface EncryptionHeader {
+  version: 1;
+  derivation: KeyDerivation;
+  check: EncryptedPayload;
+  idleLockMinutes: number;
+}
+
+interface StorageBackend {
+  name: 'indexeddb' | 'localstorage';
+  read: (key: string) => Promise<string | null>;
+  // A null value removes the key; all entries are written together or not at all
+  write: (entries: Record<string, string | null>) => Promise<void>;
+}
+
+// Migrations keyed by the version they upgrade *from*
+const migrations: Record<number, (doc: StoredDocument) => StoredDocument> = {
+  // Version 0: documents written before the schema was versioned
+  0: doc => ({
+    ...doc,
+    version: 1,
+    connections: doc.connections || [],
+    activities: doc.activities || []
+  }),
+  // Version 1 -> 2: add user settings
+  1: doc => ({
+    ...doc,
+    version: 2,
+    settings: { ...DEFAULT_SETTINGS, ...doc.settings }
+  }),
+  // Version 2 -> 3: per-connection decay curves
+  2: doc => ({
+    ...doc,
+    version: 3,
+    connections: doc.connections.map(conn => ({ decayCurve: 'exponential', ...conn }))
+  }),
+  // Version 3 -> 4: event-sourced strength. The existing snapshot becomes the
+  // baseline, so earlier activities are not counted twice.
+  3: doc => ({
+    ...doc,
+    version: 4,
+    connections: doc.connections.map(conn => ({
+      baseStrength: conn.strength,
+      baselineDate: conn.lastContact,
+      ...conn
+    }))
+  }),
+  // Version 4 -> 5: user-defined interaction types
+  4: doc => ({
+    ...doc,
+    version: 5,
+    interactionTypes: doc.interactionTypes || DEFAULT_INTERACTION_TYPES
+  }),
+  // Version 5 -> 6: configurable gain model
+  5: doc => ({
+    ...doc,
+    version: 6,
+    settings: { ...doc.settings, gainModel: { ...DEFAULT_GAIN_MODEL, ...doc.settings?.gainModel } }
+  }),
+  // Version 6 -> 7: built-in types gain default dimension weights unless already configured
+  6: doc => ({
+    ...doc,
+    version: 7,
+    interactionTypes: (doc.interactionTypes || DEFAULT_INTERACTION_TYPES).map(type => {
+      const builtIn = DEFAULT_INTERACTION_TYPES.find(d => d.id === type.id);
+      return builtIn && !type.effects ? { ...type, effects: builtIn.effects } : type;
+    })
+  }),
+  // Version 7 -> 8: optional adaptive half-life, off for existing connections
+  7: doc => ({
+    ...doc,
+    version: 8,
+    connections: doc.connections.map(conn => ({ halfLifeMode: 'manual', ...conn }))
+  }),
+  // Version 8 -> 9: relationships between connections
+  8: doc => ({
+    ...doc,
+    version: 9,
+    relationships: doc.relationships || []
+  }),
+  // Version 9 -> 10: tags for grouping connections
+  9: doc => ({
+    ...doc,
+    version: 10,
+    connections: doc.connections.map(conn => ({ tags: [], ...conn })),
+    tags: doc.tags || DEFAULT_TAGS
+  }),
+  // Version 10 -> 11: saved what-if plans
+  10: doc => ({
+    ...doc,
+    version: 11,
+    plans: doc.plans || []
+  }),
+  // Version 11 -> 12: weekly maintenance budget and its generated plan
+  11: doc => ({
+    ...doc,
+    version: 12,
+    settings: { ...doc.settings, maintenanceBudget: doc.settings?.maintenanceBudget || DEFAULT_MAINTENANCE_BUDGET },
+    maintenancePlan: doc.maintenancePlan || null
+  }),
+  // Version 12 -> 13: browser reminder preferences, off until opted in
+  12: doc => ({
+    ...doc,
+    version: 13,
+    settings: { ...doc.settings, reminders: { ...DEFAULT_REMINDER_SETTINGS, ...doc.settings?.reminders } }
+  }),
+  // Version 13 -> 14: configurable level ladder, matching the old fixed bounds
+  13: doc => ({
+    ...doc,
+    version: 14,
+    settings: { ...doc.settings, levels: doc.settings?.levels || DEFAULT_LEVELS }
+  })
+};
+
+export const migrateDocument = (doc: StoredDocument): StoredDocument => {
+  let current = { ...doc, version: doc.version || 0 };
+
+  if (current.version > SCHEMA_VERSION) {
+    throw new Error(`Stored data version ${current.version} is newer than supported version ${SCHEMA_VERSION}`);
+  }
+
+  while (current.version < SCHEMA_VERSION) {
+    const step = migrations[current.version];
+    if (!step) throw new Error(`No migration from schema version ${current.version}`);
+    current = step(current);
+  }
+
+  return current;
+};
+
+// Convert a serialized date back to a Date, falling back to now if unreadable
+export const reviveDate = (value: unknown): Date => {
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  return isNaN(date.getTime()) ? new Date() : date;
+};
+
+export const reviveConnection = (raw: Record<string, unknown>): ConnectionType => ({
+  ...(raw as unknown as ConnectionType),
+  baselineDate: reviveDate(raw.baselineDate),
+  lastContact: reviveDate(raw.lastContact)
+});
+
+export const reviveActivity = (raw: Record<string, unknown>): ActivityType => ({
+  ...(raw as unknown as ActivityType),
+  notes: (raw.notes as string) || '',
+  date: reviveDate(raw.date)
+});
+
+export const revivePlan = (raw: Record<string, unknown>): InteractionPlan => ({
+  ...(raw as unknown as InteractionPlan),
+  createdAt: reviveDate(raw.createdAt),
+  items: (raw.items as Record<string, unknown>[]).map(item => ({
+    ...(item as unknown as PlannedInteraction),
+    date: reviveDate(item.date)
+  }))
+});
+
+export const reviveMaintenancePlan = (raw: Record<string, unknown>): MaintenancePlan => ({
+  ...(raw as unknown as MaintenancePlan),
+  generatedAt: reviveDate(raw.generatedAt),
+  items: (raw.items as Record<string, unknown>[]).map(item => ({
+    ...(item as unknown as MaintenanceItem),
+    date: reviveDate(item.date)
+  }))
+});
+
+const createLocalStorageBackend = (): StorageBackend => {
+  const put = (key: string, value: string | null) => {
+    if (value === null) window.localStorage.removeItem(LOCAL_STORAGE_PREFIX + key);
+    else window.localStorage.setItem(LOCAL_STORAGE_PREFIX + key, value);
+  };
+  return {
+    name: 'localstorage',
+    read: async (key: string) => window.localStorage.getItem(LOCAL_STORAGE_PREFIX + key),
+    write: async (entries: Record<string, string | null>) => {
+      const previous = Object.keys(entries).map(key => [key, window.localStorage.getItem(LOCAL_STORAGE_PREFIX + key)] as const);
+      try {
+        Object.entries(entries).forEach(([key, value]) => put(key, value));
+      } catch (error) {
+        // Usually the quota: put back what was there so nothing is half-written
+        previous.forEach(([key, value]) => put(key, value));
+        throw error;
+      }
+    }
+  };
+};
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+      request.result.createObjectStore(STORE_NAME);
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => reject(new Error('IndexedDB open blocked'));
+});
+
+const createIndexedDBBackend = (db: IDBDatabase): StorageBackend => ({
+  name: 'indexeddb',
+  read: (key: string) => new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+    request.onsuccess = () => resolve((request.result as string) ?? null);
+    request.onerror = () => reject(request.error);
+  }),
+  write: (entries: Record<string, string | null>) => new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    Object.entries(entries).forEach(([key, value]) => {
+      if (value === null) store.delete(key);
+      else store.put(value, key);
+    });
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  })
+});
+
+let backendPromise: Promise<StorageBackend> | null = null;
+
+// Pick IndexedDB if it opens, otherwise fall back to localStorage
+const getBackend = (): Promise<StorageBackend> => {
+  if (!backendPromise) {
+    backendPromise = (typeof indexedDB === 'undefined'
+      ? Promise.reject(new Error('IndexedDB unavailable'))
+      : openDatabase().then(createIndexedDBBackend)
+    ).catch(() => createLocalStorageBackend());
+  }
+  return backendPromise;
+};
+
+// Key for the unlocked session; null while locked or with encryption off
+let sessionKey: CryptoKey | null = null;
+
+// Writes run one at a time in call order, so a slow encrypt can never let an
+// older save land after a newer one
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+const enqueueWrite = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = writeQueue.then(task);
+  writeQueue = result.catch(() => undefined);
+  return result;
+};
+
+const readHeader = async (backend: StorageBackend): Promise<EncryptionHeader | null> => {
+  const raw = await backend.read(ENCRYPTION_KEY);
+  return raw === null ? null : JSON.parse(raw) as EncryptionHeader;
+};
+
+// Decrypt a stored value; plain values written before encryption pass through
+const openValue = async (raw: string, key: CryptoKey | null): Promise<string> => {
+  const parsed = JSON.parse(raw) as unknown;
+  if (!isEncryptedPayload(parsed)) return raw;
+  if (!key) throw new Error('Storage is locked');
+  return decryptText(parsed, key);
+};
+
+const sealValue = async (value: string, key: CryptoKey | null): Promise<string> =>
+  key ? JSON.stringify(await encryptText(value, key)) : value;
+
+const readValue = async (key: string): Promise<string | null> => {
+  const backend = await getBackend();
+  const raw = await backend.read(key);
+  return raw === null ? null : openValue(raw, sessionKey);
+};
+
+// Values are sealed whenever encryption is on; writing while locked fails
+// rather than storing plain text next to encrypted data
+const writeValue = (key: string, value: string | null): Promise<void> => enqueueWrite(async () => {
+  const backend = await getBackend();
+  const header = await readHeader(backend);
+  if (header && !sessionKey) throw new Error('Storage is locked');
+  await backend.write({ [key]: value === null ? null : await sealValue(value, header ? sessionKey : null) });
+});
+
+export const serializeData = (data: PersistedData): string => {
+  const doc: StoredDocument = {
+    version: SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    connections: data.connections as unknown as Record<string, unknown>[],
+    activities: data.activities as unknown as Record<string, unknown>[],
+    relationships: data.relationships,
+    tags: data.tags,
+    interactionTypes: data.interactionTypes,
+    plans: data.plans as unknown as Record<string, unknown>[],
+    maintenancePlan: data.maintenancePlan as unknown as Record<string, unknown> | null,
+    settings: data.settings
+  };
+  // Dates become ISO strings via Date.prototype.toJSON
+  return JSON.stringify(doc);
+};
+
+export const deserializeData = (raw: string): PersistedData => {
+  const doc = migrateDocument(JSON.parse(raw) as StoredDocument);
+  return {
+    connections: doc.connections.map(reviveConnection),
+    activities: doc.activities.map(reviveActivity),
+    relationships: doc.relationships || [],
+    tags: doc.tags || DEFAULT_TAGS,
+    interactionTypes: doc.interactionTypes || DEFAULT_INTERACTION_TYPES,
+    plans: (doc.plans || []).map(revivePlan),
+    maintenancePlan: doc.maintenancePlan ? reviveMaintenancePlan(doc.maintenancePlan) : null,
+    settings: { ...DEFAULT_SETTINGS, ...doc.settings }
+  };
+};
+
+// A fresh network for a new profile: no connections, default types and settings
+export const createEmptyData = (): PersistedData => ({
+  connections: [],
+  activities: [],
+  relationships: [],
+  tags: DEFAULT_TAGS,
+  interactionTypes: DEFAULT_INTERACTION_TYPES,
+  plans: [],
+  maintenancePlan: null,
+  settings: DEFAULT_SETTINGS
+});
+
+// The default profile keeps the original key, so existing saves need no migration
+const getDocumentKey = (profileId: string): string =>
+  profileId === DEFAULT_PROFILE_ID ? DOCUMENT_KEY : `${DOCUMENT_KEY}:${profileId}`;
+
+// Load a profile's stored data; resolves to null on first run
+export const loadData = async (profileId: string = DEFAULT_PROFILE_ID): Promise<PersistedData | null> => {
+  const raw = await readValue(getDocumentKey(profileId));
+  if (raw === null) return null;
+  return deserializeData(raw);
+};
+
+export const saveData = (data: PersistedData, profileId: string = DEFAULT_PROFILE_ID): Promise<void> =>
+  writeValue(getDocumentKey(profileId), serializeData(data));
+
+// Copy the stored document; a profile with nothing saved copies nothing
+export const copyProfileData = async (fromId: string, toId: string): Promise<void> => {
+  const raw = await readValue(getDocumentKey(fromId));
+  if (raw !== null) await writeValue(getDocumentKey(toId), raw);
+};
+
+export const deleteProfileData = (profileId: string): Promise<void> =>
+  writeValue(getDocumentKey(profileId), null);
+
+const createDefaultProfileIndex = (): ProfileIndex => ({
+  activeId: DEFAULT_PROFILE_ID,
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: 'My Network', ownerName: '', createdAt: new Date() }]
+});
+
+// The stored profile list; installs from before profiles get one default profile
+export const loadProfileIndex = async (): Promise<ProfileIndex> => {
+  const raw = await readValue(PROFILES_KEY);
+  if (raw === null) return createDefaultProfileIndex();
+  const stored = JSON.parse(raw) as { activeId?: string; profiles?: Record<string, unknown>[] };
+  const profiles = (stored.profiles || []).map(profile => ({
+    ...(profile as unknown as Profile),
+    createdAt: reviveDate(profile.createdAt)
+  }));
+  if (profiles.length === 0) return createDefaultProfileIndex();
+  const activeId = profiles.some(profile => profile.id === stored.activeId) ? stored.activeId as string : profiles[0].id;
+  return { activeId, profiles };
+};
+
+export const saveProfileIndex = (index: ProfileIndex): Promise<void> =>
+  writeValue(PROFILES_KEY, JSON.stringify(index));
+
+export const loadEncryptionHeader = async (): Promise<EncryptionHeader | null> =>
+  readHeader(await getBackend());
+
+export const isStorageUnlocked = (): boolean => sessionKey !== null;
+
+// Derive the key and keep it for the session. A wrong passphrase resolves to
+// false and touches nothing.
+export const unlockStorage = async (passphrase: string): Promise<boolean> => {
+  const header = await loadEncryptionHeader();
+  if (!header) return true;
+  const key = await deriveKey(passphrase, header.derivation);
+  if (!(await canDecrypt(header.check, key))) return false;
+  sessionKey = key;
+  return true;
+};
+
+// Forget the key; stored data stays as it is
+export const lockStorage = (): void => {
+  sessionKey = null;
+};
+
+// The current passphrase's key, or null if it is wrong
+const verifyPassphrase = async (header: EncryptionHeader, passphrase: string): Promise<CryptoKey | null> => {
+  const key = await deriveKey(passphrase, header.derivation);
+  return (await canDecrypt(header.check, key)) ? key : null;
+};
+
+const createHeader = async (passphrase: string, idleLockMinutes: number): Promise<{ header: EncryptionHeader; key: CryptoKey }> => {
+  const derivation = createKeyDerivation();
+  const key = await deriveKey(passphrase, derivation);
+  return { header: { version: 1, derivation, check: await encryptText(CHECK_TEXT, key), idleLockMinutes }, key };
+};
+
+// Re-seal every stored value under a new key, or as plain text when the key
+// is null. Everything is decrypted before anything is written, and the
+// result lands in one write, so a failure leaves storage as it was.
+const rewriteStorage = (currentKey: CryptoKey | null, nextKey: CryptoKey | null, nextHeader: EncryptionHeader | null): Promise<void> =>
+  enqueueWrite(async () => {
+    const backend = await getBackend();
+    const rawIndex = await backend.read(PROFILES_KEY);
+    const index = rawIndex === null ? null : JSON.parse(await openValue(rawIndex, currentKey)) as { profiles?: { id: string }[] };
+    const keys = [PROFILES_KEY, ...(index?.profiles || [{ id: DEFAULT_PROFILE_ID }]).map(profile => getDocumentKey(profile.id))];
+    const entries: Record<string, string | null> = { [ENCRYPTION_KEY]: nextHeader ? JSON.stringify(nextHeader) : null };
+    for (const key of keys) {
+      const raw = key === PROFILES_KEY ? rawIndex : await backend.read(key);
+      if (raw !== null) entries[key] = await sealValue(await openValue(raw, currentKey), nextKey);
+    }
+    await backend.write(entries);
+    sessionKey = nextKey;
+  });
+
+export const enableEncryption = async (passphrase: string, idleLockMinutes: number = DEFAULT_IDLE_LOCK_MINUTES): Promise<void> => {
+  if (await loadEncryptionHeader()) throw new Error('Encryption is already on');
+  const { header, key } = await createHeader(passphrase, idleLockMinutes);
+  await rewriteStorage(null, key, header);
+};
+
+// A new passphrase gets a new salt and key; false if the current one is wrong
+export const changePassphrase = async (currentPassphrase: string, nextPassphrase: string): Promise<boolean> => {
+  const current = await loadEncryptionHeader();
+  if (!current) return false;
+  const currentKey = await verifyPassphrase(current, currentPassphrase);
+  if (!currentKey) return false;
+  const { header, key } = await createHeader(nextPassphrase, current.idleLockMinutes);
+  await rewriteStorage(currentKey, key, header);
+  return true;
+};
+
+// Store everything in plain text again; false if the passphrase is wrong
+export const disableEncryption = async (passphrase: string): Promise<boolean> => {
+  const header = await loadEncryptionHeader();
+  if (!header) return true;
+  const key = await verifyPassphrase(header, passphrase);
+  if (!key) return false;
+  await rewriteStorage(key, null, null);
+  return true;
+};
+
+export const saveIdleLockMinutes = (idleLockMinutes: number): Promise<void> => enqueueWrite(async () => {
+  const backend = await getBackend();
+  const header = await readHeader(backend);
+  if (header) await backend.write({ [ENCRYPTION_KEY]: JSON.stringify({ ...header, idleLockMinutes }) });
+});
+
+// Ask the browser not to evict the network under storage pressure. Data
+// only ever lives on this device, so losing it would mean losing it for good.
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted()) return true;
+  return navigator.storage.persist();
+};
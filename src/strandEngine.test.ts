@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { DECAY_CURVE_TYPES, decayCurves } from './strandEngine';
+
+const HALF_LIFE = 14;
+
+describe('decay curves', () => {
+  it.each(DECAY_CURVE_TYPES)('%s starts at the base strength and only falls', id => {
+    const { decay } = decayCurves[id];
+    expect(decay(80, 0, HALF_LIFE)).toBe(80);
+    for (let day = 1; day <= 60; day++) {
+      expect(decay(80, day, HALF_LIFE)).toBeLessThanOrEqual(decay(80, day - 1, HALF_LIFE));
+    }
+  });
+
+  it.each(['exponential', 'linear', 'logistic'] as const)('%s reaches the threshold exactly at daysToReach', id => {
+    const { decay, daysToReach } = decayCurves[id];
+    for (const threshold of [15, 30, 60]) {
+      expect(decay(80, daysToReach(80, threshold, HALF_LIFE), HALF_LIFE)).toBeCloseTo(threshold, 6);
+    }
+  });
+
+  it('step reaches the threshold at the end of a whole period', () => {
+    const { decay, daysToReach } = decayCurves.step;
+    expect(daysToReach(80, 40, HALF_LIFE)).toBe(HALF_LIFE);
+    expect(daysToReach(80, 30, HALF_LIFE)).toBe(2 * HALF_LIFE);
+    const days = daysToReach(80, 30, HALF_LIFE);
+    expect(decay(80, days, HALF_LIFE)).toBeLessThanOrEqual(30);
+    expect(decay(80, days - 0.01, HALF_LIFE)).toBeGreaterThan(30);
+  });
+
+  it('every curve is at half strength after one half-life', () => {
+    DECAY_CURVE_TYPES.forEach(id => {
+      expect(decayCurves[id].decay(80, HALF_LIFE, HALF_LIFE)).toBeCloseTo(40, 6);
+    });
+  });
+});
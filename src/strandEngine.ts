@@ -0,0 +1,460 @@
+import type {
+  ConnectionType,
+  ActivityType,
+  ConnectionLevel,
+  ConnectionScores,
+  DecayCurveType,
+  GainModel,
+  InteractionTypeDefinition,
+  LevelDefinition
+} from './types';
+
+// Strand engine: pure decay calculations shared by every view.
+// All time-dependent functions take an optional clock so callers (and
+// tests) can evaluate the network at any moment.
+
+export interface Clock {
+  now: () => Date;
+}
+
+export const systemClock: Clock = { now: () => new Date() };
+
+// Clock frozen at a fixed moment
+export const fixedClock = (date: Date): Clock => ({ now: () => new Date(date.getTime()) });
+
+export const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Visual cap on strength after an interaction
+export const MAX_STRENGTH = 120;
+
+export const DEFAULT_GAIN_MODEL: GainModel = {
+  saturationStart: 60,
+  ceiling: MAX_STRENGTH,
+  revivalThreshold: 20,
+  revivalBonus: 1.5,
+  cooldownDays: 1,
+  cooldownFactor: 0.5
+};
+
+export interface DecayCurve {
+  id: DecayCurveType;
+  label: string;
+  description: string;
+  // Strength left from a base strength after the given number of days
+  decay: (baseStrength: number, days: number, halfLife: number) => number;
+  // Days after the base point at which strength first reaches the threshold
+  daysToReach: (baseStrength: number, threshold: number, halfLife: number) => number;
+}
+
+// Steepness of the plateau curve; higher keeps strength flat for longer
+const PLATEAU_STEEPNESS = 4;
+
+export const decayCurves: Record<DecayCurveType, DecayCurve> = {
+  exponential: {
+    id: 'exponential',
+    label: 'Half-life',
+    description: 'Loses half its strength every half-life',
+    // S(t) = S0 * 0.5^(t/τ)
+    decay: (s0, t, tau) => s0 * Math.pow(0.5, t / tau),
+    // t = τ * log2(S0/T)
+    daysToReach: (s0, threshold, tau) => tau * Math.log2(s0 / threshold)
+  },
+  linear: {
+    id: 'linear',
+    label: 'Linear',
+    description: 'Fades at a constant rate, reaching half at one half-life',
+    // S(t) = S0 * (1 - t/2τ), floored at zero
+    decay: (s0, t, tau) => Math.max(0, s0 * (1 - t / (2 * tau))),
+    // t = 2τ * (1 - T/S0)
+    daysToReach: (s0, threshold, tau) => 2 * tau * (1 - threshold / s0)
+  },
+  logistic: {
+    id: 'logistic',
+    label: 'Plateau',
+    description: 'Holds steady at first, then drops off around the half-life',
+    // S(t) = S0 / (1 + (t/τ)^k)
+    decay: (s0, t, tau) => s0 / (1 + Math.pow(t / tau, PLATEAU_STEEPNESS)),
+    // t = τ * (S0/T - 1)^(1/k)
+    daysToReach: (s0, threshold, tau) => tau * Math.pow(s0 / threshold - 1, 1 / PLATEAU_STEEPNESS)
+  },
+  step: {
+    id: 'step',
+    label: 'Step-down',
+    description: 'Drops by half at the end of each half-life period',
+    // S(t) = S0 * 0.5^floor(t/τ)
+    decay: (s0, t, tau) => s0 * Math.pow(0.5, Math.floor(t / tau)),
+    // First whole period n with S0 * 0.5^n <= T
+    daysToReach: (s0, threshold, tau) => tau * Math.ceil(Math.log2(s0 / threshold) - 1e-9)
+  }
+};
+
+export const DECAY_CURVE_TYPES = Object.keys(decayCurves) as DecayCurveType[];
+
+export const getDecayCurve = (connection: ConnectionType): DecayCurve =>
+  decayCurves[connection.decayCurve] || decayCurves.exponential;
+
+// Default level ladder; rungs can be renamed, recolored and re-bounded in settings
+export const DEFAULT_LEVELS: LevelDefinition[] = [
+  { label: 'Dormant', badge: '✖️', minStrength: 0, color: '#AA4444' },
+  { label: 'Acquaintance', badge: '★', minStrength: 15, color: '#7777FF' },
+  { label: 'Friend', badge: '★★', minStrength: 30, color: '#33AAFF' },
+  { label: 'Close Friend', badge: '★★★', minStrength: 60, color: '#00DDFF' },
+  { label: 'Inner Circle', badge: '★★★★★', minStrength: 100, color: '#00FFFF' }
+];
+
+// The highest rung whose lower bound the strength reaches
+export const getConnectionLevel = (strength: number, levels: LevelDefinition[] = DEFAULT_LEVELS): ConnectionLevel => {
+  let level = 0;
+  levels.forEach((rung, i) => {
+    if (strength >= rung.minStrength) level = i;
+  });
+  return { ...levels[level], level };
+};
+
+// Lowest strength that still counts as the given level
+export const getLevelFloor = (level: number, levels: LevelDefinition[] = DEFAULT_LEVELS): number =>
+  levels[Math.max(0, Math.min(level, levels.length - 1))].minStrength;
+
+// Strands below this are dormant
+export const getDormantThreshold = (levels: LevelDefinition[] = DEFAULT_LEVELS): number =>
+  levels.length > 1 ? levels[1].minStrength : 0;
+
+// What a strand should stay above: its target level, and never dormancy
+export const getTargetStrength = (connection: ConnectionType, levels: LevelDefinition[] = DEFAULT_LEVELS): number =>
+  Math.max(getDormantThreshold(levels), connection.targetLevel === undefined ? 0 : getLevelFloor(connection.targetLevel, levels));
+
+// Reasons a ladder can't be used, empty when it is valid
+export const getLadderProblems = (levels: LevelDefinition[]): string[] => {
+  const problems: string[] = [];
+  if (levels.length < 2) problems.push('needs a dormant rung and at least one above it');
+  if (levels.length > 0 && levels[0].minStrength !== 0) problems.push('the dormant rung must start at 0');
+  if (levels.some(rung => !rung.label.trim())) problems.push('every rung needs a name');
+  if (levels.some(rung => !/^#[0-9a-f]{6}$/i.test(rung.color))) problems.push('colors must be #RRGGBB');
+  if (levels.some((rung, i) => !Number.isFinite(rung.minStrength) || (i > 0 && rung.minStrength <= levels[i - 1].minStrength))) {
+    problems.push('lower bounds must rise from rung to rung');
+  }
+  return problems;
+};
+
+// Calculate whole days since last contact
+export const getDaysSinceContact = (lastContact: Date, clock: Clock = systemClock): number => {
+  const diffTime = Math.abs(clock.now().getTime() - lastContact.getTime());
+  return Math.ceil(diffTime / MS_PER_DAY);
+};
+
+// Fractional days elapsed between two moments, never negative
+export const getElapsedDays = (from: Date, to: Date): number =>
+  Math.max(0, (to.getTime() - from.getTime()) / MS_PER_DAY);
+
+// Calculate current strength after decay
+export const getCurrentStrength = (connection: ConnectionType, clock: Clock = systemClock): number => {
+  const daysPassed = getElapsedDays(connection.lastContact, clock.now());
+  return getDecayCurve(connection).decay(connection.strength, daysPassed, connection.halfLife);
+};
+
+// Calculate projected strength for a future date
+export const getProjectedStrength = (connection: ConnectionType, daysInFuture: number, clock: Clock = systemClock): number => {
+  // Project from the last contact so curves without the memoryless
+  // property of the exponential still line up with the current value
+  const daysPassed = getElapsedDays(connection.lastContact, clock.now());
+  return getDecayCurve(connection).decay(connection.strength, daysPassed + daysInFuture, connection.halfLife);
+};
+
+// Predict days until connection falls to the threshold
+export const getDaysUntilThreshold = (connection: ConnectionType, threshold: number, clock: Clock = systemClock): number => {
+  const currentStrength = getCurrentStrength(connection, clock);
+  if (currentStrength <= threshold) return 0;
+
+  const daysPassed = getElapsedDays(connection.lastContact, clock.now());
+  const daysFromContact = getDecayCurve(connection).daysToReach(connection.strength, threshold, connection.halfLife);
+
+  return Math.max(0, Math.ceil(daysFromContact - daysPassed));
+};
+
+// Days of warning before a strand falls below target that count as at risk
+export const AT_RISK_DAYS = 7;
+// The forecast's earlier, softer advisory starts this many days ahead
+export const ADVISORY_DAYS = 14;
+
+// Below target already, or will be within the warning window
+export const isAtRisk = (connection: ConnectionType, clock: Clock = systemClock, levels: LevelDefinition[] = DEFAULT_LEVELS): boolean =>
+  getDaysUntilThreshold(connection, getTargetStrength(connection, levels), clock) <= AT_RISK_DAYS;
+
+// Gain model
+//
+// Points are scaled by a revival bonus for weak strands and a cooldown for
+// repeated same-type interactions, then applied with saturation: linear up
+// to `saturationStart`, exponentially approaching `ceiling` beyond it.
+
+export interface GainBreakdown {
+  before: number;
+  points: number;
+  revivalMultiplier: number;
+  cooldownCount: number;
+  cooldownMultiplier: number;
+  effectivePoints: number;
+  after: number;
+}
+
+// Add points with saturation near the ceiling; the slope is continuous at saturationStart
+export const saturateGain = (strength: number, points: number, model: GainModel = DEFAULT_GAIN_MODEL): number => {
+  if (strength >= model.ceiling || points <= 0) return strength;
+  const start = Math.min(model.saturationStart, model.ceiling - 1);
+  const linear = Math.min(points, Math.max(0, start - strength));
+  const partial = strength + linear;
+  const rest = points - linear;
+  if (rest <= 0) return partial;
+  return model.ceiling - (model.ceiling - partial) * Math.exp(-rest / (model.ceiling - start));
+};
+
+// Work out the gain of one interaction given how many same-type ones preceded it in the cooldown window
+export const computeInteractionGain = (
+  strength: number,
+  points: number,
+  cooldownCount: number,
+  model: GainModel = DEFAULT_GAIN_MODEL
+): GainBreakdown => {
+  const revivalMultiplier = strength < model.revivalThreshold ? model.revivalBonus : 1;
+  const cooldownMultiplier = Math.pow(model.cooldownFactor, cooldownCount);
+  const effectivePoints = points * revivalMultiplier * cooldownMultiplier;
+  return {
+    before: strength,
+    points,
+    revivalMultiplier,
+    cooldownCount,
+    cooldownMultiplier,
+    effectivePoints,
+    after: saturateGain(strength, effectivePoints, model)
+  };
+};
+
+// Human-readable account of a gain, for tooltips
+export const explainGain = (gain: GainBreakdown, model: GainModel = DEFAULT_GAIN_MODEL): string => {
+  const lines = [`Base: +${gain.points} points`];
+  if (gain.revivalMultiplier !== 1) {
+    lines.push(`Revival bonus ×${gain.revivalMultiplier} (strand was ${gain.before.toFixed(1)}, below ${model.revivalThreshold})`);
+  }
+  if (gain.cooldownCount > 0) {
+    lines.push(
+      `Cooldown ×${gain.cooldownMultiplier.toFixed(2)} (${gain.cooldownCount} earlier of this type within ${model.cooldownDays} day${model.cooldownDays === 1 ? '' : 's'})`
+    );
+  }
+  const gained = gain.after - gain.before;
+  if (gain.effectivePoints - gained > 0.05) {
+    lines.push(`Saturation: +${gain.effectivePoints.toFixed(1)} tapered to +${gained.toFixed(1)} above ${model.saturationStart}`);
+  }
+  lines.push(`Strength ${gain.before.toFixed(1)} → ${gain.after.toFixed(1)}`);
+  return lines.join('\n');
+};
+
+// Event replay
+//
+// Strength is derived from the activity history: starting from the
+// connection's baseline, each later activity decays the running strength
+// to its date and then applies its gain. `strength` and `lastContact` on a
+// connection are a cache of the state after the last replayed activity.
+// Activities dated at or before the baseline are already part of it.
+
+export interface StrandSnapshot {
+  strength: number;
+  lastContact: Date;
+}
+
+// Activities that count towards a connection's strength, oldest first
+export const getReplayActivities = (connection: ConnectionType, activities: ActivityType[]): ActivityType[] =>
+  activities
+    .filter(activity =>
+      activity.connectionId === connection.id &&
+      activity.date.getTime() > connection.baselineDate.getTime()
+    )
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+// Walk the replayed activities, reporting each gain along the way
+const replay = (
+  connection: ConnectionType,
+  activities: ActivityType[],
+  model: GainModel,
+  until?: Date,
+  onGain?: (activity: ActivityType, gain: GainBreakdown) => void
+): StrandSnapshot => {
+  const curve = getDecayCurve(connection);
+  const cooldownMs = model.cooldownDays * MS_PER_DAY;
+  const replayed: ActivityType[] = [];
+  let snapshot: StrandSnapshot = { strength: connection.baseStrength, lastContact: connection.baselineDate };
+
+  for (const activity of getReplayActivities(connection, activities)) {
+    if (until && activity.date.getTime() > until.getTime()) break;
+    const decayed = curve.decay(snapshot.strength, getElapsedDays(snapshot.lastContact, activity.date), connection.halfLife);
+    const cooldownCount = replayed.filter(earlier =>
+      earlier.type === activity.type && activity.date.getTime() - earlier.date.getTime() < cooldownMs
+    ).length;
+    const gain = computeInteractionGain(decayed, activity.points, cooldownCount, model);
+    onGain?.(activity, gain);
+    replayed.push(activity);
+    snapshot = { strength: gain.after, lastContact: activity.date };
+  }
+
+  return snapshot;
+};
+
+// Replay activities up to (and including) the given moment
+export const replaySnapshot = (
+  connection: ConnectionType,
+  activities: ActivityType[],
+  until?: Date,
+  model: GainModel = DEFAULT_GAIN_MODEL
+): StrandSnapshot => replay(connection, activities, model, until);
+
+// Gain breakdown of every replayed activity, keyed by activity id
+export const getGainBreakdowns = (
+  connection: ConnectionType,
+  activities: ActivityType[],
+  model: GainModel = DEFAULT_GAIN_MODEL
+): Map<number, GainBreakdown> => {
+  const gains = new Map<number, GainBreakdown>();
+  replay(connection, activities, model, undefined, (activity, gain) => gains.set(activity.id, gain));
+  return gains;
+};
+
+// Strength at any moment, reconstructed from the activity history
+export const getStrengthAt = (
+  connection: ConnectionType,
+  activities: ActivityType[],
+  date: Date,
+  model: GainModel = DEFAULT_GAIN_MODEL
+): number => {
+  if (date.getTime() < connection.baselineDate.getTime()) return 0;
+  const snapshot = replaySnapshot(connection, activities, date, model);
+  return getDecayCurve(connection).decay(snapshot.strength, getElapsedDays(snapshot.lastContact, date), connection.halfLife);
+};
+
+// Daily strength samples between two dates
+export const getStrengthHistory = (
+  connection: ConnectionType,
+  activities: ActivityType[],
+  from: Date,
+  to: Date,
+  model: GainModel = DEFAULT_GAIN_MODEL
+): { date: Date; strength: number }[] => {
+  const points: { date: Date; strength: number }[] = [];
+  for (let time = from.getTime(); time <= to.getTime(); time += MS_PER_DAY) {
+    const date = new Date(time);
+    points.push({ date, strength: getStrengthAt(connection, activities, date, model) });
+  }
+  return points;
+};
+
+// Rebuild the cached strength and lastContact from the activity history
+export const rebuildConnection = (
+  connection: ConnectionType,
+  activities: ActivityType[],
+  model: GainModel = DEFAULT_GAIN_MODEL
+): ConnectionType => {
+  const snapshot = replaySnapshot(connection, activities, undefined, model);
+  return { ...connection, strength: snapshot.strength, lastContact: snapshot.lastContact };
+};
+
+// Strength that decays to `strength` over `days`, capped at the ceiling.
+// Bisection keeps it independent of the curve.
+const getStrengthBefore = (curve: DecayCurve, strength: number, days: number, halfLife: number, ceiling: number): number => {
+  const cap = Math.max(strength, ceiling);
+  if (curve.decay(cap, days, halfLife) <= strength) return cap;
+  let low = strength;
+  let high = cap;
+  for (let i = 0; i < 50; i++) {
+    const mid = (low + high) / 2;
+    if (curve.decay(mid, days, halfLife) < strength) low = mid;
+    else high = mid;
+  }
+  return high;
+};
+
+// Move the baseline to just before a backfilled interaction so it counts.
+// The new base strength is the one that decays to the old base strength by
+// the old baseline date. Returns null when activities between the two dates
+// are already folded into the old baseline and would count twice.
+export const moveBaselineBefore = (
+  connection: ConnectionType,
+  date: Date,
+  activities: ActivityType[],
+  model: GainModel = DEFAULT_GAIN_MODEL
+): ConnectionType | null => {
+  if (date.getTime() > connection.baselineDate.getTime()) return connection;
+  const baselineDate = new Date(date.getTime() - 60 * 1000);
+  const folded = activities.some(activity =>
+    activity.connectionId === connection.id &&
+    activity.date.getTime() > baselineDate.getTime() &&
+    activity.date.getTime() <= connection.baselineDate.getTime()
+  );
+  if (folded) return null;
+  const baseStrength = getStrengthBefore(
+    getDecayCurve(connection),
+    connection.baseStrength,
+    getElapsedDays(baselineDate, connection.baselineDate),
+    connection.halfLife,
+    model.ceiling
+  );
+  return { ...connection, baselineDate, baseStrength };
+};
+
+// The connection as it stood at any moment: replayed up to the date for the
+// past, or the full history left to decay for the future. Connections added
+// after the date didn't exist yet.
+export const getConnectionAt = (
+  connection: ConnectionType,
+  activities: ActivityType[],
+  date: Date,
+  model: GainModel = DEFAULT_GAIN_MODEL
+): ConnectionType | null => {
+  if (date.getTime() < connection.baselineDate.getTime()) return null;
+  const snapshot = replaySnapshot(connection, activities, date, model);
+  return { ...connection, strength: snapshot.strength, lastContact: snapshot.lastContact };
+};
+
+export const rebuildConnections = (
+  connections: ConnectionType[],
+  activities: ActivityType[],
+  model: GainModel = DEFAULT_GAIN_MODEL
+): ConnectionType[] =>
+  connections.map(connection => rebuildConnection(connection, activities, model));
+
+// Dimension scores
+//
+// The scores set on a connection are its baseline. Each replayed interaction
+// boosts dimensions by its type's weights, and every boost fades back toward
+// the baseline with the connection's half-life. Weights come from the current
+// catalog, so editing a type updates its history.
+
+// Quality scores at a given moment
+export const getScoresAt = (
+  connection: ConnectionType,
+  activities: ActivityType[],
+  catalog: InteractionTypeDefinition[],
+  date: Date
+): ConnectionScores => {
+  const scores = { ...connection.scores };
+  for (const activity of getReplayActivities(connection, activities)) {
+    if (activity.date.getTime() > date.getTime()) break;
+    const weights = catalog.find(type => type.id === activity.type)?.effects?.scores;
+    if (!weights) continue;
+    const fade = Math.pow(0.5, getElapsedDays(activity.date, date) / connection.halfLife);
+    (Object.keys(weights) as (keyof ConnectionScores)[]).forEach(key => {
+      scores[key] += (weights[key] || 0) * fade;
+    });
+  }
+
+  (Object.keys(scores) as (keyof ConnectionScores)[]).forEach(key => {
+    // Never push a score past 100 unless its baseline already was
+    const ceiling = Math.max(100, connection.scores[key]);
+    scores[key] = Math.round(Math.min(ceiling, Math.max(0, scores[key])));
+  });
+  return scores;
+};
+
+// Quality scores right now
+export const getLiveScores = (
+  connection: ConnectionType,
+  activities: ActivityType[],
+  catalog: InteractionTypeDefinition[],
+  clock: Clock = systemClock
+): ConnectionScores => getScoresAt(connection, activities, catalog, clock.now());
@@ -0,0 +1,60 @@
+import type { ConnectionType, LevelDefinition, TagDefinition } from './types';
+import { DEFAULT_LEVELS, getCurrentStrength, isAtRisk, systemClock } from './strandEngine';
+import type { Clock } from './strandEngine';
+import { slugify } from './fileUtils';
+
+// Tags group connections into circles such as family, work or hobbies.
+// Connections store tag ids, so renaming or recoloring a tag is one edit.
+
+export const TAG_COLORS = ['#FFAA33', '#33AAFF', '#66DD88', '#DD66FF', '#FF6677', '#DDDD55', '#55DDDD', '#AAAAAA'];
+
+export const DEFAULT_TAGS: TagDefinition[] = [
+  { id: 'family', label: 'Family', color: '#FFAA33' },
+  { id: 'work', label: 'Work', color: '#33AAFF' },
+  { id: 'hobby', label: 'Hobby', color: '#66DD88' }
+];
+
+export const getTag = (tags: TagDefinition[], tagId: string): TagDefinition | undefined =>
+  tags.find(tag => tag.id === tagId);
+
+// Stable id for a new tag, derived from its label
+export const createTagId = (label: string, tags: TagDefinition[]): string => {
+  const base = slugify(label, 'tag');
+  let id = base;
+  for (let n = 2; tags.some(tag => tag.id === id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+};
+
+// Next palette color not yet used, cycling once all are taken
+export const getNextTagColor = (tags: TagDefinition[]): string =>
+  TAG_COLORS.find(color => !tags.some(tag => tag.color === color)) || TAG_COLORS[tags.length % TAG_COLORS.length];
+
+export const hasTag = (connection: ConnectionType, tagId: string | null): boolean =>
+  tagId === null || connection.tags.includes(tagId);
+
+// The tag that decides a connection's sector in the network graph
+export const getPrimaryTag = (connection: ConnectionType, tags: TagDefinition[]): TagDefinition | undefined =>
+  tags.find(tag => connection.tags.includes(tag.id));
+
+export interface TagStats {
+  count: number;
+  averageStrength: number;
+  atRisk: number;
+}
+
+export const getTagStats = (
+  connections: ConnectionType[],
+  tagId: string,
+  clock: Clock = systemClock,
+  levels: LevelDefinition[] = DEFAULT_LEVELS
+): TagStats => {
+  const members = connections.filter(conn => conn.tags.includes(tagId));
+  const total = members.reduce((sum, conn) => sum + getCurrentStrength(conn, clock), 0);
+  return {
+    count: members.length,
+    averageStrength: members.length > 0 ? total / members.length : 0,
+    atRisk: members.filter(conn => isAtRisk(conn, clock, levels)).length
+  };
+};
@@ -0,0 +1,178 @@
+// Shared interfaces for connection data
+export interface ConnectionScores {
+  communication: number;
+  reliability: number;
+  emotional: number;
+  shared: number;
+  support: number;
+}
+
+export type DecayCurveType = 'exponential' | 'linear' | 'logistic' | 'step';
+
+// How a connection's half-life is maintained
+export type HalfLifeMode = 'manual' | 'suggest' | 'auto';
+
+// Extra contact fields kept from imported address books
+export interface ContactDetails {
+  phones: string[];
+  emails: string[];
+  birthday?: string; // YYYY-MM-DD, or --MM-DD when the year is unknown
+}
+
+export interface ConnectionType {
+  id: number;
+  name: string;
+  // Starting point for replaying the activity history
+  baseStrength: number;
+  baselineDate: Date;
+  // Cached result of the replay; rebuilt whenever activities change
+  strength: number;
+  lastContact: Date;
+  halfLife: number;
+  decayCurve: DecayCurveType;
+  halfLifeMode: HalfLifeMode;
+  tags: string[];
+  scores: ConnectionScores;
+  contact?: ContactDetails;
+  // Level on the ladder this strand should stay at; at-risk warnings use its
+  // lower bound instead of the dormancy cutoff
+  targetLevel?: number;
+}
+
+export interface ActivityType {
+  id: number;
+  connectionId: number;
+  type: string;
+  points: number;
+  date: Date;
+  notes: string;
+  durationMinutes?: number;
+}
+
+export interface TagDefinition {
+  id: string;
+  label: string;
+  color: string;
+}
+
+export type RelationshipKind = 'friend' | 'family' | 'partner' | 'colleague' | 'other';
+
+// A relationship between two connections, independent of your strands to them
+export interface RelationshipType {
+  id: number;
+  sourceId: number;
+  targetId: number;
+  kind: RelationshipKind;
+  strength?: number;
+}
+
+// A hypothetical interaction in a what-if plan, repeating every `repeatDays` when set
+export interface PlannedInteraction {
+  id: number;
+  connectionId: number;
+  type: string;
+  date: Date;
+  repeatDays?: number;
+}
+
+export interface InteractionPlan {
+  id: number;
+  name: string;
+  items: PlannedInteraction[];
+  createdAt: Date;
+}
+
+// Optional side effects applied each time an interaction type is logged
+export interface InteractionEffects {
+  scores?: Partial<ConnectionScores>;
+}
+
+export interface InteractionTypeDefinition {
+  id: string;
+  label: string;
+  emoji: string;
+  points: number;
+  retired?: boolean;
+  effects?: InteractionEffects;
+}
+
+// One rung of the level ladder. The first rung is the dormant one and starts
+// at 0; the second rung's lower bound is the dormancy cutoff.
+export interface LevelDefinition {
+  label: string;
+  badge: string;
+  minStrength: number;
+  color: string;
+}
+
+export interface ConnectionLevel extends LevelDefinition {
+  // Index of the rung on the ladder
+  level: number;
+}
+
+// Rules for how much strength an interaction adds
+export interface GainModel {
+  // Gains taper off above this strength...
+  saturationStart: number;
+  // ...and approach, but never pass, this ceiling
+  ceiling: number;
+  // Strands weaker than this get a revival multiplier
+  revivalThreshold: number;
+  revivalBonus: number;
+  // Each earlier same-type interaction within the window multiplies the gain
+  cooldownDays: number;
+  cooldownFactor: number;
+}
+
+// Weekly social-time budget for the maintenance planner
+export interface MaintenanceBudget {
+  // Interactions per week, keyed by interaction type id
+  perWeek: Record<string, number>;
+  weeks: number;
+}
+
+// A scheduled contact in the maintenance plan; `activityId` is set once it is done
+export interface MaintenanceItem {
+  id: number;
+  connectionId: number;
+  type: string;
+  date: Date;
+  activityId?: number;
+}
+
+export interface MaintenancePlan {
+  generatedAt: Date;
+  weeks: number;
+  items: MaintenanceItem[];
+}
+
+// Browser notifications for strands about to slip; hours are local 0-23
+export interface ReminderSettings {
+  enabled: boolean;
+  // Remind when a level drop or dormancy is this many days away or fewer
+  windowDays: number;
+  // No notifications from quietStart until quietEnd; the range may wrap past midnight
+  quietStart: number;
+  quietEnd: number;
+  // Reminders are batched into one delivery a day from this hour
+  batchHour: number;
+}
+
+export interface AppSettings {
+  defaultStrength: number;
+  defaultHalfLife: number;
+  gainModel: GainModel;
+  maintenanceBudget: MaintenanceBudget;
+  reminders: ReminderSettings;
+  // Level ladder, lowest rung first
+  levels: LevelDefinition[];
+}
+
+// A separate network kept in the same install, e.g. personal vs. work
+export interface Profile {
+  id: string;
+  name: string;
+  // Shown at the center of the graph; blank falls back to 'YOU'
+  ownerName: string;
+  createdAt: Date;
+}
@@ -0,0 +1,171 @@
+import type { ContactDetails } from './types';
+
+// Minimal vCard (2.1 / 3.0 / 4.0) reader for importing contacts.
+// Handles multi-contact files, folded lines, escaped text values and
+// quoted-printable encoded values.
+
+export interface VCardContact {
+  name: string;
+  details: ContactDetails;
+}
+
+interface VCardProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Join folded lines: a line starting with a space or tab continues the previous one
+const unfoldLines = (text: string): string[] => {
+  const rawLines = text.replace(/\r\n?/g, '\n').split('\n');
+  const lines: string[] = [];
+
+  rawLines.forEach(line => {
+    const previous = lines[lines.length - 1];
+    if (/^[ \t]/.test(line) && lines.length > 0) {
+      lines[lines.length - 1] = previous + line.slice(1);
+    } else if (previous !== undefined && /quoted-printable/i.test(previous.split(':')[0]) && previous.endsWith('=')) {
+      // Quoted-printable soft line break
+      lines[lines.length - 1] = previous.slice(0, -1) + line;
+    } else {
+      lines.push(line);
+    }
+  });
+
+  return lines.filter(line => line.trim() !== '');
+};
+
+const decodeQuotedPrintable = (value: string, charset = 'utf-8'): string => {
+  const bytes: number[] = [];
+  const cleaned = value.replace(/=\n/g, '');
+  for (let i = 0; i < cleaned.length; i++) {
+    const hex = cleaned.slice(i + 1, i + 3);
+    if (cleaned[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(cleaned.charCodeAt(i) & 0xff);
+    }
+  }
+  try {
+    return new TextDecoder(charset).decode(new Uint8Array(bytes));
+  } catch {
+    return new TextDecoder('utf-8').decode(new Uint8Array(bytes));
+  }
+};
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_match, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+
+// Split a structured value (e.g. N) on unescaped semicolons
+const splitStructured = (value: string): string[] =>
+  value.split(/(?<!\\);/).map(part => unescapeText(part).trim());
+
+const parseProperty = (line: string): VCardProperty | null => {
+  // The value starts at the first colon that is not inside a quoted parameter
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex < 0) return null;
+
+  const [rawName, ...rawParams] = line.slice(0, colonIndex).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, ...rest] = param.split('=');
+    if (rest.length === 0) {
+      // vCard 2.1 bare parameters such as TEL;CELL or QUOTED-PRINTABLE
+      if (/^quoted-printable$/i.test(key)) params.ENCODING = 'QUOTED-PRINTABLE';
+      else params.TYPE = params.TYPE ? `${params.TYPE},${key}` : key;
+    } else {
+      params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+    }
+  });
+
+  // Drop any group prefix, e.g. item1.TEL
+  const name = rawName.split('.').pop()!.toUpperCase();
+  let value = line.slice(colonIndex + 1);
+  if (/quoted-printable/i.test(params.ENCODING || '')) {
+    value = decodeQuotedPrintable(value, params.CHARSET || 'utf-8');
+  }
+
+  return { name, params, value };
+};
+
+// Normalise BDAY values to YYYY-MM-DD, or --MM-DD when the year is unknown
+export const normalizeBirthday = (value: string): string | undefined => {
+  const trimmed = value.trim();
+  const noYear = trimmed.match(/^--(\d{2})-?(\d{2})/);
+  if (noYear) return `--${noYear[1]}-${noYear[2]}`;
+
+  const full = trimmed.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (full) return `${full[1]}-${full[2]}-${full[3]}`;
+
+  return undefined;
+};
+
+const contactFromProperties = (properties: VCardProperty[]): VCardContact | null => {
+  const details: ContactDetails = { phones: [], emails: [] };
+  let formattedName = '';
+  let structuredName = '';
+
+  properties.forEach(({ name, value }) => {
+    switch (name) {
+      case 'FN':
+        formattedName = unescapeText(value).trim();
+        break;
+      case 'N': {
+        const [family, given, additional, prefix, suffix] = splitStructured(value);
+        structuredName = [prefix, given, additional, family, suffix].filter(Boolean).join(' ');
+        break;
+      }
+      case 'TEL': {
+        const phone = value.replace(/^tel:/i, '').trim();
+        if (phone && !details.phones.includes(phone)) details.phones.push(phone);
+        break;
+      }
+      case 'EMAIL': {
+        const email = unescapeText(value).replace(/^mailto:/i, '').trim();
+        if (email && !details.emails.includes(email)) details.emails.push(email);
+        break;
+      }
+      case 'BDAY': {
+        const birthday = normalizeBirthday(value);
+        if (birthday) details.birthday = birthday;
+        break;
+      }
+    }
+  });
+
+  const name = formattedName || structuredName;
+  return name ? { name, details } : null;
+};
+
+// Parse every contact in a .vcf file; cards without a usable name are skipped
+export const parseVCards = (text: string): VCardContact[] => {
+  const contacts: VCardContact[] = [];
+  let current: VCardProperty[] | null = null;
+
+  unfoldLines(text).forEach(line => {
+    const upper = line.trim().toUpperCase();
+    if (upper === 'BEGIN:VCARD') {
+      current = [];
+    } else if (upper === 'END:VCARD') {
+      if (current) {
+        const contact = contactFromProperties(current);
+        if (contact) contacts.push(contact);
+      }
+      current = null;
+    } else if (current) {
+      const property = parseProperty(line);
+      if (property) current.push(property);
+    }
+  });
+
+  return contacts;
+};
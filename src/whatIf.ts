@@ -0,0 +1,86 @@
+import type { ActivityType, ConnectionType, GainModel, InteractionTypeDefinition, PlannedInteraction } from './types';
+import { DEFAULT_GAIN_MODEL, MS_PER_DAY, getStrengthAt } from './strandEngine';
+import { getInteractionDisplay, getInteractionType } from './interactionTypes';
+
+// What-if planning: hypothetical future interactions are expanded into
+// activities and replayed with the real history, so a plan's curve follows
+// the same gain model and decay as logged interactions would.
+
+export const FORECAST_HORIZONS = [30, 60, 90, 180, 365];
+export const DEFAULT_FORECAST_HORIZON = 90;
+
+// Curves are sampled at about this many points whatever the horizon
+const CURVE_SAMPLES = 120;
+
+export interface ForecastPoint {
+  day: number;
+  strength: number;
+}
+
+// Every date a planned interaction falls on within [from, to]
+export const getPlannedDates = (item: PlannedInteraction, from: Date, to: Date): Date[] => {
+  if (!item.repeatDays) {
+    return item.date.getTime() > from.getTime() && item.date.getTime() <= to.getTime() ? [item.date] : [];
+  }
+  const dates: Date[] = [];
+  const step = item.repeatDays * MS_PER_DAY;
+  for (let time = item.date.getTime(); time <= to.getTime(); time += step) {
+    if (time > from.getTime()) dates.push(new Date(time));
+  }
+  return dates;
+};
+
+// Hypothetical activities for a plan. They get negative ids so they can
+// never be mistaken for logged ones; unknown types are skipped.
+export const expandPlan = (
+  items: PlannedInteraction[],
+  catalog: InteractionTypeDefinition[],
+  from: Date,
+  to: Date
+): ActivityType[] => {
+  let nextId = -1;
+  return items.flatMap(item => {
+    const type = getInteractionType(catalog, item.type);
+    if (!type) return [];
+    return getPlannedDates(item, from, to).map(date => ({
+      id: nextId--,
+      connectionId: item.connectionId,
+      type: item.type,
+      points: type.points,
+      date,
+      notes: ''
+    }));
+  });
+};
+
+// Strength from `from` to the horizon, replaying the given activities
+export const getForecastCurve = (
+  connection: ConnectionType,
+  activities: ActivityType[],
+  from: Date,
+  horizonDays: number,
+  model: GainModel = DEFAULT_GAIN_MODEL
+): ForecastPoint[] => {
+  const step = Math.max(1, horizonDays / CURVE_SAMPLES);
+  const points: ForecastPoint[] = [];
+  for (let day = 0; day <= horizonDays; day += step) {
+    points.push({ day, strength: getStrengthAt(connection, activities, new Date(from.getTime() + day * MS_PER_DAY), model) });
+  }
+  if (points[points.length - 1].day < horizonDays) {
+    points.push({ day: horizonDays, strength: getStrengthAt(connection, activities, new Date(from.getTime() + horizonDays * MS_PER_DAY), model) });
+  }
+  return points;
+};
+
+// First day on a curve below a threshold, or null if it stays above
+export const getDayBelow = (curve: ForecastPoint[], threshold: number): number | null =>
+  curve.find(point => point.strength < threshold)?.day ?? null;
+
+// Short description such as "Call every 10 days from 3 Jun"
+export const describePlannedInteraction = (item: PlannedInteraction, catalog: InteractionTypeDefinition[]): string => {
+  const { emoji, label } = getInteractionDisplay(catalog, item.type);
+  const date = item.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return item.repeatDays
+    ? `${emoji} ${label} every ${item.repeatDays} days from ${date}`
+    : `${emoji} ${label} on ${date}`;
+};
@@ -1,9 +1,44 @@
 import { defineConfig } from 'vite'
+import type { Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from "@tailwindcss/vite";
 
+// Files from public/ that belong to the offline app shell
+const PUBLIC_SHELL_FILES = [
+  'manifest.webmanifest',
+  'icon.svg',
+  'icon-192.png',
+  'icon-512.png',
+  'icon-maskable-512.png',
+  'reminder-sw.js'
+]
+
+// Short stable hash of a string (FNV-1a)
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16)
+}
+
+// Emits precache-manifest.js for public/sw.js: the shell's URLs and a version
+// that changes whenever any hashed asset does
+const precacheManifest = (): Plugin => ({
+  name: 'strand-precache-manifest',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const urls = ['./', ...Object.keys(bundle).filter(file => !file.endsWith('.map')), ...PUBLIC_SHELL_FILES].sort()
+    this.emitFile({
+      type: 'asset',
+      fileName: 'precache-manifest.js',
+      source: `self.PRECACHE_VERSION = '${hashString(urls.join('\n'))}';\nself.PRECACHE_URLS = ${JSON.stringify(urls)};\n`
+    })
+  }
+})
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss(),],
+  plugins: [react(), tailwindcss(), precacheManifest()],
 })